@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Save, Tags, X } from 'lucide-react';
+import type { CategoryCluster, ValueMap } from '../types';
+import { categoryKey, valueMapId } from '../lib/value-maps';
+import { cn } from '../lib/utils';
+
+interface CategoryStandardizerProps {
+  schemaId: string;
+  // Categorical fields of the run, with the spelling clusters validation found in their columns
+  fields: { fieldId: string; label: string; clusters: CategoryCluster[] }[];
+  // Saved value maps of the schema, by field id
+  valueMaps: Record<string, ValueMap>;
+  onSave: (maps: ValueMap[], removedIds: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full rounded-lg bg-black/20 border border-white/10 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-600";
+
+export const CategoryStandardizer: React.FC<CategoryStandardizerProps> = ({ schemaId, fields, valueMaps, onSave, onClose }) => {
+  // Draft value map per field id: normalized spelling -> canonical label
+  const [drafts, setDrafts] = useState<Record<string, Record<string, string>>>(() =>
+    Object.fromEntries(fields.map(({ fieldId }) => [fieldId, { ...valueMaps[fieldId]?.values }]))
+  );
+  const [selected, setSelected] = useState(fields[0]?.fieldId ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = fields.find(f => f.fieldId === selected);
+  const draft = drafts[selected] ?? {};
+
+  const updateDraft = (update: (values: Record<string, string>) => void) => {
+    setDrafts(prev => {
+      const values = { ...prev[selected] };
+      update(values);
+      return { ...prev, [selected]: values };
+    });
+  };
+
+  // A cluster is accepted once every spelling in it maps to the same label
+  const clusterLabel = (cluster: CategoryCluster): string | undefined => {
+    const labels = new Set(cluster.members.map(member => draft[categoryKey(member.value)]));
+    const [label] = labels;
+    return labels.size === 1 ? label : undefined;
+  };
+
+  const acceptCluster = (cluster: CategoryCluster, label: string | null) => {
+    updateDraft(values => {
+      cluster.members.forEach(member => {
+        const key = categoryKey(member.value);
+        if (label) values[key] = label;
+        else delete values[key];
+      });
+      if (label) values[categoryKey(label)] = label;
+    });
+  };
+
+  // Saved spellings grouped by the label they map to
+  const savedLabels = new Map<string, string[]>();
+  Object.entries(draft).forEach(([key, label]) => {
+    if (categoryKey(label) === key) return;
+    savedLabels.set(label, [...(savedLabels.get(label) ?? []), key]);
+  });
+
+  const handleSave = async () => {
+    const maps: ValueMap[] = [];
+    const removedIds: string[] = [];
+    fields.forEach(({ fieldId }) => {
+      const values = drafts[fieldId] ?? {};
+      const id = valueMapId(schemaId, fieldId);
+      if (Object.keys(values).length > 0) maps.push({ id, schemaId, fieldId, values });
+      else if (valueMaps[fieldId]) removedIds.push(id);
+    });
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(maps, removedIds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save value maps');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-950/95 rounded-xl border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Tags className="w-5 h-5 text-blue-400" />
+            Category Standardization
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-56 shrink-0 border-r border-white/10 p-3 space-y-1 overflow-y-auto">
+            {fields.map(f => (
+              <button
+                key={f.fieldId}
+                onClick={() => setSelected(f.fieldId)}
+                className={cn(
+                  "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors",
+                  selected === f.fieldId ? "bg-blue-500/20 text-blue-200" : "text-slate-300 hover:bg-white/5"
+                )}
+              >
+                <div className="truncate">{f.label}</div>
+                <div className="text-xs text-slate-500">
+                  {f.clusters.length} cluster{f.clusters.length === 1 ? '' : 's'}
+                  {Object.keys(drafts[f.fieldId] ?? {}).length > 0 && ', mapped'}
+                </div>
+              </button>
+            ))}
+          </aside>
+
+          <div className="flex-1 min-w-0 p-6 space-y-6 overflow-y-auto">
+            {!field ? (
+              <p className="text-sm text-slate-400 text-center py-12">No categorical fields in this run.</p>
+            ) : (
+              <>
+                <section className="space-y-3">
+                  <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Spelling clusters</h4>
+                  <p className="text-xs text-slate-500">
+                    Tick a cluster to map all its spellings to the label. Saved maps are applied to <span className="font-mono">{field.fieldId}</span> on every cleaning run of this schema.
+                  </p>
+                  {field.clusters.length === 0 ? (
+                    <p className="text-sm text-slate-500">No near-identical values found in this run.</p>
+                  ) : (
+                    <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+                      {field.clusters.map(cluster => {
+                        const label = clusterLabel(cluster);
+                        return (
+                          <div key={cluster.members[0].value} className="flex items-start gap-3 px-3 py-2">
+                            <input
+                              type="checkbox"
+                              className="mt-2.5"
+                              checked={label !== undefined}
+                              onChange={(e) => acceptCluster(cluster, e.target.checked ? cluster.canonical : null)}
+                            />
+                            <input
+                              className={cn(inputClass, "w-48 shrink-0")}
+                              value={label ?? cluster.canonical}
+                              onChange={(e) => acceptCluster(cluster, e.target.value || null)}
+                            />
+                            <div className="flex flex-wrap gap-1.5 pt-1">
+                              {cluster.members.map(member => (
+                                <span key={member.value} className="px-2 py-0.5 text-xs font-mono text-slate-300 bg-white/5 border border-white/10 rounded">
+                                  {member.value} <span className="text-slate-500">×{member.count}</span>
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </section>
+
+                <section className="space-y-3">
+                  <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Value map</h4>
+                  {savedLabels.size === 0 ? (
+                    <p className="text-sm text-slate-500">No spellings are mapped for this field yet.</p>
+                  ) : (
+                    <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+                      {Array.from(savedLabels.entries()).map(([label, keys]) => (
+                        <div key={label} className="flex items-start gap-3 px-3 py-2">
+                          <span className="w-48 shrink-0 pt-0.5 text-sm text-white truncate">{label}</span>
+                          <div className="flex flex-wrap gap-1.5">
+                            {keys.map(key => (
+                              <span key={key} className="flex items-center gap-1 px-2 py-0.5 text-xs font-mono text-slate-300 bg-white/5 border border-white/10 rounded">
+                                {key}
+                                <button onClick={() => updateDraft(values => { delete values[key]; })} className="text-slate-500 hover:text-red-400" title="Remove">
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              </>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end px-6 py-4 border-t border-white/10">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || fields.length === 0}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save value maps
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
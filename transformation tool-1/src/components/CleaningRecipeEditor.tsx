@@ -0,0 +1,672 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Copy, Download, FilePlus2, Plus, Save, Trash2, Upload, Wand2, X } from 'lucide-react';
+import type { CleaningRecipe, CleaningStep, ImputationRule, ImputationStrategy, OutlierAction, OutlierDetector, OutlierRule, RecipeRegistry } from '../types';
+import { CLEANING_TRANSFORMS, type TransformParam } from '../lib/cleaning-transforms';
+import { RecipeImportError, exportRecipes, parseRecipeImport, validateRecipe } from '../lib/cleaning-recipes';
+import { IMPUTATION_STRATEGIES } from '../lib/imputation';
+import { DEFAULT_PERCENTILES, OUTLIER_ACTIONS, OUTLIER_DETECTORS } from '../lib/outliers';
+import { uniqueSchemaId } from '../lib/schema-registry';
+import { cn, downloadBlob } from '../lib/utils';
+
+interface CleaningRecipeEditorProps {
+  recipes: RecipeRegistry;
+  initialRecipeId: string;
+  // Target fields of the current mapping, offered when adding fields to a recipe
+  fields: string[];
+  // previousId is set when the recipe's id was changed; the stored entry under it is replaced
+  onSave: (recipe: CleaningRecipe, previousId?: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onImport: (recipes: CleaningRecipe[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const EMPTY_RECIPE: CleaningRecipe = { id: '', name: '', fields: {} };
+
+const inputClass = "w-full rounded-lg bg-black/20 border border-white/10 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-600";
+
+// Steps start from the transform's parameter defaults
+const newStep = (transform: string): CleaningStep => {
+  const params = Object.fromEntries(
+    CLEANING_TRANSFORMS[transform].params.filter(p => p.default !== undefined).map(p => [p.name, p.default])
+  );
+  return Object.keys(params).length > 0 ? { transform, params } : { transform };
+};
+
+// "from=to" lines <-> value mapping
+const mappingToText = (mapping: unknown) =>
+  Object.entries((mapping ?? {}) as Record<string, string>).map(([from, to]) => `${from}=${to}`).join('\n');
+
+const textToMapping = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .filter(line => line.includes('='))
+      .map(line => [line.slice(0, line.indexOf('=')).trim(), line.slice(line.indexOf('=') + 1).trim()])
+  );
+
+const textToList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+interface ParamInputProps {
+  param: TransformParam;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const ParamInput: React.FC<ParamInputProps> = ({ param, value, onChange }) => {
+  switch (param.type) {
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 text-xs text-slate-300 py-1.5">
+          <input type="checkbox" checked={Boolean(value ?? param.default)} onChange={(e) => onChange(e.target.checked)} />
+          {param.label}
+        </label>
+      );
+    case 'select':
+      return (
+        <select className={inputClass} value={String(value ?? param.default ?? '')} onChange={(e) => onChange(e.target.value)}>
+          {param.options?.map(option => (
+            <option key={option} value={option} className="bg-slate-900">{option}</option>
+          ))}
+        </select>
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          className={inputClass}
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        />
+      );
+    // Lists and mappings are parsed when the input loses focus, so partial lines survive typing
+    case 'fields':
+      return (
+        <input
+          className={cn(inputClass, "font-mono")}
+          placeholder="field_a, field_b"
+          defaultValue={Array.isArray(value) ? value.join(', ') : ''}
+          onBlur={(e) => onChange(textToList(e.target.value))}
+        />
+      );
+    case 'mapping':
+      return (
+        <textarea
+          rows={3}
+          className={cn(inputClass, "font-mono text-xs")}
+          placeholder={"M=Male\nF=Female"}
+          defaultValue={mappingToText(value)}
+          onBlur={(e) => onChange(textToMapping(e.target.value))}
+        />
+      );
+    default:
+      return (
+        <input
+          className={cn(inputClass, "font-mono")}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+export const CleaningRecipeEditor: React.FC<CleaningRecipeEditorProps> = ({
+  recipes,
+  initialRecipeId,
+  fields,
+  onSave,
+  onDelete,
+  onImport,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<CleaningRecipe>(() => structuredClone(recipes[initialRecipeId] ?? EMPTY_RECIPE));
+  // The stored id of the recipe being edited; null while a new recipe has not been saved
+  const [savedId, setSavedId] = useState<string | null>(recipes[initialRecipeId] ? initialRecipeId : null);
+  const [newField, setNewField] = useState('');
+  const [newImputedField, setNewImputedField] = useState('');
+  const [newOutlierField, setNewOutlierField] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectRecipe = (recipe: CleaningRecipe, id: string | null) => {
+    setDraft(structuredClone(recipe));
+    setSavedId(id);
+    setErrors([]);
+  };
+
+  const newRecipe = (base: CleaningRecipe, name: string) =>
+    selectRecipe({ ...structuredClone(base), id: uniqueSchemaId(name, recipes), name }, null);
+
+  const updateSteps = (field: string, update: (steps: CleaningStep[]) => CleaningStep[]) => {
+    setDraft(prev => ({ ...prev, fields: { ...prev.fields, [field]: update(prev.fields[field] ?? []) } }));
+  };
+
+  const updateParam = (field: string, idx: number, name: string, value: unknown) => {
+    updateSteps(field, steps => steps.map((step, i) => (i === idx ? { ...step, params: { ...step.params, [name]: value } } : step)));
+  };
+
+  const moveStep = (field: string, idx: number, offset: -1 | 1) => {
+    updateSteps(field, steps => {
+      const next = [...steps];
+      [next[idx], next[idx + offset]] = [next[idx + offset], next[idx]];
+      return next;
+    });
+  };
+
+  const addField = (field: string) => {
+    const name = field.trim();
+    if (!name || draft.fields[name]) return;
+    setDraft(prev => ({ ...prev, fields: { ...prev.fields, [name]: [newStep('trim')] } }));
+    setNewField('');
+  };
+
+  const removeField = (field: string) => {
+    setDraft(prev => {
+      const next = { ...prev.fields };
+      delete next[field];
+      return { ...prev, fields: next };
+    });
+  };
+
+  const updateImputation = (field: string, rule: ImputationRule | undefined) => {
+    setDraft(prev => {
+      const next = { ...prev.imputation };
+      if (rule) next[field] = rule;
+      else delete next[field];
+      return { ...prev, imputation: Object.keys(next).length > 0 ? next : undefined };
+    });
+  };
+
+  const addImputation = (field: string) => {
+    const name = field.trim();
+    if (!name || draft.imputation?.[name]) return;
+    updateImputation(name, { strategy: 'median' });
+    setNewImputedField('');
+  };
+
+  const updateOutliers = (field: string, rule: OutlierRule | undefined) => {
+    setDraft(prev => {
+      const next = { ...prev.outliers };
+      if (rule) next[field] = rule;
+      else delete next[field];
+      return { ...prev, outliers: Object.keys(next).length > 0 ? next : undefined };
+    });
+  };
+
+  const addOutliers = (field: string) => {
+    const name = field.trim();
+    if (!name || draft.outliers?.[name]) return;
+    updateOutliers(name, { detector: 'iqr', action: 'flag' });
+    setNewOutlierField('');
+  };
+
+  const handleSave = async () => {
+    const problems = validateRecipe(draft);
+    if (savedId !== draft.id && recipes[draft.id]) problems.push(`A recipe with id "${draft.id}" already exists`);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(draft, savedId && savedId !== draft.id ? savedId : undefined);
+      setSavedId(draft.id);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save recipe']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedId) return;
+    try {
+      await onDelete(savedId);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to delete recipe']);
+      return;
+    }
+    selectRecipe(EMPTY_RECIPE, null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseRecipeImport(await file.text());
+      await onImport(imported);
+      selectRecipe(imported[0], imported[0].id);
+    } catch (err) {
+      setErrors([err instanceof RecipeImportError ? err.message : 'Failed to import recipes']);
+    }
+  };
+
+  const unusedFields = fields.filter(field => !draft.fields[field]);
+  const knownFields = Array.from(new Set([...fields, ...Object.keys(draft.fields)]));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-slate-950/95 rounded-xl border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-blue-400" />
+            Cleaning Recipes
+          </h3>
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Upload className="w-3.5 h-3.5" /> Import
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([exportRecipes([draft])], { type: 'application/json' }), `${draft.id || 'recipe'}.recipe.json`)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg hover:bg-white/10">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-56 shrink-0 border-r border-white/10 p-3 space-y-1 overflow-y-auto">
+            {Object.values(recipes).map(recipe => (
+              <button
+                key={recipe.id}
+                onClick={() => selectRecipe(recipe, recipe.id)}
+                className={cn(
+                  "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors",
+                  savedId === recipe.id ? "bg-blue-500/20 text-blue-200" : "text-slate-300 hover:bg-white/5"
+                )}
+              >
+                <div className="truncate">{recipe.name}</div>
+                <div className="text-xs font-mono text-slate-500 truncate">{recipe.id}</div>
+              </button>
+            ))}
+            <button
+              onClick={() => newRecipe(EMPTY_RECIPE, 'New Recipe')}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-white/5 hover:text-white"
+            >
+              <FilePlus2 className="w-4 h-4" /> New recipe
+            </button>
+          </aside>
+
+          <div className="flex-1 min-w-0 p-6 overflow-y-auto space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Name</span>
+                <input className={cn(inputClass, "mt-1")} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Id</span>
+                <input className={cn(inputClass, "mt-1 font-mono")} value={draft.id} onChange={(e) => setDraft({ ...draft, id: e.target.value })} />
+              </label>
+              <label className="block col-span-2">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</span>
+                <input
+                  className={cn(inputClass, "mt-1")}
+                  value={draft.description ?? ''}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value || undefined })}
+                />
+              </label>
+            </div>
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Field steps</h4>
+              <p className="text-xs text-slate-500">
+                Steps run top to bottom, field by field in this order. Fields not listed keep the default cleaning for their semantic type.
+              </p>
+
+              {Object.entries(draft.fields).map(([field, steps]) => (
+                <div key={field} className="rounded-lg border border-white/10 bg-white/[0.02]">
+                  <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+                    <span className="text-sm font-mono text-slate-200">
+                      {field}
+                      {!fields.includes(field) && <span className="ml-2 text-[10px] uppercase text-blue-300">new field</span>}
+                    </span>
+                    <button onClick={() => removeField(field)} className="p-1 text-slate-500 hover:text-red-400" title="Remove field">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="divide-y divide-white/5">
+                    {steps.map((step, idx) => {
+                      const transform = CLEANING_TRANSFORMS[step.transform];
+                      return (
+                        <div key={`${draft.id}-${field}-${idx}-${step.transform}`} className="flex gap-3 px-3 py-2">
+                          <span className="pt-1.5 text-xs font-mono text-slate-500 w-4">{idx + 1}</span>
+                          <div className="w-44 shrink-0 space-y-1">
+                            <select
+                              className={inputClass}
+                              value={step.transform}
+                              onChange={(e) => updateSteps(field, s => s.map((st, i) => (i === idx ? newStep(e.target.value) : st)))}
+                            >
+                              {!transform && <option value={step.transform} className="bg-slate-900">{step.transform} (unknown)</option>}
+                              {Object.values(CLEANING_TRANSFORMS).map(t => (
+                                <option key={t.id} value={t.id} className="bg-slate-900">{t.label}</option>
+                              ))}
+                            </select>
+                            {transform && <p className="text-[11px] text-slate-500">{transform.description}</p>}
+                          </div>
+                          <div className="flex-1 grid grid-cols-3 gap-2">
+                            {transform?.params.map(param => (
+                              <label key={param.name} className={cn("block", param.type === 'mapping' && "col-span-3")}>
+                                {param.type !== 'boolean' && (
+                                  <span className="text-[10px] uppercase tracking-wider text-slate-500">{param.label}</span>
+                                )}
+                                <ParamInput
+                                  param={param}
+                                  value={step.params?.[param.name]}
+                                  onChange={(value) => updateParam(field, idx, param.name, value)}
+                                />
+                              </label>
+                            ))}
+                          </div>
+                          <div className="flex flex-col gap-1">
+                            <button
+                              onClick={() => moveStep(field, idx, -1)}
+                              disabled={idx === 0}
+                              className="p-1 text-slate-500 hover:text-white disabled:opacity-30"
+                            >
+                              <ArrowUp className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => moveStep(field, idx, 1)}
+                              disabled={idx === steps.length - 1}
+                              className="p-1 text-slate-500 hover:text-white disabled:opacity-30"
+                            >
+                              <ArrowDown className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => updateSteps(field, s => s.filter((_, i) => i !== idx))}
+                              className="p-1 text-slate-500 hover:text-red-400"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <button
+                    onClick={() => updateSteps(field, s => [...s, newStep('trim')])}
+                    className="flex items-center gap-1.5 px-3 py-2 text-xs text-slate-400 hover:text-white"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add step
+                  </button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <input
+                  list="recipe-field-options"
+                  className={cn(inputClass, "w-64 font-mono")}
+                  placeholder="Field to clean or create"
+                  value={newField}
+                  onChange={(e) => setNewField(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addField(newField)}
+                />
+                <datalist id="recipe-field-options">
+                  {unusedFields.map(field => <option key={field} value={field} />)}
+                </datalist>
+                <button
+                  onClick={() => addField(newField)}
+                  disabled={!newField.trim() || Boolean(draft.fields[newField.trim()])}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 disabled:opacity-50"
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add field
+                </button>
+              </div>
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Outliers</h4>
+              <p className="text-xs text-slate-500">
+                How outlying numbers are detected and treated after cleaning, before missing values are filled.
+              </p>
+
+              {Object.keys(draft.outliers ?? {}).length > 0 && (
+                <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+                  {Object.entries(draft.outliers ?? {}).map(([field, rule]) => {
+                    const detector = OUTLIER_DETECTORS.find(d => d.id === rule.detector);
+                    const [low, high] = rule.percentiles ?? DEFAULT_PERCENTILES;
+                    return (
+                      <div key={field} className="flex items-start gap-3 px-3 py-2">
+                        <span className="w-40 shrink-0 pt-1.5 text-sm font-mono text-slate-200 truncate">{field}</span>
+                        <div className="flex-1 grid grid-cols-3 gap-2">
+                          <select
+                            className={inputClass}
+                            value={rule.detector}
+                            onChange={(e) => updateOutliers(field, { ...rule, detector: e.target.value as OutlierDetector, threshold: undefined })}
+                          >
+                            {OUTLIER_DETECTORS.map(d => (
+                              <option key={d.id} value={d.id} className="bg-slate-900">{d.label}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            className={inputClass}
+                            placeholder={`${detector?.thresholdLabel} (${detector?.threshold})`}
+                            title={detector?.thresholdLabel}
+                            value={rule.threshold ?? ''}
+                            onChange={(e) => updateOutliers(field, { ...rule, threshold: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          />
+                          <select
+                            className={inputClass}
+                            value={rule.action}
+                            onChange={(e) => updateOutliers(field, { ...rule, action: e.target.value as OutlierAction })}
+                          >
+                            {OUTLIER_ACTIONS.map(a => (
+                              <option key={a.id} value={a.id} className="bg-slate-900">{a.label}</option>
+                            ))}
+                          </select>
+                          {rule.action === 'winsorize' && (
+                            <>
+                              <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                className={inputClass}
+                                title="Lower percentile"
+                                value={low}
+                                onChange={(e) => updateOutliers(field, { ...rule, percentiles: [Number(e.target.value), high] })}
+                              />
+                              <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                className={inputClass}
+                                title="Upper percentile"
+                                value={high}
+                                onChange={(e) => updateOutliers(field, { ...rule, percentiles: [low, Number(e.target.value)] })}
+                              />
+                            </>
+                          )}
+                        </div>
+                        <button onClick={() => updateOutliers(field, undefined)} className="p-1.5 text-slate-500 hover:text-red-400" title="Remove">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <input
+                  list="recipe-outlier-options"
+                  className={cn(inputClass, "w-64 font-mono")}
+                  placeholder="Numeric field"
+                  value={newOutlierField}
+                  onChange={(e) => setNewOutlierField(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addOutliers(newOutlierField)}
+                />
+                <datalist id="recipe-outlier-options">
+                  {knownFields.filter(f => !draft.outliers?.[f]).map(f => <option key={f} value={f} />)}
+                </datalist>
+                <button
+                  onClick={() => addOutliers(newOutlierField)}
+                  disabled={!newOutlierField.trim() || Boolean(draft.outliers?.[newOutlierField.trim()])}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 disabled:opacity-50"
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add outlier rule
+                </button>
+              </div>
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Missing values</h4>
+              <p className="text-xs text-slate-500">
+                How empty values are filled after cleaning. Filled cells are flagged in the cleaning report.
+              </p>
+
+              {Object.keys(draft.imputation ?? {}).length > 0 && (
+                <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+                  {Object.entries(draft.imputation ?? {}).map(([field, rule]) => (
+                    <div key={field} className="flex items-start gap-3 px-3 py-2">
+                      <span className="w-40 shrink-0 pt-1.5 text-sm font-mono text-slate-200 truncate">{field}</span>
+                      <select
+                        className={cn(inputClass, "w-40 shrink-0")}
+                        value={rule.strategy}
+                        title={IMPUTATION_STRATEGIES.find(s => s.id === rule.strategy)?.description}
+                        onChange={(e) => updateImputation(field, { strategy: e.target.value as ImputationStrategy })}
+                      >
+                        {IMPUTATION_STRATEGIES.map(strategy => (
+                          <option key={strategy.id} value={strategy.id} className="bg-slate-900">{strategy.label}</option>
+                        ))}
+                      </select>
+                      <div className="flex-1 grid grid-cols-2 gap-2">
+                        {rule.strategy === 'constant' && (
+                          <input
+                            className={inputClass}
+                            placeholder="Fill value"
+                            value={rule.value === undefined ? '' : String(rule.value)}
+                            onChange={(e) => updateImputation(field, { ...rule, value: e.target.value })}
+                          />
+                        )}
+                        {(rule.strategy === 'forward_fill' || rule.strategy === 'backward_fill') && (
+                          <select
+                            className={inputClass}
+                            value={rule.orderBy ?? ''}
+                            onChange={(e) => updateImputation(field, { ...rule, orderBy: e.target.value || undefined })}
+                          >
+                            <option value="" className="bg-slate-900">File order</option>
+                            {knownFields.filter(f => f !== field).map(f => (
+                              <option key={f} value={f} className="bg-slate-900">Order by {f}</option>
+                            ))}
+                          </select>
+                        )}
+                        {rule.strategy === 'group_median' && (
+                          <select
+                            className={inputClass}
+                            value={rule.groupBy ?? ''}
+                            onChange={(e) => updateImputation(field, { ...rule, groupBy: e.target.value || undefined })}
+                          >
+                            <option value="" className="bg-slate-900">Group by...</option>
+                            {knownFields.filter(f => f !== field).map(f => (
+                              <option key={f} value={f} className="bg-slate-900">{f}</option>
+                            ))}
+                          </select>
+                        )}
+                        {rule.strategy === 'knn' && (
+                          <>
+                            <input
+                              type="number"
+                              min={1}
+                              className={inputClass}
+                              placeholder="Neighbors (5)"
+                              value={rule.neighbors ?? ''}
+                              onChange={(e) => updateImputation(field, { ...rule, neighbors: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            />
+                            <input
+                              key={`${draft.id}-${field}-features`}
+                              className={cn(inputClass, "font-mono")}
+                              placeholder="Features (all numeric)"
+                              defaultValue={rule.features?.join(', ') ?? ''}
+                              onBlur={(e) => {
+                                const features = textToList(e.target.value);
+                                updateImputation(field, { ...rule, features: features.length > 0 ? features : undefined });
+                              }}
+                            />
+                          </>
+                        )}
+                      </div>
+                      <button onClick={() => updateImputation(field, undefined)} className="p-1.5 text-slate-500 hover:text-red-400" title="Remove">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <input
+                  list="recipe-imputation-options"
+                  className={cn(inputClass, "w-64 font-mono")}
+                  placeholder="Field to fill"
+                  value={newImputedField}
+                  onChange={(e) => setNewImputedField(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addImputation(newImputedField)}
+                />
+                <datalist id="recipe-imputation-options">
+                  {knownFields.filter(f => !draft.imputation?.[f]).map(f => <option key={f} value={f} />)}
+                </datalist>
+                <button
+                  onClick={() => addImputation(newImputedField)}
+                  disabled={!newImputedField.trim() || Boolean(draft.imputation?.[newImputedField.trim()])}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 disabled:opacity-50"
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add imputation
+                </button>
+              </div>
+            </section>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-400 list-disc pl-5">
+                {errors.map(err => <li key={err}>{err}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-white/10">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => newRecipe(draft, `${draft.name || 'Recipe'} (copy)`)}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Copy className="w-4 h-4" /> Clone
+            </button>
+            {savedId && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg hover:bg-red-500/20"
+              >
+                <Trash2 className="w-4 h-4" /> Delete
+              </button>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save recipe
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Download, CheckCircle, Activity, Filter, Trash2, Calendar, Phone, Mail, User, RefreshCw } from 'lucide-react';
 import type { CleaningReport } from '../types';
 import * as XLSX from 'xlsx';
+import { downloadBlob } from '../lib/utils';
 
 interface CleaningReportUIProps {
   report: CleaningReport;
@@ -11,8 +12,16 @@ interface CleaningReportUIProps {
 export const CleaningReportUI: React.FC<CleaningReportUIProps> = ({ report, onRestart }) => {
   const { stats, cleaned_data } = report;
   const [showPreview, setShowPreview] = useState(false);
+  // Imputed cells are tinted in the preview, keyed by "row:field"
+  const imputed = new Map(report.imputed_cells?.map(cell => [`${cell.row}:${cell.field}`, cell.strategy]));
 
   const handleDownload = () => {
+    // Streamed datasets are too large for an XLSX workbook; ship the pre-built CSV instead
+    if (report.cleaned_output) {
+      downloadBlob(report.cleaned_output, 'cleaned_data.csv');
+      return;
+    }
+
     const ws = XLSX.utils.json_to_sheet(cleaned_data);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Cleaned Data");
@@ -91,7 +100,7 @@ export const CleaningReportUI: React.FC<CleaningReportUIProps> = ({ report, onRe
           color="bg-green-500"
         />
         <StatCard
-          label="Warnings"
+          label="Value Warnings"
           value={stats.records_with_warnings}
           icon={Activity}
           color="bg-yellow-500"
@@ -170,8 +179,12 @@ export const CleaningReportUI: React.FC<CleaningReportUIProps> = ({ report, onRe
               <tbody className="divide-y divide-white/10">
                 {cleaned_data.slice(0, 10).map((row, idx) => (
                   <tr key={idx} className="hover:bg-white/5 transition-colors">
-                    {Object.values(row).map((val: any, i) => (
-                      <td key={i} className="px-8 py-4 whitespace-nowrap max-w-xs truncate">
+                    {Object.entries(row).map(([key, val]: [string, any], i) => (
+                      <td
+                        key={i}
+                        className={`px-8 py-4 whitespace-nowrap max-w-xs truncate ${imputed.has(`${idx}:${key}`) ? 'bg-blue-500/10' : ''}`}
+                        title={imputed.has(`${idx}:${key}`) ? `Imputed (${imputed.get(`${idx}:${key}`)})` : undefined}
+                      >
                         {val === null ? (
                           <span className="text-slate-500 italic text-xs bg-white/5 px-2 py-1 rounded">null</span>
                         ) : typeof val === 'object' ? (
@@ -190,7 +203,7 @@ export const CleaningReportUI: React.FC<CleaningReportUIProps> = ({ report, onRe
               </tbody>
             </table>
             <div className="px-8 py-4 bg-black/40 text-xs text-slate-500 text-center border-t border-white/10 font-medium uppercase tracking-wide">
-              Showing first 10 rows of {cleaned_data.length} records
+              Showing first 10 rows of {stats.records_after_cleaning.toLocaleString()} records
             </div>
           </div>
         )}
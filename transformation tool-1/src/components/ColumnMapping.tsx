@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowRight, CheckCircle, HelpCircle } from 'lucide-react';
+import { ArrowRight, CheckCircle, HelpCircle, AlertTriangle, Database, Wand2 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { describeFormat } from '../lib/type-inference';
 import type { MappingResult, DomainSchema, ColumnAnalysis, SemanticType, SemanticMapping } from '../types';
 
 interface ColumnMappingProps {
   columns: ColumnAnalysis[];
   initialMapping: MappingResult;
+  initialSemanticMapping?: SemanticMapping;
   targetSchema?: DomainSchema;
+  schemas?: DomainSchema[];
+  onTargetSchemaChange?: (schemaId: string) => void;
+  onManageSchemas?: () => void;
+  onDraftSchema?: () => void;
   onConfirm: (finalMapping: Record<string, string>, semanticMapping: SemanticMapping) => void;
   onBack: () => void;
 }
@@ -25,7 +31,12 @@ const SEMANTIC_TYPES: SemanticType[] = [
 export const ColumnMapping: React.FC<ColumnMappingProps> = ({ 
   columns, 
   initialMapping, 
-  targetSchema: _targetSchema, 
+  initialSemanticMapping,
+  targetSchema, 
+  schemas,
+  onTargetSchemaChange,
+  onManageSchemas,
+  onDraftSchema,
   onConfirm,
   onBack
 }) => {
@@ -45,7 +56,12 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
         newMappings[col.name] = col.name; // Default to self
       }
 
-      // 2. Semantic Type Inference
+      // 2. Semantic Type Inference (prefer value-based inference when provided)
+      if (initialSemanticMapping?.[col.name]) {
+        newSemanticTypes[col.name] = initialSemanticMapping[col.name];
+        return;
+      }
+
       let inferredType: SemanticType = 'free_text';
       
       const lowerName = col.name.toLowerCase();
@@ -75,7 +91,13 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
 
     setMappings(newMappings);
     setSemanticTypes(newSemanticTypes);
-  }, [initialMapping, columns]);
+  }, [initialMapping, initialSemanticMapping, columns]);
+
+  // Scores from generateMapping, so edited rows can fall back to "custom"
+  const suggestions = new Map(initialMapping.mappings.map(m => [m.originalColumn, m]));
+  const schemaFields = targetSchema?.fields ?? [];
+  const mappedTargets = new Set(Object.values(mappings).filter(Boolean));
+  const missingRequired = schemaFields.filter(field => field.required && !mappedTargets.has(field.id));
 
   const handleMappingChange = (originalCol: string, newValue: string) => {
     setMappings(prev => ({ ...prev, [originalCol]: newValue }));
@@ -109,13 +131,59 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
              Verify target field names and confirm semantic data types.
            </p>
         </div>
-        <div className="text-right">
+        <div className="flex items-center gap-4">
+             {schemas && onTargetSchemaChange && (
+                 <div className="flex items-center gap-2">
+                     <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Target schema</label>
+                     <select
+                         className="rounded-lg bg-black/20 border border-white/10 text-sm text-slate-200 px-3 py-1.5 focus:ring-2 focus:ring-blue-500"
+                         value={targetSchema?.id}
+                         onChange={(e) => onTargetSchemaChange(e.target.value)}
+                     >
+                         {schemas.map(schema => (
+                             <option key={schema.id} value={schema.id} className="bg-slate-900 text-slate-300">{schema.name}</option>
+                         ))}
+                     </select>
+                     {onManageSchemas && (
+                         <button
+                             onClick={onManageSchemas}
+                             title="Manage schemas"
+                             className="p-2 text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+                         >
+                             <Database className="w-4 h-4" />
+                         </button>
+                     )}
+                     {onDraftSchema && (
+                         <button
+                             onClick={onDraftSchema}
+                             title="Draft a schema from this dataset"
+                             className="p-2 text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+                         >
+                             <Wand2 className="w-4 h-4" />
+                         </button>
+                     )}
+                 </div>
+             )}
              <div className="text-sm font-medium text-slate-300">
                  {Object.values(mappings).filter(Boolean).length} / {columns.length} Columns Mapped
              </div>
         </div>
       </div>
 
+      {targetSchema && missingRequired.length > 0 && (
+        <div className="flex items-start gap-3 p-4 rounded-xl border border-orange-500/20 bg-orange-500/10 text-sm text-orange-200">
+          <AlertTriangle className="w-5 h-5 text-orange-400 shrink-0" />
+          <div>
+            <p className="font-medium">
+              {missingRequired.length} required {targetSchema.name} field{missingRequired.length === 1 ? '' : 's'} not mapped
+            </p>
+            <p className="text-orange-300/80 mt-1 font-mono text-xs">
+              {missingRequired.map(field => field.id).join(', ')}
+            </p>
+          </div>
+        </div>
+      )}
+
       <div className="bg-black/40 backdrop-blur-md rounded-xl shadow-sm border border-white/10 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm">
@@ -133,6 +201,8 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
                 const originalName = col.name;
                 const mappedId = mappings[originalName];
                 const semanticType = semanticTypes[originalName];
+                const suggestion = suggestions.get(originalName);
+                const targetField = schemaFields.find(field => field.id === mappedId);
                 
                 return (
                   <tr key={originalName} className={cn("hover:bg-white/5 transition-colors", !mappedId ? "bg-orange-500/10" : "")}>
@@ -140,6 +210,16 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
                         {originalName}
                         <div className="text-xs text-slate-400 font-normal mt-0.5">
                             Detected: {col.type}
+                            {col.inference && (
+                                <span className={cn("ml-1 font-mono", col.inference.confidence < 0.9 && "text-orange-400")}>
+                                    ({(col.inference.confidence * 100).toFixed(0)}%)
+                                </span>
+                            )}
+                            {col.inference && describeFormat(col.inference.format).length > 0 && (
+                                <span className="ml-1 font-mono text-slate-500">
+                                    &middot; {describeFormat(col.inference.format).join(' · ')}
+                                </span>
+                            )}
                         </div>
                     </td>
                     <td className="px-6 py-4 text-center text-slate-500">
@@ -155,7 +235,19 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
                             value={mappedId || ""}
                             onChange={(e) => handleMappingChange(originalName, e.target.value)}
                             placeholder="Enter target field name"
+                            list="schema-field-options"
                         />
+                        <div className="text-xs mt-1">
+                            {targetField && suggestion?.canonicalField === targetField.id ? (
+                                <span className={cn("font-mono", suggestion.confidence < 0.8 ? "text-orange-400" : "text-slate-500")}>
+                                    {targetField.label} &middot; {(suggestion.confidence * 100).toFixed(0)}% match
+                                </span>
+                            ) : targetField ? (
+                                <span className="text-slate-500">{targetField.label}</span>
+                            ) : targetSchema && mappedId ? (
+                                <span className="text-slate-500">Not in {targetSchema.name}</span>
+                            ) : null}
+                        </div>
                     </td>
                     <td className="px-6 py-4">
                         <select
@@ -188,6 +280,11 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
               })}
             </tbody>
           </table>
+          <datalist id="schema-field-options">
+            {schemaFields.map(field => (
+              <option key={field.id} value={field.id}>{field.label}</option>
+            ))}
+          </datalist>
         </div>
       </div>
 
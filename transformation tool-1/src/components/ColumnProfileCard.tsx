@@ -0,0 +1,132 @@
+import React from 'react';
+import { Bar, BarChart, ResponsiveContainer, Tooltip } from 'recharts';
+import type { ColumnAnalysis, HistogramBin } from '../types';
+import { cn } from '../lib/utils';
+
+interface ColumnProfileCardProps {
+  column: ColumnAnalysis;
+}
+
+const formatNumber = (value: number) => {
+  if (!Number.isFinite(value)) return '-';
+  if (Math.abs(value) >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (Math.abs(value) >= 10_000) return `${(value / 1_000).toFixed(1)}K`;
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+};
+
+const Sparkline: React.FC<{ bins: HistogramBin[]; color: string; label: (bin: HistogramBin) => string }> = ({ bins, color, label }) => (
+  <div className="h-12">
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={bins.map(bin => ({ ...bin, label: label(bin) }))} margin={{ top: 2, right: 0, left: 0, bottom: 0 }} barCategoryGap={1}>
+        <Tooltip
+          cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+          labelFormatter={(_, payload) => payload?.[0]?.payload?.label ?? ''}
+          formatter={(value) => [value, 'count']}
+          contentStyle={{ backgroundColor: 'rgba(0,0,0,0.8)', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.1)', color: '#fff', fontSize: '11px', padding: '4px 8px' }}
+        />
+        <Bar dataKey="count" fill={color} radius={[2, 2, 0, 0]} isAnimationActive={false} />
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export const ColumnProfileCard: React.FC<ColumnProfileCardProps> = ({ column }) => {
+  const profile = column.profile;
+  if (!profile) return null;
+
+  const numeric = profile.numeric;
+  const maxTop = profile.topValues[0]?.count ?? 0;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md rounded-xl border border-white/10 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h4 className="text-sm font-semibold text-white truncate" title={column.name}>{column.name}</h4>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {profile.distinctIsApproximate ? '≥ ' : ''}{profile.distinctCount.toLocaleString()} distinct
+            &middot; {column.nullPercentage.toFixed(1)}% null
+          </p>
+        </div>
+        <span className="px-2 py-0.5 text-[10px] font-medium uppercase rounded border bg-white/10 text-slate-300 border-white/10">
+          {column.type}
+        </span>
+      </div>
+
+      {numeric ? (
+        <div>
+          <Sparkline
+            bins={numeric.histogram}
+            color="#818cf8"
+            label={bin => `${formatNumber(bin.start)} – ${formatNumber(bin.end)}`}
+          />
+          <dl className="mt-2 grid grid-cols-5 gap-1 text-center">
+            {([
+              ['min', numeric.min],
+              ['median', numeric.median],
+              ['mean', numeric.mean],
+              ['std', numeric.stdDev],
+              ['max', numeric.max]
+            ] as const).map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-[10px] uppercase text-slate-500">{label}</dt>
+                <dd className="text-xs font-mono text-slate-200">{formatNumber(value)}</dd>
+              </div>
+            ))}
+          </dl>
+          {numeric.isSampled && (
+            <p className="mt-1 text-[10px] text-slate-600">Median and histogram estimated from a sample</p>
+          )}
+        </div>
+      ) : (
+        <div>
+          <Sparkline
+            bins={profile.length.histogram}
+            color="#34d399"
+            label={bin => `length ${bin.start}`}
+          />
+          <p className="mt-1 text-xs text-slate-500">
+            Length {profile.length.min}–{profile.length.max} &middot; avg {profile.length.mean.toFixed(1)}
+          </p>
+        </div>
+      )}
+
+      {profile.topValues.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">Top values</p>
+          {profile.topValues.slice(0, 5).map(entry => (
+            <div key={entry.value} className="flex items-center gap-2 text-xs">
+              <span className="w-24 truncate font-mono text-slate-300" title={entry.value}>{entry.value}</span>
+              <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-400/60 rounded-full"
+                  style={{ width: `${maxTop > 0 ? (entry.count / maxTop) * 100 : 0}%` }}
+                ></div>
+              </div>
+              <span className="w-10 text-right font-mono text-slate-500">{entry.count.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {profile.patterns.length > 0 && (
+        <div>
+          <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-500 mb-1">Patterns</p>
+          <div className="flex flex-wrap gap-1">
+            {profile.patterns.map((pattern, idx) => (
+              <span
+                key={pattern.value}
+                title={`${pattern.count.toLocaleString()} values`}
+                className={cn(
+                  "px-1.5 py-0.5 text-[10px] font-mono rounded border",
+                  idx === 0 ? "text-slate-200 bg-white/10 border-white/20" : "text-slate-400 bg-white/5 border-white/10"
+                )}
+              >
+                {pattern.value}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,102 +1,772 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { UnifiedInput } from './UnifiedInput';
 import { CleaningReportUI } from './CleaningReportUI';
+import { FileUpload } from './FileUpload';
+import { IngestionAnalysis } from './IngestionAnalysis';
+import { MetadataPanel } from './MetadataPanel';
+import { ColumnMapping } from './ColumnMapping';
+import { ValidationReportUI } from './ValidationReportUI';
+import { GeminiInsightsUI } from './GeminiInsightsUI';
+import { MLImpactAnalysis } from './MLImpactAnalysis';
+import { SheetSelector } from './SheetSelector';
+import { HeaderRowSelector } from './HeaderRowSelector';
+import { JsonStructureSelector } from './JsonStructureSelector';
+import { SchemaEditor } from './SchemaEditor';
+import { ValidationProfileEditor } from './ValidationProfileEditor';
+import { CleaningRecipeEditor } from './CleaningRecipeEditor';
+import { DuplicateReview } from './DuplicateReview';
+import { CategoryStandardizer } from './CategoryStandardizer';
+import { PipelineStepper, type PipelineStepDefinition } from './PipelineStepper';
 import { Layout } from './layout/Layout';
-import { cleanUnifiedData } from '../lib/cleaner';
-import type { CleaningReport } from '../types';
+import { cleanData } from '../lib/cleaner';
+import { runUnifiedPipeline, PipelineCancelledError, type PipelineInput } from '../lib/pipeline-runner';
+import {
+    processFile,
+    getLastProcessedData,
+    getLastPreviewData,
+    listWorkbookSheets,
+    previewJSON,
+    previewRawRows,
+    type JsonPreview,
+    type ProcessFileOptions,
+    type RawPreview
+} from '../lib/file-processor';
+import { generateMapping } from '../lib/schema-mapper';
+import { inferSemanticMapping } from '../lib/semantic-mapper';
+import { validateData } from '../lib/validator';
+import { cleanCSVStream, validateCSVStream } from '../lib/csv-stream';
+import { runGeminiAnalysis } from '../lib/gemini';
+import { SCHEMAS, USER_SCHEMA } from '../lib/schemas';
+import { deleteSchema, isBuiltInSchema, loadSchemas, saveSchema } from '../lib/schema-registry';
+import { inferDomainSchema } from '../lib/schema-inference';
+import { DEFAULT_PROFILE, VALIDATION_PROFILES, deleteProfile, isBuiltInProfile, loadProfiles, saveProfile } from '../lib/validation-profiles';
+import { deleteRecipe, loadRecipes, saveRecipe } from '../lib/cleaning-recipes';
+import { mergeDuplicates } from '../lib/duplicates';
+import { deleteValueMap, loadValueMaps, saveValueMap, valueMapId, valueMapsForSchema } from '../lib/value-maps';
+import {
+    checkReferentialIntegrity,
+    collectDatasetKeys,
+    keyFieldsFor,
+    withReferentialIntegrity,
+    type DatasetKeys
+} from '../lib/referential-integrity';
+import { cn } from '../lib/utils';
+import type {
+    AnalysisResult,
+    CleaningRecipe,
+    CleaningReport,
+    DomainSchema,
+    DuplicateCluster,
+    GeminiAnalysisResult,
+    HeaderLayout,
+    JsonFlattenOptions,
+    MappingResult,
+    ProfileRegistry,
+    RecipeRegistry,
+    ReferentialIntegrityResult,
+    SchemaRegistry,
+    SemanticMapping,
+    SemanticType,
+    SheetSummary,
+    ValidationProfile,
+    ValidationReport,
+    ValueMap,
+    ValueMapRegistry
+} from '../types';
+import type { PipelineProgressEvent, PipelineStageTiming } from '../types/pipeline';
 import type { UnifiedRecord } from '../lib/input-processor';
-import { Loader2, AlertCircle, Database, HardDrive, FileJson, CheckCircle2 } from 'lucide-react';
+import { Loader2, AlertCircle, CheckCircle2, Circle, XCircle, Layers, Table2, ArrowRight, Tags, Timer, Users, Wand2 } from 'lucide-react';
 
-import { linkRecordsByTopic } from '../lib/topic-linker';
+type PipelineMode = 'unified' | 'tabular';
+
+type TabularStep = 'upload' | 'analysis' | 'mapping' | 'validation' | 'cleaning' | 'insights' | 'ml_impact';
+
+type DashboardStep = TabularStep | 'processing' | 'unified_complete';
+
+const TABULAR_STEPS: PipelineStepDefinition<TabularStep>[] = [
+    { id: 'upload', label: 'Upload' },
+    { id: 'analysis', label: 'Analysis' },
+    { id: 'mapping', label: 'Mapping' },
+    { id: 'validation', label: 'Validation' },
+    { id: 'cleaning', label: 'Cleaning' },
+    { id: 'insights', label: 'AI Insights' },
+    { id: 'ml_impact', label: 'ML Impact' },
+];
+
+// Upload-step choices made before a tabular file is analyzed
+interface PendingUpload {
+    file: File;
+    sheets?: SheetSummary[];   // Set when a workbook has several sheets to choose from
+    selectedSheets?: string[];
+    preview?: RawPreview;      // Raw rows for confirming the header row
+    json?: JsonPreview;        // Parsed document for choosing the records root
+}
+
+const datasetName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+const formatDuration = (ms: number) =>
+    ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+
+const isTabularStep = (step: DashboardStep): step is TabularStep =>
+    TABULAR_STEPS.some(s => s.id === step);
 
 export const Dashboard: React.FC = () => {
+    const [mode, setMode] = useState<PipelineMode>('unified');
     const [isProcessing, setIsProcessing] = useState(false);
     const [cleaningReport, setCleaningReport] = useState<CleaningReport | null>(null);
-    const [step, setStep] = useState<'upload' | 'analysis' | 'unified_complete'>('upload');
+    const [step, setStep] = useState<DashboardStep>('upload');
     const [processingStage, setProcessingStage] = useState<string>('Initializing pipeline...');
     const [error, setError] = useState<string | null>(null);
+    const [pipelineProgress, setPipelineProgress] = useState<PipelineProgressEvent | null>(null);
+    const [pipelineTimings, setPipelineTimings] = useState<PipelineStageTiming[]>([]);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Tabular pipeline state
+    const [schemas, setSchemas] = useState<SchemaRegistry>(SCHEMAS);
+    const [targetSchemaId, setTargetSchemaId] = useState<string>(USER_SCHEMA.id);
+    const [isSchemaEditorOpen, setIsSchemaEditorOpen] = useState(false);
+    const [schemaDraft, setSchemaDraft] = useState<DomainSchema | null>(null);
+    const targetSchema: DomainSchema = schemas[targetSchemaId] ?? USER_SCHEMA;
+    const [profiles, setProfiles] = useState<ProfileRegistry>(VALIDATION_PROFILES);
+    const [profileId, setProfileId] = useState<string>(DEFAULT_PROFILE.id);
+    const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+    // Selected cleaning recipe; '' cleans every field by its semantic type
+    const [recipes, setRecipes] = useState<RecipeRegistry>({});
+    const [recipeId, setRecipeId] = useState('');
+    const [isRecipeEditorOpen, setIsRecipeEditorOpen] = useState(false);
+    const [isDuplicateReviewOpen, setIsDuplicateReviewOpen] = useState(false);
+    // Learned categorical synonyms of every schema; the target schema's maps apply to each cleaning run
+    const [valueMaps, setValueMaps] = useState<ValueMapRegistry>({});
+    const [isCategoryEditorOpen, setIsCategoryEditorOpen] = useState(false);
+    const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+    const [rawData, setRawData] = useState<Record<string, unknown>[]>([]);
+    // Leading source rows, compared row by row with the cleaned preview
+    const [rawPreview, setRawPreview] = useState<Record<string, unknown>[]>([]);
+    const [sourceFile, setSourceFile] = useState<File | null>(null);
+    const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+    const [mappingResult, setMappingResult] = useState<MappingResult | null>(null);
+    const [inferredSemantics, setInferredSemantics] = useState<SemanticMapping | undefined>(undefined);
+    const [confirmedMapping, setConfirmedMapping] = useState<Record<string, string>>({});
+    const [confirmedSemantics, setConfirmedSemantics] = useState<SemanticMapping>({});
+    const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+    const [geminiResult, setGeminiResult] = useState<GeminiAnalysisResult | null>(null);
+    // Other datasets validated together with this one for foreign keys
+    const [relatedDatasets, setRelatedDatasets] = useState<DatasetKeys[]>([]);
+    const [primaryKeys, setPrimaryKeys] = useState<DatasetKeys | null>(null);
+    const [integrityResults, setIntegrityResults] = useState<ReferentialIntegrityResult[] | null>(null);
+
+    useEffect(() => {
+        loadSchemas()
+            .then(setSchemas)
+            .catch(err => console.error('Failed to load saved schemas', err));
+        loadProfiles()
+            .then(setProfiles)
+            .catch(err => console.error('Failed to load saved validation profiles', err));
+        loadRecipes()
+            .then(setRecipes)
+            .catch(err => console.error('Failed to load saved cleaning recipes', err));
+        loadValueMaps()
+            .then(setValueMaps)
+            .catch(err => console.error('Failed to load saved value maps', err));
+    }, []);
+
+    const remapColumns = (schema: DomainSchema) => {
+        if (!analysisResult) return;
+        setMappingResult(generateMapping(analysisResult.columns.map(c => c.name), schema, analysisResult.columns));
+    };
+
+    // activeId is the target schema to keep selected, e.g. the new id of a renamed target
+    const refreshSchemas = async (activeId: string = targetSchemaId) => {
+        const registry = await loadSchemas();
+        setSchemas(registry);
+        // Edits to the active target schema should show up in the mapping step right away
+        if (registry[activeId]) {
+            setTargetSchemaId(activeId);
+            if (mappingResult) remapColumns(registry[activeId]);
+        } else {
+            setTargetSchemaId(USER_SCHEMA.id);
+            if (mappingResult) remapColumns(registry[USER_SCHEMA.id] ?? USER_SCHEMA);
+        }
+    };
+
+    const handleSchemaSave = async (schema: DomainSchema, previousId?: string) => {
+        await saveSchema(schema);
+        // A renamed schema is stored under its new id first, so a failed save never loses it;
+        // built-ins cannot be removed and keep their old entry
+        if (previousId && !isBuiltInSchema(previousId)) await deleteSchema(previousId);
+        await refreshSchemas(previousId === targetSchemaId ? schema.id : targetSchemaId);
+        // A reviewed draft was made for this dataset, so map against it straight away
+        if (schemaDraft) {
+            setSchemaDraft(null);
+            setTargetSchemaId(schema.id);
+            remapColumns(schema);
+        }
+    };
+
+    const handleDraftSchema = () => {
+        if (!analysisResult) return;
+        setSchemaDraft(inferDomainSchema(analysisResult, inferredSemantics, schemas));
+        setIsSchemaEditorOpen(true);
+    };
+
+    const closeSchemaEditor = () => {
+        setIsSchemaEditorOpen(false);
+        setSchemaDraft(null);
+    };
+
+    const handleSchemaDelete = async (id: string) => {
+        await deleteSchema(id);
+        await refreshSchemas();
+    };
+
+    const handleSchemaImport = async (imported: DomainSchema[]) => {
+        for (const schema of imported) await saveSchema(schema);
+        await refreshSchemas();
+    };
+
+    const handleTargetSchemaChange = (id: string) => {
+        if (!schemas[id]) return;
+        setTargetSchemaId(id);
+        remapColumns(schemas[id]);
+    };
+
+    const runPipeline = async (input: PipelineInput) => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
-    const handleUnifiedDataReady = (data: UnifiedRecord[]) => {
         setIsProcessing(true);
         setError(null);
-        setStep('analysis'); // Show loading state
+        setPipelineProgress(null);
+        setPipelineTimings([]);
+        setProcessingStage('Initializing pipeline...');
+        setStep('processing'); // Show loading state
 
-        // Simulate processing pipeline steps with stage updates
-        const executePipeline = async () => {
-            // Step 1: Ingestion & Extraction
-            setProcessingStage('Ingesting files & extracting raw text...');
-            await new Promise(resolve => setTimeout(resolve, 1500));
+        try {
+            const result = await runUnifiedPipeline(input, {
+                signal: controller.signal,
+                onProgress: (event) => {
+                    setPipelineProgress(event);
+                    setProcessingStage(event.message);
+                }
+            });
 
-            try {
-                // Step 2: Topic Linking & Enrichment
-                setProcessingStage('Analyzing context & linking topics...');
-                // 0. Topic Linking (Enrichment Layer)
-                const linkedData = linkRecordsByTopic(data);
-                await new Promise(resolve => setTimeout(resolve, 1200));
-
-                // Step 3: Cleaning & Normalization
-                setProcessingStage('Cleaning data & normalizing formats...');
-                // 1. Cleaning Layer
-                const { cleanedRecords, stats } = cleanUnifiedData(linkedData);
-                await new Promise(resolve => setTimeout(resolve, 1200));
-
-                const report: CleaningReport = {
-                    stats,
-                    cleaned_data: cleanedRecords,
-                    dropped_rows: []
-                };
-                setCleaningReport(report);
-
-                // Step 4: Storage Ops
-                setProcessingStage('Structuring output & validating schema...');
-                await new Promise(resolve => setTimeout(resolve, 1000));
-
-                // 2. Data Collection & Output Mock
-                // (In a real app, this would upload to S3 and insert into DB)
-                console.log("Storing raw files in Object Storage...");
-                console.log("Inserting structured records into Database...");
-
-                setStep('unified_complete');
-            } catch (err) {
+            const report: CleaningReport = {
+                stats: result.stats,
+                cleaned_data: result.records,
+                dropped_rows: []
+            };
+            setCleaningReport(report);
+            setPipelineTimings(result.timings);
+            setStep('unified_complete');
+        } catch (err) {
+            if (err instanceof PipelineCancelledError) {
+                setError('Pipeline cancelled.');
+            } else {
                 console.error(err);
-                setError("An error occurred during the data transformation process.");
-                setStep('upload');
-            } finally {
-                setIsProcessing(false);
+                setError(err instanceof Error ? err.message : "An error occurred during the data transformation process.");
             }
-        };
+            setStep('upload');
+        } finally {
+            abortControllerRef.current = null;
+            setIsProcessing(false);
+        }
+    };
+
+    const handleUnifiedFiles = (files: File[]) => {
+        runPipeline({ files });
+    };
+
+    const handleUnifiedDataReady = (data: UnifiedRecord[]) => {
+        runPipeline({ records: data });
+    };
 
-        executePipeline();
+    const handleCancelPipeline = () => {
+        abortControllerRef.current?.abort();
     };
 
     const handleRestart = () => {
         setCleaningReport(null);
+        setAnalysisResult(null);
+        setRawData([]);
+        setRawPreview([]);
+        setSourceFile(null);
+        setPendingUpload(null);
+        setMappingResult(null);
+        setInferredSemantics(undefined);
+        setConfirmedMapping({});
+        setConfirmedSemantics({});
+        setValidationReport(null);
+        setGeminiResult(null);
+        setRelatedDatasets([]);
+        setPrimaryKeys(null);
+        setIntegrityResults(null);
+        setPipelineProgress(null);
+        setPipelineTimings([]);
+        setError(null);
         setStep('upload');
     };
 
+    const handleModeChange = (next: PipelineMode) => {
+        handleRestart();
+        setMode(next);
+    };
+
+    // --- Tabular pipeline handlers ---
+
+    const handleTabularFile = async (file: File) => {
+        setError(null);
+        setPendingUpload(null);
+
+        try {
+            // Workbooks with several sheets ask which ones to ingest first
+            if (file.name.toLowerCase().endsWith('.xlsx')) {
+                const sheets = await listWorkbookSheets(file);
+                if (sheets.length > 1) {
+                    setPendingUpload({ file, sheets });
+                    return;
+                }
+            }
+
+            // JSON documents choose their records root and array handling instead of a header row
+            if (/\.(json|jsonl|ndjson)$/i.test(file.name)) {
+                setPendingUpload({ file, json: await previewJSON(file) });
+                return;
+            }
+
+            await openHeaderStep(file);
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Failed to read file.');
+        }
+    };
+
+    // Show the first raw rows so the detected header row can be confirmed or overridden
+    const openHeaderStep = async (file: File, sheets?: SheetSummary[], selectedSheets?: string[]) => {
+        const preview = await previewRawRows(file, selectedSheets?.[0]);
+        setPendingUpload({ file, sheets, selectedSheets, preview });
+    };
+
+    const handleSheetsConfirm = async (sheetNames: string[]) => {
+        if (!pendingUpload) return;
+        try {
+            await openHeaderStep(pendingUpload.file, pendingUpload.sheets, sheetNames);
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Failed to read workbook.');
+        }
+    };
+
+    const handleHeaderConfirm = async (layout: HeaderLayout) => {
+        if (!pendingUpload?.preview) return;
+        const { file, selectedSheets, preview } = pendingUpload;
+        const isDetected = layout.headerRow === preview.detected.headerRow && layout.headerDepth === preview.detected.headerDepth;
+        setPendingUpload(null);
+        // Untouched detection stays automatic, so each selected sheet detects its own header
+        await analyzeTabularFile(file, { sheets: selectedSheets, header: isDetected ? undefined : layout });
+    };
+
+    const handleJsonConfirm = async (options: JsonFlattenOptions) => {
+        if (!pendingUpload) return;
+        const { file } = pendingUpload;
+        setPendingUpload(null);
+        await analyzeTabularFile(file, { json: options });
+    };
+
+    const analyzeTabularFile = async (file: File, options: ProcessFileOptions = {}) => {
+        setIsProcessing(true);
+        setError(null);
+
+        try {
+            const analysis = await processFile(file, options);
+            setAnalysisResult(analysis);
+            setRawData(getLastProcessedData());
+            setRawPreview(getLastPreviewData());
+            setSourceFile(file);
+            // A new file invalidates everything downstream
+            setMappingResult(null);
+            setInferredSemantics(undefined);
+            setValidationReport(null);
+            setCleaningReport(null);
+            setGeminiResult(null);
+            setStep('analysis');
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Failed to process file.');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleContinueToMapping = () => {
+        if (!analysisResult) return;
+        if (!mappingResult) {
+            setMappingResult(generateMapping(analysisResult.columns.map(c => c.name), targetSchema, analysisResult.columns));
+            setInferredSemantics(inferSemanticMapping(analysisResult, rawData));
+        }
+        setStep('mapping');
+    };
+
+    // Large CSVs only have a sample in memory, so validation and cleaning re-stream the file
+    const streamedFile = analysisResult?.metadata.streamed ? sourceFile : null;
+
+    const handleMappingConfirm = async (finalMapping: Record<string, string>, semanticMapping: SemanticMapping) => {
+        setConfirmedMapping(finalMapping);
+        setConfirmedSemantics(semanticMapping);
+        // Related datasets stay loaded, but this dataset's keys depend on the mapping
+        setPrimaryKeys(null);
+        setIntegrityResults(null);
+        await runValidation(finalMapping, semanticMapping, profiles[profileId] ?? DEFAULT_PROFILE);
+    };
+
+    // The profile is kept on the report, so the run records how it was graded
+    const runValidation = async (finalMapping: Record<string, string>, semanticMapping: SemanticMapping, profile: ValidationProfile) => {
+        setCleaningReport(null);
+        setGeminiResult(null);
+
+        if (!streamedFile) {
+            setValidationReport(validateData(rawData, semanticMapping, { schema: targetSchema, fieldMapping: finalMapping, profile }));
+            setStep('validation');
+            return;
+        }
+
+        setIsProcessing(true);
+        setProcessingStage('Validating full dataset...');
+        try {
+            const report = await validateCSVStream(streamedFile, semanticMapping, {
+                schema: targetSchema,
+                fieldMapping: finalMapping,
+                profile,
+                header: analysisResult?.metadata.headerLayout,
+                dialect: analysisResult?.metadata.dialect,
+                onProgress: percent => setProcessingStage(`Validating full dataset... ${Math.round(percent)}%`)
+            });
+            setValidationReport(report);
+            setStep('validation');
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Validation failed.');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleProfileChange = async (id: string) => {
+        if (!profiles[id]) return;
+        setProfileId(id);
+        if (validationReport) await runValidation(confirmedMapping, confirmedSemantics, profiles[id]);
+    };
+
+    const handleProfileSave = async (profile: ValidationProfile, previousId?: string) => {
+        await saveProfile(profile);
+        // A renamed profile is stored under its new id before the old entry goes (built-ins stay)
+        if (previousId && !isBuiltInProfile(previousId)) await deleteProfile(previousId);
+        setProfiles(await loadProfiles());
+        setProfileId(profile.id);
+        if (validationReport) await runValidation(confirmedMapping, confirmedSemantics, profile);
+    };
+
+    const handleProfileDelete = async (id: string) => {
+        await deleteProfile(id);
+        const registry = await loadProfiles();
+        setProfiles(registry);
+        // A deleted custom profile falls back to the default; a reset built-in stays selected
+        const next = registry[profileId] ?? DEFAULT_PROFILE;
+        setProfileId(next.id);
+        if (validationReport && id === profileId) await runValidation(confirmedMapping, confirmedSemantics, next);
+    };
+
+    // Keys of the dataset being validated, collected once per confirmed mapping
+    const loadPrimaryKeys = async (): Promise<DatasetKeys> => {
+        if (primaryKeys) return primaryKeys;
+        const keys = await collectDatasetKeys(
+            sourceFile ? datasetName(sourceFile) : 'Dataset',
+            targetSchema,
+            confirmedMapping,
+            keyFieldsFor(targetSchema, schemas),
+            streamedFile ?? rawData,
+            { header: analysisResult?.metadata.headerLayout, dialect: analysisResult?.metadata.dialect }
+        );
+        setPrimaryKeys(keys);
+        return keys;
+    };
+
+    const runIntegrityCheck = async (related: DatasetKeys[]) => {
+        setRelatedDatasets(related);
+        if (related.length === 0) {
+            setIntegrityResults(null);
+            return;
+        }
+        setIntegrityResults(checkReferentialIntegrity([await loadPrimaryKeys(), ...related]));
+    };
+
+    const handleAddRelatedDataset = async (file: File, schemaId: string) => {
+        const schema = schemas[schemaId];
+        if (!schema) return;
+        const analysis = await processFile(file);
+        const mapping = generateMapping(analysis.columns.map(c => c.name), schema, analysis.columns);
+        const keys = await collectDatasetKeys(
+            datasetName(file),
+            schema,
+            mapping.mapped_columns,
+            keyFieldsFor(schema, schemas),
+            // Only a sample of large CSVs is kept after analysis, so stream their keys instead
+            analysis.metadata.streamed ? file : getLastProcessedData(),
+            { header: analysis.metadata.headerLayout, dialect: analysis.metadata.dialect }
+        );
+        await runIntegrityCheck([...relatedDatasets, keys]);
+    };
+
+    const combinedReport = validationReport && integrityResults
+        ? withReferentialIntegrity(validationReport, integrityResults)
+        : validationReport;
+
+    const handleProceedToCleaning = () => runCleaning(recipes[recipeId]);
+
+    const runCleaning = async (recipe?: CleaningRecipe, maps: ValueMapRegistry = valueMaps) => {
+        setGeminiResult(null);
+        const fieldValueMaps = valueMapsForSchema(maps, targetSchema.id);
+
+        if (!streamedFile) {
+            try {
+                setCleaningReport(cleanData(rawData, confirmedMapping, confirmedSemantics, targetSchema, recipe, fieldValueMaps));
+                setStep('cleaning');
+            } catch (err) {
+                console.error(err);
+                setError(err instanceof Error ? err.message : 'Cleaning failed.');
+            }
+            return;
+        }
+
+        setIsProcessing(true);
+        setProcessingStage('Cleaning full dataset...');
+        try {
+            const report = await cleanCSVStream(streamedFile, confirmedMapping, confirmedSemantics, targetSchema, {
+                header: analysisResult?.metadata.headerLayout,
+                dialect: analysisResult?.metadata.dialect,
+                recipe,
+                valueMaps: fieldValueMaps,
+                onProgress: percent => setProcessingStage(`Cleaning full dataset... ${Math.round(percent)}%`)
+            });
+            setCleaningReport(report);
+            setStep('cleaning');
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Cleaning failed.');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleRecipeChange = async (id: string) => {
+        setRecipeId(id);
+        if (cleaningReport) await runCleaning(recipes[id]);
+    };
+
+    const handleRecipeSave = async (recipe: CleaningRecipe, previousId?: string) => {
+        await saveRecipe(recipe);
+        // A renamed recipe is stored under its new id before the old entry goes
+        if (previousId) await deleteRecipe(previousId);
+        setRecipes(await loadRecipes());
+        setRecipeId(recipe.id);
+        if (cleaningReport) await runCleaning(recipe);
+    };
+
+    const handleRecipeDelete = async (id: string) => {
+        await deleteRecipe(id);
+        setRecipes(await loadRecipes());
+        if (id !== recipeId) return;
+        setRecipeId('');
+        if (cleaningReport) await runCleaning();
+    };
+
+    const handleRecipeImport = async (imported: CleaningRecipe[]) => {
+        await Promise.all(imported.map(saveRecipe));
+        setRecipes(await loadRecipes());
+    };
+
+    const handleValueMapsSave = async (maps: ValueMap[], removedIds: string[]) => {
+        await Promise.all([...maps.map(saveValueMap), ...removedIds.map(deleteValueMap)]);
+        const loaded = await loadValueMaps();
+        setValueMaps(loaded);
+        setIsCategoryEditorOpen(false);
+        if (cleaningReport) await runCleaning(recipes[recipeId], loaded);
+    };
+
+    // Categorical fields of the run with the spelling clusters found in their source columns,
+    // plus fields that already have a value map
+    const categoryFields = Object.entries(confirmedMapping)
+        .filter(([column, fieldId]) => confirmedSemantics[column] === 'categorical' || valueMaps[valueMapId(targetSchema.id, fieldId)])
+        .map(([column, fieldId]) => ({
+            fieldId,
+            label: targetSchema.fields.find(field => field.id === fieldId)?.label ?? fieldId,
+            clusters: validationReport?.category_clusters?.[column] ?? []
+        }));
+
+    // Replaces each accepted duplicate cluster in the cleaned rows with its merged golden record
+    const handleMergeDuplicates = (clusters: DuplicateCluster[]) => {
+        setIsDuplicateReviewOpen(false);
+        if (!cleaningReport) return;
+        const { stats, cleaned_data, imputed_cells } = cleaningReport;
+        const { rows, sourceRows } = mergeDuplicates(cleaned_data, clusters);
+        const removed = cleaned_data.length - rows.length;
+        const merged = new Set(clusters.flatMap(cluster => cluster.rows));
+        const newIndex = new Map(sourceRows.map((source, index) => [source, index]));
+
+        setGeminiResult(null);
+        setCleaningReport({
+            ...cleaningReport,
+            cleaned_data: rows,
+            stats: {
+                ...stats,
+                // Merged-away rows count as dropped, so input = cleaned + dropped still holds
+                records_after_cleaning: stats.records_after_cleaning - removed,
+                dropped_records: stats.dropped_records + removed,
+                fixes_applied: { ...stats.fixes_applied, fuzzy_duplicates_merged: (stats.fixes_applied.fuzzy_duplicates_merged || 0) + removed }
+            },
+            // Filled cells of merged rows no longer map to a single row
+            ...(imputed_cells && {
+                imputed_cells: imputed_cells.flatMap(cell => {
+                    const row = newIndex.get(cell.row);
+                    return row === undefined || merged.has(cell.row) ? [] : [{ ...cell, row }];
+                })
+            })
+        });
+    };
+
+    const handleGenerateInsights = async () => {
+        if (!cleaningReport) return;
+        setIsProcessing(true);
+        setProcessingStage('Running AI validation & quality assessment...');
+
+        try {
+            // Project raw rows onto target field names so raw and cleaned share columns
+            const projectedRaw = rawPreview.map(row => {
+                const projected: Record<string, unknown> = {};
+                Object.entries(confirmedMapping).forEach(([source, target]) => {
+                    projected[target] = row[source];
+                });
+                return projected;
+            });
+            const columns = Array.from(new Set(Object.values(confirmedMapping)));
+            const result = await runGeminiAnalysis(projectedRaw, cleaningReport.cleaned_data, columns, cleaningReport.imputed_cells);
+            setGeminiResult(result);
+            setStep('insights');
+        } catch (err) {
+            console.error(err);
+            setError('AI analysis failed. You can still review the ML impact.');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const canVisitTabularStep = (target: TabularStep): boolean => {
+        switch (target) {
+            case 'upload': return true;
+            case 'analysis': return analysisResult !== null;
+            case 'mapping': return mappingResult !== null;
+            case 'validation': return validationReport !== null;
+            case 'cleaning': return cleaningReport !== null;
+            case 'insights': return geminiResult !== null;
+            case 'ml_impact': return cleaningReport !== null;
+        }
+    };
+
+    const actionButtonClass = "px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 shadow-lg shadow-blue-500/30 transition-all hover:-translate-y-0.5 flex items-center gap-2";
+    const secondaryButtonClass = "px-4 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white backdrop-blur-sm transition-all";
+
     return (
-        <Layout showBackground={step !== 'unified_complete'}>
+        <Layout showBackground={step === 'upload' || step === 'processing'}>
             <div className="space-y-8">
+                {mode === 'tabular' && isTabularStep(step) && (
+                    <PipelineStepper
+                        steps={TABULAR_STEPS}
+                        current={step}
+                        canVisit={canVisitTabularStep}
+                        onNavigate={setStep}
+                        isBusy={isProcessing}
+                    />
+                )}
+
                 {step === 'upload' && (
                     <div className="max-w-4xl mx-auto">
                         <div className="text-center mb-8">
-                            <h2 className="text-2xl font-bold text-white">Unified Data Ingestion</h2>
-                            <p className="text-slate-400 mt-2">Upload any file type (PDF, Audio, Image, CSV, Text) or record live audio.</p>
+                            <h2 className="text-2xl font-bold text-white">
+                                {mode === 'unified' ? 'Unified Data Ingestion' : 'Tabular Dataset Ingestion'}
+                            </h2>
+                            <p className="text-slate-400 mt-2">
+                                {mode === 'unified'
+                                    ? 'Upload any file type (PDF, Audio, Image, CSV, Text) or record live audio.'
+                                    : 'Upload a CSV, XLSX or JSON dataset to analyze, map, validate and clean.'}
+                            </p>
+                        </div>
+
+                        <div className="flex p-1 mb-8 bg-black/20 rounded-xl border border-white/5 max-w-md mx-auto">
+                            <button
+                                onClick={() => handleModeChange('unified')}
+                                className={cn("flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-semibold transition-all duration-200",
+                                    mode === 'unified' ? "bg-white/10 text-white shadow-lg backdrop-blur-md ring-1 ring-white/5" : "text-slate-400 hover:text-white hover:bg-white/5")}
+                            >
+                                <Layers className="w-4 h-4" /> Unified Content
+                            </button>
+                            <button
+                                onClick={() => handleModeChange('tabular')}
+                                className={cn("flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-semibold transition-all duration-200",
+                                    mode === 'tabular' ? "bg-white/10 text-white shadow-lg backdrop-blur-md ring-1 ring-white/5" : "text-slate-400 hover:text-white hover:bg-white/5")}
+                            >
+                                <Table2 className="w-4 h-4" /> Tabular Dataset
+                            </button>
                         </div>
 
-                        {error && (
+                        {error && mode === 'unified' && (
                             <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3 text-red-400 animate-in fade-in slide-in-from-top-2">
                                 <AlertCircle className="w-5 h-5 flex-shrink-0" />
                                 <p>{error}</p>
                             </div>
                         )}
 
-                        <UnifiedInput onDataReady={handleUnifiedDataReady} onError={setError} />
+                        {mode === 'unified' ? (
+                            <UnifiedInput
+                                onFilesSelected={handleUnifiedFiles}
+                                onDataReady={handleUnifiedDataReady}
+                                onError={setError}
+                                isProcessing={isProcessing}
+                            />
+                        ) : (
+                            <div className="p-8 bg-black/40 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/10">
+                                {pendingUpload?.json ? (
+                                    <JsonStructureSelector
+                                        fileName={pendingUpload.file.name}
+                                        document={pendingUpload.json.document}
+                                        candidates={pendingUpload.json.candidates}
+                                        onConfirm={handleJsonConfirm}
+                                        onCancel={() => setPendingUpload(null)}
+                                    />
+                                ) : pendingUpload?.preview ? (
+                                    <HeaderRowSelector
+                                        fileName={pendingUpload.file.name}
+                                        sheetName={pendingUpload.selectedSheets?.[0]}
+                                        rows={pendingUpload.preview.rows}
+                                        detected={pendingUpload.preview.detected}
+                                        onConfirm={handleHeaderConfirm}
+                                        onCancel={() => setPendingUpload(null)}
+                                    />
+                                ) : pendingUpload?.sheets ? (
+                                    <SheetSelector
+                                        fileName={pendingUpload.file.name}
+                                        sheets={pendingUpload.sheets}
+                                        onConfirm={handleSheetsConfirm}
+                                        onCancel={() => setPendingUpload(null)}
+                                    />
+                                ) : (
+                                    <FileUpload onFileSelect={handleTabularFile} isProcessing={isProcessing} error={error} />
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
 
-                {/* Unified Loading State */}
-                {isProcessing && (
+                {/* Pipeline Loading State */}
+                {isProcessing && step !== 'upload' && (
                     <div className="flex flex-col items-center justify-center min-h-[500px] animate-in fade-in duration-500">
                         <div className="relative mb-8">
                             <div className="absolute inset-0 bg-indigo-500 rounded-full animate-ping opacity-20 blur-xl"></div>
@@ -108,15 +778,240 @@ export const Dashboard: React.FC = () => {
                         <p className="text-indigo-300 mt-2 font-mono text-sm uppercase tracking-wider animate-pulse">
                             {processingStage}
                         </p>
-                        <p className="text-slate-400 mt-3 max-w-md text-center text-lg leading-relaxed">
-                            Ingesting content, extracting text, cleaning data, and structuring records...
-                        </p>
-                        <div className="mt-8 w-64 h-2 bg-white/10 rounded-full overflow-hidden">
-                            <div className="h-full bg-indigo-500 rounded-full animate-progress origin-left"></div>
-                        </div>
+                        {pipelineProgress && (
+                            <>
+                                <div className="mt-8 w-80">
+                                    <div className="flex justify-between text-xs text-slate-400 mb-2 font-mono">
+                                        <span>{pipelineProgress.label}</span>
+                                        <span>{pipelineProgress.overall_percent}%</span>
+                                    </div>
+                                    <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                                        <div
+                                            className="h-full bg-indigo-500 rounded-full transition-all duration-300"
+                                            style={{ width: `${pipelineProgress.overall_percent}%` }}
+                                        ></div>
+                                    </div>
+                                </div>
+
+                                <ul className="mt-6 w-80 space-y-2">
+                                    {pipelineProgress.timings.map(timing => (
+                                        <li key={timing.stage} className="flex items-center gap-3 text-sm">
+                                            {timing.status === 'completed' ? (
+                                                <CheckCircle2 className="w-4 h-4 text-green-400 flex-shrink-0" />
+                                            ) : timing.status === 'running' ? (
+                                                <Loader2 className="w-4 h-4 text-indigo-400 animate-spin flex-shrink-0" />
+                                            ) : timing.status === 'failed' || timing.status === 'cancelled' ? (
+                                                <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                                            ) : (
+                                                <Circle className="w-4 h-4 text-slate-600 flex-shrink-0" />
+                                            )}
+                                            <span className={cn("flex-1", timing.status === 'pending' ? 'text-slate-500' : 'text-slate-300')}>
+                                                {timing.label}
+                                            </span>
+                                            {timing.status === 'completed' && (
+                                                <span className="text-xs font-mono text-slate-500">{formatDuration(timing.duration_ms)}</span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                {pipelineProgress.stage === 'ingestion' && pipelineProgress.file_progress && (
+                                    <div className="mt-6 w-96 max-h-60 overflow-y-auto space-y-3 bg-black/40 backdrop-blur-md rounded-xl border border-white/10 p-4">
+                                        {pipelineProgress.file_progress.map((file, idx) => (
+                                            <div key={`${file.file_name}-${idx}`}>
+                                                <div className="flex justify-between text-xs mb-1">
+                                                    <span className="text-slate-300 truncate max-w-[60%]" title={file.file_name}>{file.file_name}</span>
+                                                    <span className={cn(
+                                                        "font-mono",
+                                                        file.status === 'done' ? 'text-green-400' :
+                                                        file.status === 'failed' || file.status === 'cancelled' ? 'text-red-400' :
+                                                        'text-slate-500'
+                                                    )}>
+                                                        {file.status === 'running' ? `${Math.round(file.percent)}%` : file.status}
+                                                        {file.records > 0 && ` · ${file.records} rec`}
+                                                    </span>
+                                                </div>
+                                                <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                                                    <div
+                                                        className={cn("h-full rounded-full transition-all duration-300", file.status === 'failed' ? 'bg-red-500' : 'bg-indigo-400')}
+                                                        style={{ width: `${file.percent}%` }}
+                                                    ></div>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <button
+                                    onClick={handleCancelPipeline}
+                                    className="mt-8 px-4 py-2 text-sm font-medium text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg hover:bg-red-500/20 transition-colors"
+                                >
+                                    Cancel Pipeline
+                                </button>
+                            </>
+                        )}
                     </div>
                 )}
 
+                {/* Tabular Pipeline Stages */}
+                {mode === 'tabular' && !isProcessing && (
+                    <>
+                        {error && step !== 'upload' && (
+                            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3 text-red-400 animate-in fade-in slide-in-from-top-2">
+                                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                                <p>{error}</p>
+                            </div>
+                        )}
+
+                        {step === 'analysis' && analysisResult && (
+                            <div className="space-y-6">
+                                <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                                    <div className="lg:col-span-3">
+                                        <IngestionAnalysis data={analysisResult} />
+                                    </div>
+                                    <MetadataPanel data={analysisResult} />
+                                </div>
+                                <div className="flex items-center justify-between pt-4 border-t border-white/10">
+                                    <button onClick={() => setStep('upload')} className={secondaryButtonClass}>
+                                        Back to Upload
+                                    </button>
+                                    <button onClick={handleContinueToMapping} className={actionButtonClass}>
+                                        Continue to Mapping <ArrowRight className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 'mapping' && analysisResult && mappingResult && (
+                            <ColumnMapping
+                                columns={analysisResult.columns}
+                                initialMapping={mappingResult}
+                                initialSemanticMapping={inferredSemantics}
+                                targetSchema={targetSchema}
+                                schemas={Object.values(schemas)}
+                                onTargetSchemaChange={handleTargetSchemaChange}
+                                onManageSchemas={() => setIsSchemaEditorOpen(true)}
+                                onDraftSchema={handleDraftSchema}
+                                onConfirm={handleMappingConfirm}
+                                onBack={() => setStep('analysis')}
+                            />
+                        )}
+
+                        {step === 'validation' && combinedReport && (
+                            <ValidationReportUI
+                                report={combinedReport}
+                                integrity={{
+                                    datasets: relatedDatasets.map(d => ({ name: d.name, schemaId: d.schema.id, rowCount: d.rowCount })),
+                                    schemas: Object.values(schemas),
+                                    onAddDataset: handleAddRelatedDataset,
+                                    onRemoveDataset: index => runIntegrityCheck(relatedDatasets.filter((_, i) => i !== index)),
+                                    onRunCheck: () => runIntegrityCheck(relatedDatasets)
+                                }}
+                                profiles={Object.values(profiles)}
+                                onProfileChange={handleProfileChange}
+                                onManageProfiles={() => setIsProfileEditorOpen(true)}
+                                sourceName={sourceFile?.name}
+                                onProceed={handleProceedToCleaning}
+                                onBack={() => setStep('mapping')}
+                            />
+                        )}
+
+                        {step === 'cleaning' && cleaningReport && (
+                            <div className="space-y-6">
+                                <div className="flex items-center justify-end gap-2">
+                                    <span className="text-xs text-slate-400">Cleaning recipe</span>
+                                    <div className="flex items-center">
+                                        <select
+                                            value={recipeId}
+                                            onChange={(e) => handleRecipeChange(e.target.value)}
+                                            className="px-3 py-1.5 text-sm text-slate-300 bg-white/5 border border-white/10 rounded-l-lg focus:outline-none backdrop-blur-sm"
+                                        >
+                                            <option value="" className="bg-slate-900">Default (by semantic type)</option>
+                                            {Object.values(recipes).map(recipe => (
+                                                <option key={recipe.id} value={recipe.id} className="bg-slate-900">{recipe.name}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => setIsRecipeEditorOpen(true)}
+                                            title="Edit cleaning recipes"
+                                            className="px-2.5 py-1.5 text-slate-300 bg-white/5 border border-l-0 border-white/10 rounded-r-lg hover:bg-white/10 hover:text-white transition-colors backdrop-blur-sm"
+                                        >
+                                            <Wand2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <button
+                                        onClick={() => setIsDuplicateReviewOpen(true)}
+                                        disabled={cleaningReport.is_preview}
+                                        title={cleaningReport.is_preview ? 'Only available when the whole cleaned dataset is in memory' : 'Find and merge fuzzy duplicates'}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors backdrop-blur-sm disabled:opacity-50"
+                                    >
+                                        <Users className="w-4 h-4" /> Duplicates
+                                    </button>
+                                    <button
+                                        onClick={() => setIsCategoryEditorOpen(true)}
+                                        title="Standardize category spellings"
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors backdrop-blur-sm"
+                                    >
+                                        <Tags className="w-4 h-4" /> Categories
+                                    </button>
+                                </div>
+                                <div className="bg-white/5 backdrop-blur-md rounded-xl border border-white/10 shadow-sm p-6">
+                                    <CleaningReportUI report={cleaningReport} onRestart={handleRestart} />
+                                </div>
+                                <div className="flex items-center justify-between pt-4 border-t border-white/10">
+                                    <button onClick={() => setStep('validation')} className={secondaryButtonClass}>
+                                        Back to Validation
+                                    </button>
+                                    <div className="flex items-center gap-3">
+                                        <button onClick={() => setStep('ml_impact')} className={secondaryButtonClass}>
+                                            Skip to ML Impact
+                                        </button>
+                                        <button onClick={handleGenerateInsights} className={actionButtonClass}>
+                                            Generate AI Insights <ArrowRight className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 'insights' && geminiResult && (
+                            <div className="space-y-6">
+                                <GeminiInsightsUI result={geminiResult} />
+                                <div className="flex items-center justify-between pt-4 border-t border-white/10">
+                                    <button onClick={() => setStep('cleaning')} className={secondaryButtonClass}>
+                                        Back to Cleaning
+                                    </button>
+                                    <button onClick={() => setStep('ml_impact')} className={actionButtonClass}>
+                                        View ML Impact <ArrowRight className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 'ml_impact' && cleaningReport && (
+                            <div className="space-y-6">
+                                <MLImpactAnalysis
+                                    originalData={rawPreview}
+                                    cleanedData={cleaningReport.cleaned_data}
+                                    cleaningReport={cleaningReport}
+                                    validationReport={validationReport}
+                                />
+                                <div className="flex items-center justify-between pt-4 border-t border-white/10">
+                                    <button
+                                        onClick={() => setStep(geminiResult ? 'insights' : 'cleaning')}
+                                        className={secondaryButtonClass}
+                                    >
+                                        {geminiResult ? 'Back to AI Insights' : 'Back to Cleaning'}
+                                    </button>
+                                    <button onClick={handleRestart} className={actionButtonClass}>
+                                        Start New Ingestion
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )}
+
                 {step === 'unified_complete' && cleaningReport && (
                     <div className="space-y-8 pb-12 animate-in fade-in slide-in-from-bottom-8 duration-700">
 
@@ -133,52 +1028,24 @@ export const Dashboard: React.FC = () => {
                             </button>
                         </div>
 
-                        {/* System Status / Storage Layer Visualization */}
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                            <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 shadow-sm hover:shadow-md transition-shadow group relative overflow-hidden">
-                                <div className="absolute top-0 right-0 w-32 h-32 bg-green-500/10 rounded-full -mr-16 -mt-16 group-hover:scale-110 transition-transform duration-500" />
-                                <div className="relative flex items-center gap-4">
-                                    <div className="p-4 bg-green-500/20 text-green-400 rounded-xl group-hover:scale-105 transition-transform duration-300">
-                                        <HardDrive className="w-6 h-6" />
+                        {/* Pipeline Stage Timings */}
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                            {pipelineTimings.map(timing => (
+                                <div key={timing.stage} className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 shadow-sm">
+                                    <div className="flex items-center gap-2 text-sm text-green-400 font-medium">
+                                        <CheckCircle2 className="w-4 h-4" /> {timing.label}
                                     </div>
-                                    <div>
-                                        <h4 className="font-bold text-white text-lg">Object Storage</h4>
-                                        <p className="text-sm text-green-400 font-medium flex items-center gap-1.5 mt-1">
-                                            <CheckCircle2 className="w-4 h-4" /> Raw Files Saved
-                                        </p>
+                                    <div className="mt-4 flex items-end justify-between">
+                                        <div>
+                                            <p className="text-xs text-slate-400 uppercase tracking-wider">Records</p>
+                                            <p className="text-lg font-bold text-white">{timing.records_in} → {timing.records_out}</p>
+                                        </div>
+                                        <div className="flex items-center gap-1.5 text-sm font-mono text-slate-400">
+                                            <Timer className="w-4 h-4" /> {formatDuration(timing.duration_ms)}
+                                        </div>
                                     </div>
                                 </div>
-                            </div>
-
-                            <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 shadow-sm hover:shadow-md transition-shadow group relative overflow-hidden">
-                                <div className="absolute top-0 right-0 w-32 h-32 bg-blue-500/10 rounded-full -mr-16 -mt-16 group-hover:scale-110 transition-transform duration-500" />
-                                <div className="relative flex items-center gap-4">
-                                    <div className="p-4 bg-blue-500/20 text-blue-400 rounded-xl group-hover:scale-105 transition-transform duration-300">
-                                        <Database className="w-6 h-6" />
-                                    </div>
-                                    <div>
-                                        <h4 className="font-bold text-white text-lg">Vector Database</h4>
-                                        <p className="text-sm text-blue-400 font-medium flex items-center gap-1.5 mt-1">
-                                            <CheckCircle2 className="w-4 h-4" /> Embeddings Ready
-                                        </p>
-                                    </div>
-                                </div>
-                            </div>
-
-                            <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 shadow-sm hover:shadow-md transition-shadow group relative overflow-hidden">
-                                <div className="absolute top-0 right-0 w-32 h-32 bg-purple-500/10 rounded-full -mr-16 -mt-16 group-hover:scale-110 transition-transform duration-500" />
-                                <div className="relative flex items-center gap-4">
-                                    <div className="p-4 bg-purple-500/20 text-purple-400 rounded-xl group-hover:scale-105 transition-transform duration-300">
-                                        <FileJson className="w-6 h-6" />
-                                    </div>
-                                    <div>
-                                        <h4 className="font-bold text-white text-lg">Structured Data</h4>
-                                        <p className="text-sm text-purple-400 font-medium flex items-center gap-1.5 mt-1">
-                                            <CheckCircle2 className="w-4 h-4" /> JSON Schema Valid
-                                        </p>
-                                    </div>
-                                </div>
-                            </div>
+                            ))}
                         </div>
 
                         {/* Cleaning Report */}
@@ -191,6 +1058,61 @@ export const Dashboard: React.FC = () => {
                     </div>
                 )}
             </div>
+
+            {isSchemaEditorOpen && (
+                <SchemaEditor
+                    schemas={schemas}
+                    initialSchemaId={targetSchemaId}
+                    initialDraft={schemaDraft ?? undefined}
+                    onSave={handleSchemaSave}
+                    onDelete={handleSchemaDelete}
+                    onImport={handleSchemaImport}
+                    onClose={closeSchemaEditor}
+                />
+            )}
+            {isProfileEditorOpen && (
+                <ValidationProfileEditor
+                    profiles={profiles}
+                    initialProfileId={profileId}
+                    columns={Object.keys(confirmedSemantics).map(column => ({ column, fieldId: confirmedMapping[column] }))}
+                    ruleIds={targetSchema.rules?.map(rule => rule.id)}
+                    onSave={handleProfileSave}
+                    onDelete={handleProfileDelete}
+                    onClose={() => setIsProfileEditorOpen(false)}
+                />
+            )}
+            {isRecipeEditorOpen && (
+                <CleaningRecipeEditor
+                    recipes={recipes}
+                    initialRecipeId={recipeId}
+                    fields={Array.from(new Set(Object.values(confirmedMapping)))}
+                    onSave={handleRecipeSave}
+                    onDelete={handleRecipeDelete}
+                    onImport={handleRecipeImport}
+                    onClose={() => setIsRecipeEditorOpen(false)}
+                />
+            )}
+            {isDuplicateReviewOpen && cleaningReport && (
+                <DuplicateReview
+                    rows={cleaningReport.cleaned_data}
+                    semantics={Object.fromEntries(
+                        Object.entries(confirmedMapping)
+                            .filter(([column]) => confirmedSemantics[column])
+                            .map(([column, field]): [string, SemanticType] => [field, confirmedSemantics[column]])
+                    )}
+                    onMerge={handleMergeDuplicates}
+                    onClose={() => setIsDuplicateReviewOpen(false)}
+                />
+            )}
+            {isCategoryEditorOpen && (
+                <CategoryStandardizer
+                    schemaId={targetSchema.id}
+                    fields={categoryFields}
+                    valueMaps={valueMapsForSchema(valueMaps, targetSchema.id)}
+                    onSave={handleValueMapsSave}
+                    onClose={() => setIsCategoryEditorOpen(false)}
+                />
+            )}
         </Layout>
     );
 };
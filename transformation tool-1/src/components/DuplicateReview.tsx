@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { Merge, Plus, Search, Users, X } from 'lucide-react';
+import type { DuplicateCluster, DuplicateConfig, MatchComparator, SemanticType, SurvivorshipRule } from '../types';
+import { MATCH_COMPARATORS, SURVIVORSHIP_RULES, buildGoldenRecord, defaultDuplicateConfig, findDuplicates } from '../lib/duplicates';
+import { cn } from '../lib/utils';
+
+interface DuplicateReviewProps {
+  rows: Record<string, unknown>[];
+  // Semantic type per target field, used for the default match fields
+  semantics: Record<string, SemanticType>;
+  onMerge: (clusters: DuplicateCluster[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full rounded-lg bg-black/20 border border-white/10 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-600";
+
+const CLUSTERS_PER_PAGE = 25;
+
+const formatCell = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ rows, semantics, onMerge, onClose }) => {
+  const [config, setConfig] = useState<DuplicateConfig>(() => defaultDuplicateConfig(semantics, rows));
+  const [clusters, setClusters] = useState<DuplicateCluster[]>(() => findDuplicates(rows, config));
+  // Clusters the reviewer chose not to merge, by cluster id
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [visible, setVisible] = useState(CLUSTERS_PER_PAGE);
+
+  const fields = useMemo(() => Array.from(new Set(rows.slice(0, 100).flatMap(row => Object.keys(row)))), [rows]);
+
+  // Golden records follow the survivorship settings without re-running the match
+  const reviewed = useMemo(
+    () => clusters.map(cluster => ({ ...cluster, golden: buildGoldenRecord(cluster.rows.map(i => rows[i]), config) })),
+    [clusters, rows, config]
+  );
+  const accepted = reviewed.filter(cluster => !rejected.has(cluster.id));
+  const mergedRows = accepted.reduce((sum, cluster) => sum + cluster.rows.length - 1, 0);
+
+  const updateMatchField = (index: number, patch: Partial<DuplicateConfig['fields'][number]>) => {
+    setConfig(prev => ({ ...prev, fields: prev.fields.map((f, i) => (i === index ? { ...f, ...patch } : f)) }));
+  };
+
+  const setSurvivorship = (field: string, rule: SurvivorshipRule) => {
+    setConfig(prev => ({ ...prev, survivorship: { ...prev.survivorship, [field]: rule } }));
+  };
+
+  const runMatch = () => {
+    setClusters(findDuplicates(rows, config));
+    setRejected(new Set());
+    setVisible(CLUSTERS_PER_PAGE);
+  };
+
+  const toggleCluster = (id: number) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const unusedFields = fields.filter(field => !config.fields.some(f => f.field === field));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-slate-950/95 rounded-xl border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Users className="w-5 h-5 text-blue-400" />
+            Duplicate Review
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-80 shrink-0 border-r border-white/10 p-4 space-y-5 overflow-y-auto">
+            <section className="space-y-2">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Match fields</h4>
+              {config.fields.map((matchField, idx) => (
+                <div key={matchField.field} className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 text-sm font-mono text-slate-200 truncate" title={matchField.field}>{matchField.field}</span>
+                  <select
+                    className={cn(inputClass, "w-28")}
+                    value={matchField.comparator}
+                    onChange={(e) => updateMatchField(idx, { comparator: e.target.value as MatchComparator })}
+                  >
+                    {MATCH_COMPARATORS.map(c => (
+                      <option key={c.id} value={c.id} className="bg-slate-900">{c.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    title="Weight"
+                    className={cn(inputClass, "w-14")}
+                    value={matchField.weight}
+                    onChange={(e) => updateMatchField(idx, { weight: Number(e.target.value) })}
+                  />
+                  <button
+                    onClick={() => setConfig(prev => ({ ...prev, fields: prev.fields.filter((_, i) => i !== idx) }))}
+                    className="p-1 text-slate-500 hover:text-red-400"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {unusedFields.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <select
+                    className={inputClass}
+                    value=""
+                    onChange={(e) => e.target.value && setConfig(prev => ({
+                      ...prev,
+                      fields: [...prev.fields, { field: e.target.value, comparator: 'jaro_winkler', weight: 1 }]
+                    }))}
+                  >
+                    <option value="" className="bg-slate-900">Add match field...</option>
+                    {unusedFields.map(field => (
+                      <option key={field} value={field} className="bg-slate-900">{field}</option>
+                    ))}
+                  </select>
+                  <Plus className="w-4 h-4 text-slate-500 shrink-0" />
+                </div>
+              )}
+              <label className="block text-xs text-slate-400 pt-1">
+                Match threshold: {Math.round(config.threshold * 100)}%
+                <input
+                  type="range"
+                  min={50}
+                  max={100}
+                  value={Math.round(config.threshold * 100)}
+                  onChange={(e) => setConfig(prev => ({ ...prev, threshold: Number(e.target.value) / 100 }))}
+                  className="w-full mt-1"
+                />
+              </label>
+              <button
+                onClick={runMatch}
+                disabled={config.fields.length === 0}
+                className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-white bg-white/10 border border-white/10 rounded-lg hover:bg-white/20 disabled:opacity-50"
+              >
+                <Search className="w-4 h-4" /> Find duplicates
+              </button>
+            </section>
+
+            <section className="space-y-2">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Survivorship</h4>
+              <p className="text-xs text-slate-500">Which value each field of a merged record keeps.</p>
+              <select
+                className={inputClass}
+                value={config.orderBy ?? ''}
+                title="Orders rows for the Latest row rule"
+                onChange={(e) => setConfig(prev => ({ ...prev, orderBy: e.target.value || undefined }))}
+              >
+                <option value="" className="bg-slate-900">Latest by row order</option>
+                {fields.map(field => (
+                  <option key={field} value={field} className="bg-slate-900">Latest by {field}</option>
+                ))}
+              </select>
+              {fields.map(field => (
+                <div key={field} className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 text-sm font-mono text-slate-300 truncate" title={field}>{field}</span>
+                  <select
+                    className={cn(inputClass, "w-40")}
+                    value={config.survivorship[field] ?? 'most_complete'}
+                    onChange={(e) => setSurvivorship(field, e.target.value as SurvivorshipRule)}
+                  >
+                    {SURVIVORSHIP_RULES.map(rule => (
+                      <option key={rule.id} value={rule.id} className="bg-slate-900">{rule.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </section>
+          </aside>
+
+          <div className="flex-1 min-w-0 p-6 space-y-4 overflow-y-auto">
+            {reviewed.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-12">No duplicate clusters at this threshold.</p>
+            ) : (
+              <>
+                <p className="text-sm text-slate-400">
+                  {reviewed.length} cluster{reviewed.length === 1 ? '' : 's'} covering {reviewed.reduce((sum, c) => sum + c.rows.length, 0)} rows.
+                  Untick a cluster to keep its rows apart.
+                </p>
+                {reviewed.slice(0, visible).map(cluster => {
+                  const isAccepted = !rejected.has(cluster.id);
+                  return (
+                    <div
+                      key={cluster.id}
+                      className={cn("rounded-lg border overflow-hidden", isAccepted ? "border-blue-500/30" : "border-white/10 opacity-60")}
+                    >
+                      <label className="flex items-center gap-3 px-4 py-2 bg-white/5 text-sm text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={isAccepted} onChange={() => toggleCluster(cluster.id)} />
+                        <span className="font-medium text-white">{cluster.rows.length} rows</span>
+                        <span className="text-xs text-slate-400">min. similarity {Math.round(cluster.score * 100)}%</span>
+                      </label>
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-slate-500">
+                              <th className="px-3 py-1.5 font-medium">Row</th>
+                              {fields.map(field => <th key={field} className="px-3 py-1.5 font-medium font-mono">{field}</th>)}
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-white/5">
+                            {cluster.rows.map(index => (
+                              <tr key={index} className="text-slate-300">
+                                <td className="px-3 py-1.5 font-mono text-slate-500">{index + 1}</td>
+                                {fields.map(field => <td key={field} className="px-3 py-1.5 whitespace-nowrap">{formatCell(rows[index][field])}</td>)}
+                              </tr>
+                            ))}
+                            <tr className="bg-blue-500/10 text-blue-100">
+                              <td className="px-3 py-1.5 font-semibold">Merged</td>
+                              {fields.map(field => <td key={field} className="px-3 py-1.5 whitespace-nowrap">{formatCell(cluster.golden[field])}</td>)}
+                            </tr>
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  );
+                })}
+                {visible < reviewed.length && (
+                  <button
+                    onClick={() => setVisible(v => v + CLUSTERS_PER_PAGE)}
+                    className="w-full py-2 text-sm text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+                  >
+                    Show more ({reviewed.length - visible} remaining)
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-white/10">
+          <span className="text-sm text-slate-400">
+            {accepted.length} of {reviewed.length} clusters selected, {mergedRows} rows will be merged away
+          </span>
+          <button
+            onClick={() => onMerge(accepted)}
+            disabled={accepted.length === 0}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+          >
+            <Merge className="w-4 h-4" /> Merge selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -35,7 +35,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
       'text/json' // sometimes json is text/json
     ];
     // Also check extensions because MIME types can be tricky (especially csv on Windows)
-    const validExtensions = ['.csv', '.xlsx', '.json'];
+    const validExtensions = ['.csv', '.xlsx', '.json', '.jsonl', '.ndjson'];
     const extension = '.' + file.name.split('.').pop()?.toLowerCase();
     
     return validTypes.includes(file.type) || validExtensions.includes(extension);
@@ -112,7 +112,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
           type="file"
           ref={fileInputRef}
           className="hidden"
-          accept=".csv,.xlsx,.json"
+          accept=".csv,.xlsx,.json,.jsonl,.ndjson"
           onChange={handleFileInput}
           disabled={isProcessing}
         />
@@ -159,7 +159,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
             <p className="text-sm text-slate-400 max-w-xs mx-auto mb-6">
               Drag and drop your file here, or click to browse.
               <br />
-              <span className="text-xs mt-1 block text-slate-500">Supports CSV, XLSX, JSON</span>
+              <span className="text-xs mt-1 block text-slate-500">Supports CSV, XLSX, JSON, JSON Lines</span>
             </p>
           </>
         )}
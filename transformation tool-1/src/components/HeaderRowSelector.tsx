@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Rows3, RotateCcw, Sparkles } from 'lucide-react';
+import type { HeaderLayout } from '../types';
+import { flattenHeaderRows } from '../lib/header-detection';
+import { cn } from '../lib/utils';
+
+interface HeaderRowSelectorProps {
+  fileName: string;
+  sheetName?: string;
+  rows: unknown[][];
+  detected: HeaderLayout;
+  onConfirm: (layout: HeaderLayout) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 15;
+const PREVIEW_COLUMNS = 10;
+
+export const HeaderRowSelector: React.FC<HeaderRowSelectorProps> = ({ fileName, sheetName, rows, detected, onConfirm, onCancel }) => {
+  const [layout, setLayout] = useState<HeaderLayout>(detected);
+
+  const visibleRows = rows.slice(0, PREVIEW_ROWS);
+  const columnCount = Math.min(PREVIEW_COLUMNS, Math.max(0, ...visibleRows.map(r => r.length)));
+  const isDetected = layout.headerRow === detected.headerRow && layout.headerDepth === detected.headerDepth;
+
+  const columnNames = useMemo(
+    () => flattenHeaderRows(rows.slice(layout.headerRow, layout.headerRow + layout.headerDepth)),
+    [rows, layout]
+  );
+
+  const rowRole = (idx: number) => {
+    if (idx < layout.headerRow) return 'skipped';
+    if (idx < layout.headerRow + layout.headerDepth) return 'header';
+    return 'data';
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Rows3 className="w-5 h-5 text-blue-400" />
+            Confirm Header Row
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">
+            <span className="font-mono text-slate-300">{fileName}</span>
+            {sheetName && <> &middot; {sheetName}</>}. Click the row that holds the column names.
+            Rows above it are skipped.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-500 mr-1">Header rows</span>
+          {[1, 2].map(depth => (
+            <button
+              key={depth}
+              onClick={() => setLayout(prev => ({ ...prev, headerDepth: depth }))}
+              className={cn(
+                "w-8 h-8 text-sm font-semibold rounded-lg border transition-colors",
+                layout.headerDepth === depth
+                  ? "bg-blue-600 text-white border-blue-500"
+                  : "bg-white/5 text-slate-300 border-white/10 hover:bg-white/10"
+              )}
+            >
+              {depth}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-white/10 max-h-96">
+        <table className="w-full text-xs">
+          <tbody>
+            {visibleRows.map((row, idx) => {
+              const role = rowRole(idx);
+              return (
+                <tr
+                  key={idx}
+                  onClick={() => setLayout(prev => ({ ...prev, headerRow: idx }))}
+                  className={cn(
+                    "cursor-pointer border-b border-white/5 transition-colors",
+                    role === 'header' && "bg-blue-500/20 text-blue-100 font-semibold",
+                    role === 'skipped' && "text-slate-600 line-through",
+                    role === 'data' && "text-slate-300 hover:bg-white/5"
+                  )}
+                >
+                  <td className="px-3 py-2 font-mono text-slate-500 text-right w-10 border-r border-white/10">{idx + 1}</td>
+                  {Array.from({ length: columnCount }, (_, col) => (
+                    <td key={col} className="px-3 py-2 whitespace-nowrap max-w-[160px] truncate">
+                      {String(row[col] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6">
+        <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Resulting columns</p>
+        <div className="flex flex-wrap gap-2">
+          {columnNames.map(name => (
+            <span key={name} className="px-2 py-1 text-xs font-mono text-slate-200 bg-white/5 border border-white/10 rounded">
+              {name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between pt-6 mt-6 border-t border-white/10">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-colors"
+        >
+          Choose another file
+        </button>
+        <div className="flex items-center gap-3">
+          {isDetected ? (
+            <span className="flex items-center gap-1.5 text-xs text-green-400">
+              <Sparkles className="w-3.5 h-3.5" /> Auto-detected
+            </span>
+          ) : (
+            <button
+              onClick={() => setLayout(detected)}
+              className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> Reset to detected
+            </button>
+          )}
+          <button
+            onClick={() => onConfirm(layout)}
+            className="px-6 py-2.5 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors"
+          >
+            Analyze Data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
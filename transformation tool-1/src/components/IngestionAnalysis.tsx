@@ -1,5 +1,7 @@
 import React from 'react';
 import type { AnalysisResult } from '../types';
+import { describeFormat } from '../lib/type-inference';
+import { ColumnProfileCard } from './ColumnProfileCard';
 
 interface IngestionAnalysisProps {
   data: AnalysisResult;
@@ -64,6 +66,21 @@ export const IngestionAnalysis: React.FC<IngestionAnalysisProps> = ({ data }) =>
                     }`}>
                       {col.type}
                     </span>
+                    {col.inference && (
+                      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                        <span
+                          className={`text-xs font-mono ${col.inference.confidence < 0.9 ? 'text-orange-400' : 'text-slate-500'}`}
+                          title={Object.entries(col.inference.votes).filter(([, n]) => n > 0).map(([t, n]) => `${t}: ${n}`).join(', ')}
+                        >
+                          {(col.inference.confidence * 100).toFixed(0)}%
+                        </span>
+                        {describeFormat(col.inference.format).map(label => (
+                          <span key={label} className="px-1.5 py-0.5 text-[10px] font-mono text-slate-300 bg-white/5 border border-white/10 rounded">
+                            {label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-3">
                     <div className="flex items-center gap-2">
@@ -87,6 +104,17 @@ export const IngestionAnalysis: React.FC<IngestionAnalysisProps> = ({ data }) =>
           </table>
         </div>
       </div>
+
+      {data.columns.some(col => col.profile) && (
+        <div>
+          <h3 className="text-sm font-semibold text-white mb-4">Column Profiles</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {data.columns.map(col => (
+              <ColumnProfileCard key={col.name} column={col} />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronDown, ChevronLeft, ChevronRight, Download, Search } from 'lucide-react';
+import type { IssueFilter, IssueGroupKey, IssueQuery, IssueSortKey, SeverityLevel, ValidationIssue, ValidationIssueLog } from '../types';
+import { cn, downloadBlob } from '../lib/utils';
+
+interface IssueLogProps {
+  store: ValidationIssueLog;
+  // Column picked in the field breakdown table; kept in sync with the column filter
+  selectedField: string | null;
+  onSelectField: (field: string | null) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ISSUE_TYPES: ValidationIssue['type'][] = ['type', 'format', 'range', 'required', 'duplicate', 'consistency', 'encoding', 'other'];
+
+const GROUPINGS: { id: IssueGroupKey | 'none'; label: string }[] = [
+  { id: 'none', label: 'Individual issues' },
+  { id: 'column', label: 'By column' },
+  { id: 'check', label: 'By check' },
+  { id: 'message', label: 'By message' }
+];
+
+const SEVERITY_TEXT: Record<SeverityLevel, string> = {
+  critical: 'text-red-400',
+  warning: 'text-orange-400',
+  info: 'text-slate-400'
+};
+
+const selectClass = "px-2 py-1.5 text-xs text-slate-300 bg-white/5 border border-white/10 rounded-lg focus:outline-none";
+
+export const IssueLog: React.FC<IssueLogProps> = ({ store, selectedField, onSelectField }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [severity, setSeverity] = useState<SeverityLevel | ''>('');
+  const [type, setType] = useState<ValidationIssue['type'] | ''>('');
+  const [check, setCheck] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<NonNullable<IssueQuery['sort']>>({ key: 'row', direction: 'asc' });
+  const [grouping, setGrouping] = useState<IssueGroupKey | 'none'>('none');
+  const [paging, setPaging] = useState({ view: '', page: 0 });
+
+  const filter: IssueFilter = {
+    ...(selectedField && { column: selectedField }),
+    ...(severity && { severity }),
+    ...(type && { type }),
+    ...(check && { check }),
+    ...(search.trim() && { search })
+  };
+  // The page belongs to one filter and sort; any other view starts back on the first page
+  const view = JSON.stringify([filter, sort, store.size]);
+  const page = paging.view === view ? paging.page : 0;
+  const setPage = (next: number) => setPaging({ view, page: next });
+
+  const { total, issues } = store.query({ filter, sort, offset: page * PAGE_SIZE, limit: PAGE_SIZE });
+  const groups = grouping === 'none' ? [] : store.aggregate(grouping, filter);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const toggleSort = (key: IssueSortKey) => {
+    setSort(prev => ({ key, direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  // Clicking a group narrows the list to it
+  const openGroup = (key: string) => {
+    if (grouping === 'column') onSelectField(key);
+    else if (grouping === 'check') setCheck(key);
+    else setSearch(key);
+    setGrouping('none');
+  };
+
+  const sortHeader = (key: IssueSortKey, label: string, className?: string) => (
+    <th className={cn("px-6 py-2 font-medium", className)}>
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-white">
+        {label}
+        {sort.key === key && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md rounded-xl shadow-sm border border-white/10 overflow-hidden">
+      <div
+        className="px-6 py-4 border-b border-white/10 bg-black/20 flex justify-between items-center cursor-pointer"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-orange-400" />
+          <h3 className="text-sm font-semibold text-white">
+            {selectedField ? `Issues for "${selectedField}"` : "Issue Log"}
+          </h3>
+          <span className="px-2 py-0.5 bg-white/10 text-slate-300 text-xs rounded-full font-medium">
+            {total.toLocaleString()} {total === store.size ? 'issues' : `of ${store.size.toLocaleString()} issues`}
+          </span>
+        </div>
+        {isOpen ? <ChevronDown className="w-5 h-5 text-slate-400" /> : <ChevronRight className="w-5 h-5 text-slate-400" />}
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="px-6 py-3 border-b border-white/10 flex flex-wrap items-center gap-2">
+            <div className="relative">
+              <Search className="w-3.5 h-3.5 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search message or value"
+                className={cn(selectClass, "pl-7 w-56 placeholder:text-slate-600")}
+              />
+            </div>
+            <select value={selectedField ?? ''} onChange={(e) => onSelectField(e.target.value || null)} className={selectClass}>
+              <option value="" className="bg-slate-900">All columns</option>
+              {store.distinct('column').map(column => (
+                <option key={column} value={column} className="bg-slate-900">{column}</option>
+              ))}
+            </select>
+            <select value={severity} onChange={(e) => setSeverity(e.target.value as SeverityLevel | '')} className={selectClass}>
+              <option value="" className="bg-slate-900">All severities</option>
+              <option value="critical" className="bg-slate-900">critical</option>
+              <option value="warning" className="bg-slate-900">warning</option>
+              <option value="info" className="bg-slate-900">info</option>
+            </select>
+            <select value={type} onChange={(e) => setType(e.target.value as ValidationIssue['type'] | '')} className={selectClass}>
+              <option value="" className="bg-slate-900">All types</option>
+              {ISSUE_TYPES.map(t => (
+                <option key={t} value={t} className="bg-slate-900">{t}</option>
+              ))}
+            </select>
+            <select value={check} onChange={(e) => setCheck(e.target.value)} className={selectClass}>
+              <option value="" className="bg-slate-900">All checks</option>
+              {store.distinct('check').map(c => (
+                <option key={c} value={c} className="bg-slate-900">{c}</option>
+              ))}
+            </select>
+            <select value={grouping} onChange={(e) => setGrouping(e.target.value as IssueGroupKey | 'none')} className={selectClass}>
+              {GROUPINGS.map(g => (
+                <option key={g.id} value={g.id} className="bg-slate-900">{g.label}</option>
+              ))}
+            </select>
+            <div className="ml-auto flex items-center gap-1">
+              <span className="text-xs text-slate-500 mr-1">Export {total === store.size ? 'all' : 'filtered'}:</span>
+              {(['csv', 'json'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => downloadBlob(store.export(format, filter), `validation_issues.${format}`)}
+                  disabled={total === 0}
+                  className="flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 disabled:opacity-50"
+                >
+                  <Download className="w-3.5 h-3.5" /> {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {grouping !== 'none' ? (
+            <div className="max-h-96 overflow-y-auto custom-scrollbar">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-black/40 text-slate-400 border-b border-white/10 sticky top-0 z-10 backdrop-blur-md">
+                  <tr>
+                    <th className="px-6 py-2 font-medium capitalize">{grouping}</th>
+                    <th className="px-6 py-2 font-medium w-28">Issues</th>
+                    <th className="px-6 py-2 font-medium w-28">Critical</th>
+                    <th className="px-6 py-2 font-medium w-28">Warning</th>
+                    <th className="px-6 py-2 font-medium w-28">Info</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {groups.map(group => (
+                    <tr key={group.key} onClick={() => openGroup(group.key)} className="hover:bg-white/5 cursor-pointer transition-colors">
+                      <td className="px-6 py-2 text-slate-300 text-xs">{group.key || <span className="italic text-slate-500">none</span>}</td>
+                      <td className="px-6 py-2 text-slate-200 font-medium">{group.count.toLocaleString()}</td>
+                      <td className="px-6 py-2 text-red-400">{group.critical > 0 ? group.critical.toLocaleString() : <span className="text-slate-600">-</span>}</td>
+                      <td className="px-6 py-2 text-orange-400">{group.warning > 0 ? group.warning.toLocaleString() : <span className="text-slate-600">-</span>}</td>
+                      <td className="px-6 py-2 text-slate-400">{group.info > 0 ? group.info.toLocaleString() : <span className="text-slate-600">-</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <>
+              <div className="max-h-96 overflow-y-auto custom-scrollbar">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-black/40 text-slate-400 border-b border-white/10 sticky top-0 z-10 backdrop-blur-md">
+                    <tr>
+                      {sortHeader('row', 'Row', 'w-20')}
+                      {sortHeader('column', 'Column', 'w-48')}
+                      <th className="px-6 py-2 font-medium w-48">Value</th>
+                      {sortHeader('message', 'Issue')}
+                      {sortHeader('severity', 'Type', 'w-24')}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {issues.length > 0 ? (
+                      issues.map((issue, idx) => (
+                        <tr key={`${page}-${idx}`} className="hover:bg-white/5 transition-colors">
+                          <td className="px-6 py-2 text-slate-500 font-mono text-xs">{issue.row}</td>
+                          <td className="px-6 py-2 font-medium text-slate-300">{issue.column}</td>
+                          <td className="px-6 py-2 text-slate-400 font-mono text-xs truncate max-w-[200px]" title={String(issue.value)}>
+                            {String(issue.value ?? 'null')}
+                          </td>
+                          <td className={cn("px-6 py-2 text-xs", SEVERITY_TEXT[issue.severity])}>
+                            {issue.message}
+                          </td>
+                          <td className="px-6 py-2 whitespace-nowrap">
+                            <span className="px-2 py-0.5 bg-white/5 text-slate-400 rounded text-[10px] uppercase font-medium border border-white/5">
+                              {issue.type}
+                            </span>
+                            {(issue.constraint || issue.rule) && (
+                              <span className="ml-1 px-2 py-0.5 bg-blue-500/10 text-blue-300 rounded text-[10px] font-mono border border-blue-500/20">
+                                {issue.constraint ?? issue.rule}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-8 text-center text-slate-500 italic">
+                          No issues found for this selection.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {total > PAGE_SIZE && (
+                <div className="px-6 py-3 border-t border-white/10 flex items-center justify-between text-xs text-slate-400">
+                  <span>
+                    {(page * PAGE_SIZE + 1).toLocaleString()}–{Math.min(total, (page + 1) * PAGE_SIZE).toLocaleString()} of {total.toLocaleString()}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setPage(Math.max(0, page - 1))}
+                      disabled={page === 0}
+                      className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <span>Page {page + 1} of {pageCount.toLocaleString()}</span>
+                    <button
+                      onClick={() => setPage(Math.min(pageCount - 1, page + 1))}
+                      disabled={page >= pageCount - 1}
+                      className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Braces, Split, Code2 } from 'lucide-react';
+import type { JsonFlattenOptions } from '../types';
+import { flattenJSONRecords, resolveRecordRoot } from '../lib/json-flatten';
+import { cn } from '../lib/utils';
+
+interface JsonStructureSelectorProps {
+  fileName: string;
+  document: unknown;
+  candidates: { path: string; length: number }[];
+  onConfirm: (options: JsonFlattenOptions) => void;
+  onCancel: () => void;
+}
+
+// Only a handful of records are flattened to preview the resulting columns
+const PREVIEW_RECORDS = 25;
+const DOCUMENT_ROOT = '';
+
+export const JsonStructureSelector: React.FC<JsonStructureSelectorProps> = ({ fileName, document, candidates, onConfirm, onCancel }) => {
+  const [rootPath, setRootPath] = useState<string>(
+    Array.isArray(document) ? DOCUMENT_ROOT : candidates[0]?.path ?? DOCUMENT_ROOT
+  );
+  const [arrayMode, setArrayMode] = useState<'serialize' | 'explode'>('serialize');
+
+  const preview = useMemo(() => {
+    try {
+      const items = resolveRecordRoot(document, rootPath);
+      const rows = flattenJSONRecords(items.slice(0, PREVIEW_RECORDS), { arrayMode });
+      const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+      return { recordCount: items.length, rows: rows.length, columns, error: null };
+    } catch (err) {
+      return { recordCount: 0, rows: 0, columns: [], error: err instanceof Error ? err.message : 'Invalid root path' };
+    }
+  }, [document, rootPath, arrayMode]);
+
+  const handleConfirm = () => {
+    onConfirm({ rootPath, arrayMode });
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Braces className="w-5 h-5 text-blue-400" />
+          JSON Structure
+        </h3>
+        <p className="text-sm text-slate-400 mt-1">
+          <span className="font-mono text-slate-300">{fileName}</span>: choose where the records live and how nested arrays are handled.
+          Nested objects become dotted columns such as <span className="font-mono text-slate-300">address.city</span>.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Records root</label>
+          <select
+            value={rootPath}
+            onChange={(e) => setRootPath(e.target.value)}
+            className="mt-2 w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-sm text-slate-200 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value={DOCUMENT_ROOT}>(document root)</option>
+            {candidates.map(candidate => (
+              <option key={candidate.path} value={candidate.path}>
+                {candidate.path} &middot; {candidate.length} items
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Arrays of objects</label>
+          <div className="mt-2 flex gap-2">
+            {([
+              { id: 'serialize', label: 'Keep as JSON cell', icon: Code2 },
+              { id: 'explode', label: 'One row per item', icon: Split }
+            ] as const).map(option => (
+              <button
+                key={option.id}
+                onClick={() => setArrayMode(option.id)}
+                className={cn(
+                  "flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg border transition-colors",
+                  arrayMode === option.id
+                    ? "bg-blue-500/20 text-blue-200 border-blue-500/30"
+                    : "bg-white/5 text-slate-300 border-white/10 hover:bg-white/10"
+                )}
+              >
+                <option.icon className="w-4 h-4" /> {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        {preview.error ? (
+          <p className="text-sm text-red-400">{preview.error}</p>
+        ) : (
+          <>
+            <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">
+              Resulting columns &middot; {preview.recordCount.toLocaleString()} records
+              {arrayMode === 'explode' && preview.rows !== Math.min(preview.recordCount, PREVIEW_RECORDS) && (
+                <span className="normal-case font-normal text-slate-500"> (first {PREVIEW_RECORDS} expand to {preview.rows} rows)</span>
+              )}
+            </p>
+            <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+              {preview.columns.map(name => (
+                <span key={name} className="px-2 py-1 text-xs font-mono text-slate-200 bg-white/5 border border-white/10 rounded">
+                  {name}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between pt-6 mt-6 border-t border-white/10">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-colors"
+        >
+          Choose another file
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={preview.error !== null || preview.columns.length === 0}
+          className="px-6 py-2.5 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Analyze Data
+        </button>
+      </div>
+    </div>
+  );
+};
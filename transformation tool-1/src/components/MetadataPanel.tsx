@@ -1,6 +1,7 @@
 import React from 'react';
 import type { AnalysisResult } from '../types';
-import { Clock, Database, FileText, Hash } from 'lucide-react';
+import { Clock, Database, FileText, Hash, Languages } from 'lucide-react';
+import { formatDelimiter } from '../lib/csv-dialect';
 
 interface MetadataPanelProps {
   data: AnalysisResult;
@@ -41,9 +42,41 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ data }) => {
           <div>
             <p className="text-xs text-slate-400 font-medium">File Format</p>
             <p className="text-sm text-slate-200 mt-0.5 uppercase">{data.metadata.fileType}</p>
+            {data.metadata.jsonRootPath && (
+              <p className="text-xs text-slate-400 mt-0.5 font-mono">Root: {data.metadata.jsonRootPath}</p>
+            )}
+            {data.metadata.sheetNames && (
+              <p className="text-xs text-slate-400 mt-0.5" title={data.metadata.sheetNames.join(', ')}>
+                {data.metadata.sheetNames.length === 1
+                  ? `Sheet: ${data.metadata.sheetNames[0]}`
+                  : `${data.metadata.sheetNames.length} sheets combined`}
+              </p>
+            )}
           </div>
         </div>
 
+        {data.metadata.encoding && (
+          <div className="flex items-start gap-3">
+            <div className="p-2 bg-cyan-500/20 text-cyan-400 rounded-lg border border-cyan-500/20">
+              <Languages className="w-4 h-4" />
+            </div>
+            <div>
+              <p className="text-xs text-slate-400 font-medium">Encoding</p>
+              <p className="text-sm text-slate-200 mt-0.5">{data.metadata.encoding}</p>
+              {data.metadata.dialect && (
+                <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                  <dt className="text-slate-500">Delimiter</dt>
+                  <dd className="text-slate-300">{formatDelimiter(data.metadata.dialect.delimiter)}</dd>
+                  <dt className="text-slate-500">Quote</dt>
+                  <dd className="text-slate-300 font-mono">{data.metadata.dialect.quoteChar}</dd>
+                  <dt className="text-slate-500">Decimal</dt>
+                  <dd className="text-slate-300 font-mono">{data.metadata.dialect.decimalSeparator}</dd>
+                </dl>
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="flex items-start gap-3">
           <div className="p-2 bg-orange-500/20 text-orange-400 rounded-lg border border-orange-500/20">
             <Hash className="w-4 h-4" />
@@ -51,6 +84,11 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ data }) => {
           <div>
             <p className="text-xs text-slate-400 font-medium">Total Records</p>
             <p className="text-sm text-slate-200 mt-0.5">{data.metadata.totalRows.toLocaleString()}</p>
+            {data.metadata.streamed && (
+              <p className="text-xs text-amber-400 mt-0.5">
+                Streamed &middot; {data.metadata.sampleSize?.toLocaleString()} row sample in memory
+              </p>
+            )}
           </div>
         </div>
       </div>
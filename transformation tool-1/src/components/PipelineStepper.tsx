@@ -0,0 +1,84 @@
+import { ChevronLeft, ChevronRight, Check } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+export interface PipelineStepDefinition<T extends string> {
+  id: T;
+  label: string;
+}
+
+interface PipelineStepperProps<T extends string> {
+  steps: PipelineStepDefinition<T>[];
+  current: T;
+  canVisit: (step: T) => boolean;
+  onNavigate: (step: T) => void;
+  isBusy?: boolean;
+}
+
+export const PipelineStepper = <T extends string>({
+  steps,
+  current,
+  canVisit,
+  onNavigate,
+  isBusy = false
+}: PipelineStepperProps<T>) => {
+  const currentIndex = steps.findIndex(s => s.id === current);
+  const previous = currentIndex > 0 ? steps[currentIndex - 1] : null;
+  const next = currentIndex < steps.length - 1 ? steps[currentIndex + 1] : null;
+
+  const canGoBack = !isBusy && previous !== null && canVisit(previous.id);
+  const canGoForward = !isBusy && next !== null && canVisit(next.id);
+
+  return (
+    <div className="flex items-center gap-3 bg-black/40 backdrop-blur-md rounded-xl border border-white/10 p-3">
+      <button
+        onClick={() => previous && onNavigate(previous.id)}
+        disabled={!canGoBack}
+        className="p-2 rounded-lg text-slate-300 hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        title={previous ? `Back to ${previous.label}` : undefined}
+      >
+        <ChevronLeft className="w-5 h-5" />
+      </button>
+
+      <ol className="flex-1 flex items-center gap-1 overflow-x-auto">
+        {steps.map((step, idx) => {
+          const isCurrent = step.id === current;
+          const isDone = idx < currentIndex;
+          const reachable = !isBusy && canVisit(step.id);
+
+          return (
+            <li key={step.id} className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => reachable && onNavigate(step.id)}
+                disabled={!reachable || isCurrent}
+                className={cn(
+                  "flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors",
+                  isCurrent && "bg-blue-600 text-white shadow-lg shadow-blue-500/20",
+                  !isCurrent && reachable && "text-slate-300 hover:bg-white/10 hover:text-white",
+                  !isCurrent && !reachable && "text-slate-600 cursor-not-allowed"
+                )}
+              >
+                <span className={cn(
+                  "w-5 h-5 rounded-full flex items-center justify-center text-[10px] border",
+                  isCurrent ? "border-white/40" : isDone ? "border-green-500/40 text-green-400" : "border-white/10"
+                )}>
+                  {isDone ? <Check className="w-3 h-3" /> : idx + 1}
+                </span>
+                {step.label}
+              </button>
+              {idx < steps.length - 1 && <span className="w-4 h-px bg-white/10" />}
+            </li>
+          );
+        })}
+      </ol>
+
+      <button
+        onClick={() => next && onNavigate(next.id)}
+        disabled={!canGoForward}
+        className="p-2 rounded-lg text-slate-300 hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        title={next ? `Forward to ${next.label}` : undefined}
+      >
+        <ChevronRight className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, FilePlus2, Link2, Loader2, RefreshCw, X } from 'lucide-react';
+import type { DomainSchema, KeySample, ReferentialIntegrityResult } from '../types';
+import { cn } from '../lib/utils';
+
+export interface RelatedDatasetSummary {
+  name: string;
+  schemaId: string;
+  rowCount: number;
+}
+
+export interface ReferentialIntegrityPanelProps {
+  datasets: RelatedDatasetSummary[];
+  schemas: DomainSchema[];
+  onAddDataset: (file: File, schemaId: string) => Promise<void>;
+  onRemoveDataset: (index: number) => void;
+  onRunCheck: () => Promise<void>;
+}
+
+const STATUS_STYLES: Record<ReferentialIntegrityResult['status'], string> = {
+  pass: 'bg-green-500/20 text-green-400 border-green-500/20',
+  fail: 'bg-red-500/20 text-red-400 border-red-500/20',
+  skipped: 'bg-white/5 text-slate-400 border-white/10'
+};
+
+// Keys with their occurrence count; hovering shows the first rows they appear in
+const SampleList: React.FC<{ title: string; samples: KeySample[] }> = ({ title, samples }) => {
+  if (samples.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs font-semibold text-slate-400 mb-1">{title}</p>
+      <div className="flex flex-wrap gap-1.5">
+        {samples.map(sample => (
+          <span
+            key={sample.value}
+            title={`Rows ${sample.rows.join(', ')}${sample.count > sample.rows.length ? ', ...' : ''}`}
+            className="px-2 py-0.5 bg-white/5 text-slate-300 rounded text-[11px] font-mono border border-white/10"
+          >
+            {sample.value}
+            {sample.count > 1 && <span className="text-slate-500"> ×{sample.count}</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const ReferentialIntegrityPanel: React.FC<ReferentialIntegrityPanelProps & { results?: ReferentialIntegrityResult[] }> = ({
+  datasets,
+  schemas,
+  results,
+  onAddDataset,
+  onRemoveDataset,
+  onRunCheck
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [schemaId, setSchemaId] = useState(schemas[0]?.id ?? '');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Referential integrity check failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) run(() => onAddDataset(file, schemaId));
+  };
+
+  const schemaName = (id: string) => schemas.find(s => s.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md rounded-xl shadow-sm border border-white/10 overflow-hidden">
+      <div className="px-6 py-4 border-b border-white/10 bg-black/20 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Link2 className="w-4 h-4 text-blue-400" />
+            Referential Integrity
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Add the datasets this one references (or that reference it) to check the foreign keys declared in their schemas.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <select
+            value={schemaId}
+            onChange={(e) => setSchemaId(e.target.value)}
+            className="rounded-lg bg-black/20 border border-white/10 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            {schemas.map(schema => (
+              <option key={schema.id} value={schema.id} className="bg-slate-900">{schema.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy || !schemaId}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <FilePlus2 className="w-4 h-4" />}
+            Add dataset
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.json,.jsonl,.ndjson" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        {datasets.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {datasets.map((dataset, idx) => (
+              <span key={`${dataset.name}-${idx}`} className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 bg-white/5 border border-white/10 rounded-lg text-xs text-slate-300">
+                {dataset.name}
+                <span className="text-slate-500">· {schemaName(dataset.schemaId)} · {dataset.rowCount.toLocaleString()} rows</span>
+                <button onClick={() => onRemoveDataset(idx)} disabled={isBusy} className="p-0.5 text-slate-500 hover:text-red-400">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))}
+            {!results && (
+              <button
+                onClick={() => run(onRunCheck)}
+                disabled={isBusy}
+                className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-blue-300 hover:text-blue-200"
+              >
+                <RefreshCw className="w-3.5 h-3.5" /> Run check
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {results && results.length === 0 && (
+          <p className="text-sm text-slate-500 italic">None of the loaded schemas declare foreign keys.</p>
+        )}
+
+        {results && results.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="text-slate-400 font-medium border-b border-white/10">
+              <tr>
+                <th className="py-2 pr-4">Foreign Key</th>
+                <th className="py-2 pr-4">Checked</th>
+                <th className="py-2 pr-4">Orphans</th>
+                <th className="py-2 pr-4">Duplicate Keys</th>
+                <th className="py-2 pr-4">Cardinality</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {results.map(result => {
+                // Two datasets of the same schema declare the same foreign key
+                const rowKey = `${result.source_dataset}|${result.foreign_key}`;
+                const isOpen = expanded === rowKey;
+                const hasDetails = result.status === 'fail';
+                return (
+                  <React.Fragment key={rowKey}>
+                    <tr
+                      className={cn(hasDetails && "cursor-pointer hover:bg-white/5")}
+                      onClick={() => hasDetails && setExpanded(isOpen ? null : rowKey)}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-1.5 font-mono text-xs text-slate-200">
+                          {hasDetails && (isOpen ? <ChevronDown className="w-3.5 h-3.5 text-slate-500" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-500" />)}
+                          {result.foreign_key}
+                        </div>
+                        <p className="text-[11px] text-slate-500 mt-0.5">
+                          {result.message ?? `${result.source_dataset} → ${result.target_dataset}`}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-4 text-slate-400">{result.checked_values.toLocaleString()}</td>
+                      <td className={cn("py-2 pr-4", result.orphan_count > 0 ? "text-red-400 font-medium" : "text-slate-600")}>
+                        {result.orphan_count > 0 ? result.orphan_count.toLocaleString() : '-'}
+                      </td>
+                      <td className={cn("py-2 pr-4", result.duplicate_key_count > 0 ? "text-red-400 font-medium" : "text-slate-600")}>
+                        {result.duplicate_key_count > 0 ? result.duplicate_key_count.toLocaleString() : '-'}
+                      </td>
+                      <td className="py-2 pr-4 text-xs text-slate-400">
+                        {result.cardinality}
+                        {result.cardinality_violation_count > 0 && (
+                          <span className="ml-1 text-red-400 font-medium">({result.cardinality_violation_count} violations)</span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <span className={cn("px-2 py-0.5 rounded text-[10px] uppercase font-bold border", STATUS_STYLES[result.status])}>
+                          {result.status}
+                        </span>
+                      </td>
+                    </tr>
+                    {isOpen && (
+                      <tr>
+                        <td colSpan={6} className="pb-4 space-y-3">
+                          <SampleList
+                            title={`${result.orphan_count.toLocaleString()} rows in ${result.source_dataset} reference keys missing from ${result.target_dataset}`}
+                            samples={result.orphans}
+                          />
+                          <SampleList title={`Keys repeated in ${result.target_dataset}`} samples={result.duplicate_keys} />
+                          <SampleList title={`Keys referenced by more than one row of ${result.source_dataset}`} samples={result.cardinality_violations} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,544 @@
+import React, { Fragment, useRef, useState } from 'react';
+import { Copy, Download, FilePlus2, Plus, Save, Trash2, Upload, X, Database, SlidersHorizontal } from 'lucide-react';
+import type { CanonicalField, DomainSchema, FieldConstraints, ForeignKey, RowRule, SchemaRegistry, SeverityLevel } from '../types';
+import {
+  FIELD_TYPES,
+  cloneSchema,
+  createEmptySchema,
+  isBuiltInSchema,
+  parseSchemaImport,
+  validateSchema
+} from '../lib/schema-registry';
+import {
+  SCHEMA_EXPORT_FORMATS,
+  SchemaImportError,
+  exportSchemaAs,
+  exportSchemas,
+  type SchemaExportFormat
+} from '../lib/schema-formats';
+import { SCHEMAS, USER_SCHEMA } from '../lib/schemas';
+import { cn, downloadBlob } from '../lib/utils';
+
+interface SchemaEditorProps {
+  schemas: SchemaRegistry;
+  initialSchemaId: string;
+  // Unsaved schema to open for review instead of a stored one, e.g. one inferred from data
+  initialDraft?: DomainSchema;
+  // previousId is set when the schema's id was changed; the stored entry under it is replaced
+  onSave: (schema: DomainSchema, previousId?: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onImport: (schemas: DomainSchema[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const EMPTY_FIELD: CanonicalField = { id: '', label: '', required: false, type: 'String', aliases: [] };
+
+const inputClass = "w-full rounded-lg bg-black/20 border border-white/10 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-600";
+
+const parseOptionalNumber = (text: string) => (text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text));
+
+// Drops unset keys so fields without constraints stay free of an empty object
+const compactConstraints = (constraints: FieldConstraints): FieldConstraints | undefined => {
+  const entries = Object.entries(constraints).filter(([, value]) => value !== undefined && value !== '');
+  return entries.length > 0 ? (Object.fromEntries(entries) as FieldConstraints) : undefined;
+};
+
+const ConstraintsEditor: React.FC<{ field: CanonicalField; onChange: (constraints: FieldConstraints | undefined) => void }> = ({ field, onChange }) => {
+  const c = field.constraints ?? {};
+  const update = (patch: Partial<FieldConstraints>) => onChange(compactConstraints({ ...c, ...patch }));
+  const isNumeric = field.type === 'Integer' || field.type === 'Float';
+
+  const numberInput = (key: 'min' | 'max' | 'minLength' | 'maxLength', label: string) => (
+    <label className="block">
+      <span className="text-[10px] uppercase tracking-wider text-slate-500">{label}</span>
+      <input type="number" className={inputClass} value={c[key] ?? ''} onChange={(e) => update({ [key]: parseOptionalNumber(e.target.value) })} />
+    </label>
+  );
+
+  return (
+    <div className="grid grid-cols-4 gap-3 p-3 rounded-lg bg-white/5 border border-white/10">
+      {isNumeric && numberInput('min', 'Min')}
+      {isNumeric && numberInput('max', 'Max')}
+      {field.type === 'Date' && (
+        <>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-slate-500">Min date</span>
+            <input type="date" className={inputClass} value={c.minDate ?? ''} onChange={(e) => update({ minDate: e.target.value || undefined })} />
+          </label>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-slate-500">Max date</span>
+            <input type="date" className={inputClass} value={c.maxDate ?? ''} onChange={(e) => update({ maxDate: e.target.value || undefined })} />
+          </label>
+        </>
+      )}
+      {numberInput('minLength', 'Min length')}
+      {numberInput('maxLength', 'Max length')}
+      <label className="block col-span-2">
+        <span className="text-[10px] uppercase tracking-wider text-slate-500">Pattern (regex, whole value)</span>
+        <input className={cn(inputClass, "font-mono")} value={c.pattern ?? ''} onChange={(e) => update({ pattern: e.target.value || undefined })} />
+      </label>
+      <label className="block col-span-2">
+        <span className="text-[10px] uppercase tracking-wider text-slate-500">Allowed values (comma separated)</span>
+        <input
+          className={inputClass}
+          value={c.enum?.join(', ') ?? ''}
+          onChange={(e) => {
+            const values = e.target.value.split(',').map(v => v.trim()).filter(Boolean);
+            update({ enum: values.length > 0 ? values : undefined });
+          }}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        <input type="checkbox" checked={c.nullable !== false} onChange={(e) => update({ nullable: e.target.checked ? undefined : false })} />
+        Allow empty values
+      </label>
+    </div>
+  );
+};
+
+export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schemas, initialSchemaId, initialDraft, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<DomainSchema>(() =>
+    structuredClone(initialDraft ?? schemas[initialSchemaId] ?? createEmptySchema(schemas))
+  );
+  // The stored id of the schema being edited; null while a new schema has not been saved
+  const [savedId, setSavedId] = useState<string | null>(!initialDraft && schemas[initialSchemaId] ? initialSchemaId : null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [exportFormat, setExportFormat] = useState<SchemaExportFormat>('domain');
+  const [expandedField, setExpandedField] = useState<number | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectSchema = (schema: DomainSchema, id: string | null) => {
+    setDraft(structuredClone(schema));
+    setSavedId(id);
+    setErrors([]);
+    setExpandedField(null);
+  };
+
+  const updateField = (index: number, patch: Partial<CanonicalField>) => {
+    setDraft(prev => ({
+      ...prev,
+      fields: prev.fields.map((field, i) => (i === index ? { ...field, ...patch } : field))
+    }));
+  };
+
+  const removeField = (index: number) => {
+    setExpandedField(null);
+    setDraft(prev => ({ ...prev, fields: prev.fields.filter((_, i) => i !== index) }));
+  };
+
+  const addField = () => {
+    setDraft(prev => ({ ...prev, fields: [...prev.fields, { ...EMPTY_FIELD, aliases: [] }] }));
+  };
+
+  const updateRule = (index: number, patch: Partial<RowRule>) => {
+    setDraft(prev => ({
+      ...prev,
+      rules: (prev.rules ?? []).map((rule, i) => (i === index ? { ...rule, ...patch } : rule))
+    }));
+  };
+
+  const removeRule = (index: number) => {
+    setDraft(prev => {
+      const rules = (prev.rules ?? []).filter((_, i) => i !== index);
+      return { ...prev, rules: rules.length > 0 ? rules : undefined };
+    });
+  };
+
+  const addRule = () => {
+    setDraft(prev => {
+      const rules = prev.rules ?? [];
+      return { ...prev, rules: [...rules, { id: `rule_${rules.length + 1}`, assert: '' }] };
+    });
+  };
+
+  const updateForeignKey = (index: number, patch: Partial<ForeignKey>) => {
+    setDraft(prev => ({
+      ...prev,
+      foreignKeys: (prev.foreignKeys ?? []).map((fk, i) => (i === index ? { ...fk, ...patch } : fk))
+    }));
+  };
+
+  const removeForeignKey = (index: number) => {
+    setDraft(prev => {
+      const foreignKeys = (prev.foreignKeys ?? []).filter((_, i) => i !== index);
+      return { ...prev, foreignKeys: foreignKeys.length > 0 ? foreignKeys : undefined };
+    });
+  };
+
+  const addForeignKey = () => {
+    setDraft(prev => ({
+      ...prev,
+      foreignKeys: [...(prev.foreignKeys ?? []), { field: prev.fields[0]?.id ?? '', references: { schema: '', field: '' } }]
+    }));
+  };
+
+  const handleSave = async () => {
+    const problems = validateSchema(draft);
+    if (savedId !== draft.id && schemas[draft.id]) problems.push(`A schema with id "${draft.id}" already exists`);
+    (draft.foreignKeys ?? []).forEach(fk => {
+      const referenced = fk.references.schema === draft.id ? draft : schemas[fk.references.schema];
+      if (referenced && fk.references.field && !referenced.fields.some(field => field.id === fk.references.field)) {
+        problems.push(`Schema "${fk.references.schema}" has no field "${fk.references.field}"`);
+      }
+    });
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(draft, savedId && savedId !== draft.id ? savedId : undefined);
+      setSavedId(draft.id);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save schema']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedId) return;
+    try {
+      await onDelete(savedId);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to delete schema']);
+      return;
+    }
+    // Deleting a stored built-in brings back its default definition
+    const fallback = isBuiltInSchema(savedId) ? SCHEMAS[savedId] : USER_SCHEMA;
+    selectSchema(fallback, fallback.id);
+  };
+
+  const handleExport = () => {
+    const format = SCHEMA_EXPORT_FORMATS.find(f => f.id === exportFormat) ?? SCHEMA_EXPORT_FORMATS[0];
+    downloadBlob(new Blob([exportSchemaAs(draft, format.id)], { type: format.mimeType }), `${draft.id || 'schema'}.${format.extension}`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseSchemaImport(await file.text());
+      await onImport(imported);
+      selectSchema(imported[0], imported[0].id);
+    } catch (err) {
+      setErrors([err instanceof SchemaImportError ? err.message : 'Failed to import schemas']);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-slate-950/95 rounded-xl border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Database className="w-5 h-5 text-blue-400" />
+            Schema Registry
+          </h3>
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.avsc,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Upload className="w-3.5 h-3.5" /> Import
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([exportSchemas(Object.values(schemas))], { type: 'application/json' }), 'schemas.json')}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Download className="w-3.5 h-3.5" /> Export all
+            </button>
+            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg hover:bg-white/10">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-56 shrink-0 border-r border-white/10 p-3 space-y-1 overflow-y-auto">
+            {Object.values(schemas).map(schema => (
+              <button
+                key={schema.id}
+                onClick={() => selectSchema(schema, schema.id)}
+                className={cn(
+                  "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors",
+                  savedId === schema.id ? "bg-blue-500/20 text-blue-200" : "text-slate-300 hover:bg-white/5"
+                )}
+              >
+                <div className="truncate">{schema.name}</div>
+                <div className="text-xs font-mono text-slate-500 truncate">
+                  {schema.id} &middot; {schema.fields.length} fields
+                </div>
+              </button>
+            ))}
+            <button
+              onClick={() => selectSchema(createEmptySchema(schemas), null)}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-white/5 hover:text-white"
+            >
+              <FilePlus2 className="w-4 h-4" /> New schema
+            </button>
+          </aside>
+
+          <div className="flex-1 min-w-0 p-6 overflow-y-auto space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Name</span>
+                <input className={cn(inputClass, "mt-1")} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Id</span>
+                <input className={cn(inputClass, "mt-1 font-mono")} value={draft.id} onChange={(e) => setDraft({ ...draft, id: e.target.value })} />
+              </label>
+            </div>
+
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-slate-400 uppercase tracking-wider">
+                <tr>
+                  <th className="py-2 pr-2">Field id</th>
+                  <th className="py-2 pr-2">Label</th>
+                  <th className="py-2 pr-2">Type</th>
+                  <th className="py-2 pr-2">Aliases (comma separated)</th>
+                  <th className="py-2 pr-2">Description</th>
+                  <th className="py-2 pr-2 text-center">Req.</th>
+                  <th className="py-2 pr-2 text-center">Unique</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {draft.fields.map((field, idx) => (
+                  <Fragment key={idx}>
+                    <tr>
+                      <td className="py-1.5 pr-2">
+                        <input className={cn(inputClass, "font-mono")} value={field.id} onChange={(e) => updateField(idx, { id: e.target.value })} />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <input className={inputClass} value={field.label} onChange={(e) => updateField(idx, { label: e.target.value })} />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <select className={inputClass} value={field.type} onChange={(e) => updateField(idx, { type: e.target.value })}>
+                          {FIELD_TYPES.map(type => (
+                            <option key={type} value={type} className="bg-slate-900">{type}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <input
+                          className={inputClass}
+                          value={field.aliases.join(', ')}
+                          onChange={(e) => updateField(idx, { aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <input
+                          className={inputClass}
+                          value={field.description ?? ''}
+                          onChange={(e) => updateField(idx, { description: e.target.value || undefined })}
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2 text-center">
+                        <input type="checkbox" checked={field.required} onChange={(e) => updateField(idx, { required: e.target.checked })} />
+                      </td>
+                      <td className="py-1.5 pr-2 text-center">
+                        <input type="checkbox" checked={field.unique ?? false} onChange={(e) => updateField(idx, { unique: e.target.checked || undefined })} />
+                      </td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => setExpandedField(expandedField === idx ? null : idx)}
+                          title="Constraints"
+                          className={cn("p-1.5 hover:text-white", field.constraints ? "text-blue-400" : "text-slate-500")}
+                        >
+                          <SlidersHorizontal className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => removeField(idx)} className="p-1.5 text-slate-500 hover:text-red-400">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedField === idx && (
+                      <tr>
+                        <td colSpan={8} className="pb-3">
+                          <ConstraintsEditor field={field} onChange={(constraints) => updateField(idx, { constraints })} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+
+            <button
+              onClick={addField}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-dashed border-white/20 rounded-lg hover:bg-white/10"
+            >
+              <Plus className="w-3.5 h-3.5" /> Add field
+            </button>
+
+            <div className="pt-4 border-t border-white/10 space-y-2">
+              <div>
+                <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Row rules</h4>
+                <p className="text-xs text-slate-500 mt-1">
+                  Checked on every row using field ids, e.g. <span className="font-mono text-slate-400">end_date &gt;= start_date</span>,{' '}
+                  <span className="font-mono text-slate-400">total == quantity * unit_price</span> or, with a condition,{' '}
+                  <span className="font-mono text-slate-400">present(closed_at)</span> when <span className="font-mono text-slate-400">status == 'closed'</span>.
+                </p>
+              </div>
+              {(draft.rules ?? []).map((rule, idx) => (
+                <div key={idx} className="grid grid-cols-[8rem_1fr_1fr_1fr_7rem_auto] gap-2 items-center">
+                  <input className={cn(inputClass, "font-mono")} placeholder="id" value={rule.id} onChange={(e) => updateRule(idx, { id: e.target.value })} />
+                  <input
+                    className={cn(inputClass, "font-mono")}
+                    placeholder="when (optional)"
+                    value={rule.when ?? ''}
+                    onChange={(e) => updateRule(idx, { when: e.target.value || undefined })}
+                  />
+                  <input className={cn(inputClass, "font-mono")} placeholder="assert" value={rule.assert} onChange={(e) => updateRule(idx, { assert: e.target.value })} />
+                  <input
+                    className={inputClass}
+                    placeholder="Message"
+                    value={rule.description ?? ''}
+                    onChange={(e) => updateRule(idx, { description: e.target.value || undefined })}
+                  />
+                  <select
+                    className={inputClass}
+                    value={rule.severity ?? 'critical'}
+                    onChange={(e) => updateRule(idx, { severity: e.target.value as SeverityLevel })}
+                  >
+                    {(['critical', 'warning', 'info'] as const).map(level => (
+                      <option key={level} value={level} className="bg-slate-900">{level}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => removeRule(idx)} className="p-1.5 text-slate-500 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={addRule}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-dashed border-white/20 rounded-lg hover:bg-white/10"
+              >
+                <Plus className="w-3.5 h-3.5" /> Add rule
+              </button>
+            </div>
+
+            <div className="pt-4 border-t border-white/10 space-y-2">
+              <div>
+                <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Foreign keys</h4>
+                <p className="text-xs text-slate-500 mt-1">
+                  Checked when a dataset of the referenced schema is validated alongside this one.
+                </p>
+              </div>
+              {(draft.foreignKeys ?? []).map((fk, idx) => {
+                const referenced = fk.references.schema === draft.id ? draft : schemas[fk.references.schema];
+                return (
+                  <div key={idx} className="grid grid-cols-[1fr_auto_1fr_1fr_9rem_auto] gap-2 items-center">
+                    <select className={inputClass} value={fk.field} onChange={(e) => updateForeignKey(idx, { field: e.target.value })}>
+                      {draft.fields.map(field => (
+                        <option key={field.id} value={field.id} className="bg-slate-900">{field.id}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-slate-500">references</span>
+                    <select
+                      className={inputClass}
+                      value={fk.references.schema}
+                      onChange={(e) => updateForeignKey(idx, { references: { schema: e.target.value, field: '' } })}
+                    >
+                      <option value="" className="bg-slate-900">Schema...</option>
+                      {Array.from(new Set([draft.id, ...Object.keys(schemas)])).map(id => (
+                        <option key={id} value={id} className="bg-slate-900">{id === draft.id ? draft.name : schemas[id].name}</option>
+                      ))}
+                    </select>
+                    <select
+                      className={inputClass}
+                      value={fk.references.field}
+                      onChange={(e) => updateForeignKey(idx, { references: { ...fk.references, field: e.target.value } })}
+                    >
+                      <option value="" className="bg-slate-900">Field...</option>
+                      {(referenced?.fields ?? []).map(field => (
+                        <option key={field.id} value={field.id} className="bg-slate-900">{field.id}</option>
+                      ))}
+                    </select>
+                    <select
+                      className={inputClass}
+                      value={fk.cardinality ?? 'many-to-one'}
+                      onChange={(e) => updateForeignKey(idx, { cardinality: e.target.value as ForeignKey['cardinality'] })}
+                    >
+                      <option value="many-to-one" className="bg-slate-900">many-to-one</option>
+                      <option value="one-to-one" className="bg-slate-900">one-to-one</option>
+                    </select>
+                    <button onClick={() => removeForeignKey(idx)} className="p-1.5 text-slate-500 hover:text-red-400">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={addForeignKey}
+                disabled={draft.fields.length === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 bg-white/5 border border-dashed border-white/20 rounded-lg hover:bg-white/10 disabled:opacity-50"
+              >
+                <Plus className="w-3.5 h-3.5" /> Add foreign key
+              </button>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-400 list-disc pl-5">
+                {errors.map(err => <li key={err}>{err}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-white/10">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => selectSchema(cloneSchema(draft, schemas), null)}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Copy className="w-4 h-4" /> Clone
+            </button>
+            {savedId && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg hover:bg-red-500/20"
+              >
+                <Trash2 className="w-4 h-4" /> {isBuiltInSchema(savedId) ? 'Reset to default' : 'Delete'}
+              </button>
+            )}
+            <div className="flex items-center">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as SchemaExportFormat)}
+                className="px-3 py-2 text-sm text-slate-300 bg-white/5 border border-white/10 rounded-l-lg focus:outline-none"
+              >
+                {SCHEMA_EXPORT_FORMATS.map(format => (
+                  <option key={format.id} value={format.id} className="bg-slate-900">{format.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-l-0 border-white/10 rounded-r-lg hover:bg-white/10"
+              >
+                <Download className="w-4 h-4" /> Export
+              </button>
+            </div>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save schema
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { CheckSquare, Layers, Square, Table2 } from 'lucide-react';
+import type { SheetSummary } from '../types';
+import { cn } from '../lib/utils';
+
+interface SheetSelectorProps {
+  fileName: string;
+  sheets: SheetSummary[];
+  onConfirm: (sheetNames: string[]) => void;
+  onCancel: () => void;
+}
+
+export const SheetSelector: React.FC<SheetSelectorProps> = ({ fileName, sheets, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<string[]>(() => sheets.slice(0, 1).map(s => s.name));
+
+  const allSelected = selected.length === sheets.length;
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? [] : sheets.map(s => s.name));
+  };
+
+  // Keep workbook order regardless of click order
+  const handleConfirm = () => {
+    onConfirm(sheets.map(s => s.name).filter(name => selected.includes(name)));
+  };
+
+  const selectedRows = sheets
+    .filter(s => selected.includes(s.name))
+    .reduce((acc, s) => acc + s.rowCount, 0);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Layers className="w-5 h-5 text-blue-400" />
+            Select Sheets
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">
+            <span className="font-mono text-slate-300">{fileName}</span> contains {sheets.length} sheets.
+            Pick one to analyze it on its own, or several to ingest their union.
+          </p>
+        </div>
+        <button
+          onClick={toggleAll}
+          className="text-sm font-medium text-blue-400 hover:text-blue-300 transition-colors whitespace-nowrap"
+        >
+          {allSelected ? 'Clear all' : 'Select all'}
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {sheets.map(sheet => {
+          const isSelected = selected.includes(sheet.name);
+          return (
+            <button
+              key={sheet.name}
+              onClick={() => toggleSheet(sheet.name)}
+              className={cn(
+                "w-full flex items-center gap-4 px-4 py-3 rounded-lg border text-left transition-colors",
+                isSelected ? "bg-blue-500/10 border-blue-500/30" : "bg-white/5 border-white/10 hover:bg-white/10"
+              )}
+            >
+              {isSelected ? (
+                <CheckSquare className="w-5 h-5 text-blue-400 flex-shrink-0" />
+              ) : (
+                <Square className="w-5 h-5 text-slate-500 flex-shrink-0" />
+              )}
+              <Table2 className="w-4 h-4 text-slate-400 flex-shrink-0" />
+              <span className="flex-1 text-sm font-medium text-slate-200 truncate">{sheet.name}</span>
+              <span className="text-xs font-mono text-slate-500">
+                {sheet.rowCount.toLocaleString()} rows &middot; {sheet.columnCount} cols
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected.length > 1 && (
+        <p className="mt-4 text-xs text-slate-500">
+          Rows from multiple sheets are combined and tagged with a <span className="font-mono text-slate-400">sheet_name</span> column.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between pt-6 mt-6 border-t border-white/10">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-colors"
+        >
+          Choose another file
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={selected.length === 0}
+          className="px-6 py-2.5 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Ingest {selected.length} {selected.length === 1 ? 'sheet' : 'sheets'} ({selectedRows.toLocaleString()} rows)
+        </button>
+      </div>
+    </div>
+  );
+};
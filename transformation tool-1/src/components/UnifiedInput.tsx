@@ -1,17 +1,17 @@
 import React, { useState, useCallback } from 'react';
 import { Upload, FileText, Image as ImageIcon, FileSpreadsheet, FileJson, Loader2 } from 'lucide-react';
 import { cn } from '../lib/utils';
-import { processInputFile } from '../lib/input-processor';
 import type { UnifiedRecord } from '../lib/input-processor';
 
 interface UnifiedInputProps {
+  onFilesSelected: (files: File[]) => void; // Ingestion runs in the pipeline runner
   onDataReady: (data: UnifiedRecord[]) => void;
   onError?: (error: string) => void;
+  isProcessing?: boolean;
 }
 
-export const UnifiedInput: React.FC<UnifiedInputProps> = ({ onDataReady, onError }) => {
+export const UnifiedInput: React.FC<UnifiedInputProps> = ({ onFilesSelected, onDataReady, onError, isProcessing = false }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
 
   const [activeTab, setActiveTab] = useState<'upload' | 'text'>('upload');
   const [textInput, setTextInput] = useState('');
@@ -27,29 +27,10 @@ export const UnifiedInput: React.FC<UnifiedInputProps> = ({ onDataReady, onError
     setIsDragging(false);
   }, []);
 
-  const processFiles = async (files: FileList | File[]) => {
-    setIsProcessing(true);
+  const processFiles = useCallback((files: FileList | File[]) => {
     if (onError) onError(''); // Clear previous errors
-    const allRecords: UnifiedRecord[] = [];
-
-    try {
-      for (const file of Array.from(files)) {
-        const records = await processInputFile(file);
-        allRecords.push(...records);
-      }
-      onDataReady(allRecords);
-    } catch (error) {
-      console.error('Error processing files:', error);
-      const message = error instanceof Error ? error.message : 'Unknown error processing files';
-      if (onError) {
-        onError(message);
-      } else {
-        alert(message);
-      }
-    } finally {
-      setIsProcessing(false);
-    }
-  };
+    onFilesSelected(Array.from(files));
+  }, [onFilesSelected, onError]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -57,7 +38,7 @@ export const UnifiedInput: React.FC<UnifiedInputProps> = ({ onDataReady, onError
     if (e.dataTransfer.files?.length) {
       processFiles(e.dataTransfer.files);
     }
-  }, []);
+  }, [processFiles]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.length) {
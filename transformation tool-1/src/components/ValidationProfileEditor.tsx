@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { Copy, FilePlus2, Gauge, Save, Trash2, X } from 'lucide-react';
+import type { CheckSeverity, ProfileRegistry, StatusThresholds, ValidationProfile } from '../types';
+import {
+  DEFAULT_PROFILE,
+  DEFAULT_THRESHOLDS,
+  DEFAULT_WARNING_PENALTY,
+  VALIDATION_CHECKS,
+  VALIDATION_PROFILES,
+  isBuiltInProfile,
+  validateProfile
+} from '../lib/validation-profiles';
+import { uniqueSchemaId } from '../lib/schema-registry';
+import { cn } from '../lib/utils';
+
+interface ValidationProfileEditorProps {
+  profiles: ProfileRegistry;
+  initialProfileId: string;
+  // Columns of the current run, listed for field weights
+  columns: { column: string; fieldId?: string }[];
+  // Row rules of the target schema, listed next to the built-in checks
+  ruleIds?: string[];
+  // previousId is set when the profile's id was changed; the stored entry under it is replaced
+  onSave: (profile: ValidationProfile, previousId?: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full rounded-lg bg-black/20 border border-white/10 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-600";
+
+const SEVERITY_OPTIONS: CheckSeverity[] = ['critical', 'warning', 'info', 'off'];
+
+const parseOptionalNumber = (text: string) => (text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text));
+
+// Drops unset keys so a profile only stores what it overrides
+const compact = <T extends object>(value: T): { [K in keyof T]: Exclude<T[K], undefined> } | undefined => {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as { [K in keyof T]: Exclude<T[K], undefined> }) : undefined;
+};
+
+export const ValidationProfileEditor: React.FC<ValidationProfileEditorProps> = ({
+  profiles,
+  initialProfileId,
+  columns,
+  ruleIds = [],
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<ValidationProfile>(() => structuredClone(profiles[initialProfileId] ?? DEFAULT_PROFILE));
+  // The stored id of the profile being edited; null while a new profile has not been saved
+  const [savedId, setSavedId] = useState<string | null>(profiles[initialProfileId] ? initialProfileId : null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectProfile = (profile: ValidationProfile, id: string | null) => {
+    setDraft(structuredClone(profile));
+    setSavedId(id);
+    setErrors([]);
+  };
+
+  const newProfile = (base: ValidationProfile, name: string) =>
+    selectProfile({ ...structuredClone(base), id: uniqueSchemaId(name, profiles), name }, null);
+
+  const updateThreshold = (patch: Partial<StatusThresholds>) => {
+    setDraft(prev => ({ ...prev, thresholds: compact({ ...prev.thresholds, ...patch }) }));
+  };
+
+  const updateSeverity = (check: string, severity: CheckSeverity | undefined) => {
+    setDraft(prev => ({ ...prev, severities: compact({ ...prev.severities, [check]: severity }) }));
+  };
+
+  const updateWeight = (column: string, weight: number | undefined) => {
+    setDraft(prev => ({ ...prev, fieldWeights: compact({ ...prev.fieldWeights, [column]: weight }) }));
+  };
+
+  const handleSave = async () => {
+    const problems = validateProfile(draft);
+    if (savedId !== draft.id && profiles[draft.id]) problems.push(`A profile with id "${draft.id}" already exists`);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(draft, savedId && savedId !== draft.id ? savedId : undefined);
+      setSavedId(draft.id);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save profile']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedId) return;
+    try {
+      await onDelete(savedId);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to delete profile']);
+      return;
+    }
+    // Deleting a stored built-in brings back its default definition
+    const fallback = VALIDATION_PROFILES[savedId] ?? DEFAULT_PROFILE;
+    selectProfile(fallback, fallback.id);
+  };
+
+  const thresholds = draft.thresholds ?? {};
+  const checks = [
+    ...VALIDATION_CHECKS,
+    ...ruleIds.map(id => ({ id: `rule:${id}`, label: `Row rule "${id}"`, severity: 'critical' as const }))
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-slate-950/95 rounded-xl border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-blue-400" />
+            Validation Profiles
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-lg hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-56 shrink-0 border-r border-white/10 p-3 space-y-1 overflow-y-auto">
+            {Object.values(profiles).map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => selectProfile(profile, profile.id)}
+                className={cn(
+                  "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors",
+                  savedId === profile.id ? "bg-blue-500/20 text-blue-200" : "text-slate-300 hover:bg-white/5"
+                )}
+              >
+                <div className="truncate">{profile.name}</div>
+                <div className="text-xs font-mono text-slate-500 truncate">{profile.id}</div>
+              </button>
+            ))}
+            <button
+              onClick={() => newProfile({ id: '', name: '' }, 'New Profile')}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-white/5 hover:text-white"
+            >
+              <FilePlus2 className="w-4 h-4" /> New profile
+            </button>
+          </aside>
+
+          <div className="flex-1 min-w-0 p-6 overflow-y-auto space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Name</span>
+                <input className={cn(inputClass, "mt-1")} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Id</span>
+                <input className={cn(inputClass, "mt-1 font-mono")} value={draft.id} onChange={(e) => setDraft({ ...draft, id: e.target.value })} />
+              </label>
+              <label className="block col-span-2">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Description</span>
+                <input
+                  className={cn(inputClass, "mt-1")}
+                  value={draft.description ?? ''}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value || undefined })}
+                />
+              </label>
+            </div>
+
+            <section className="space-y-2">
+              <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Status cutoffs</h4>
+              <div className="grid grid-cols-5 gap-3 items-end">
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500">Fail below score</span>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    placeholder={String(DEFAULT_THRESHOLDS.failBelowScore)}
+                    value={thresholds.failBelowScore ?? ''}
+                    onChange={(e) => updateThreshold({ failBelowScore: parseOptionalNumber(e.target.value) })}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500">Fail above errors (%)</span>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    placeholder={String(DEFAULT_THRESHOLDS.maxErrorRate * 100)}
+                    value={thresholds.maxErrorRate !== undefined ? thresholds.maxErrorRate * 100 : ''}
+                    onChange={(e) => {
+                      const percent = parseOptionalNumber(e.target.value);
+                      updateThreshold({ maxErrorRate: percent !== undefined ? percent / 100 : undefined });
+                    }}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500">Warn below score</span>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    placeholder={String(DEFAULT_THRESHOLDS.warnBelowScore)}
+                    value={thresholds.warnBelowScore ?? ''}
+                    onChange={(e) => updateThreshold({ warnBelowScore: parseOptionalNumber(e.target.value) })}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500">Warning penalty</span>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    placeholder={String(DEFAULT_WARNING_PENALTY)}
+                    value={draft.warningPenalty ?? ''}
+                    onChange={(e) => setDraft({ ...draft, warningPenalty: parseOptionalNumber(e.target.value) })}
+                  />
+                </label>
+                <label className="flex items-center gap-2 pb-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={thresholds.warnOnWarnings ?? DEFAULT_THRESHOLDS.warnOnWarnings}
+                    onChange={(e) => updateThreshold({ warnOnWarnings: e.target.checked })}
+                  />
+                  Warn on any warning
+                </label>
+              </div>
+            </section>
+
+            <div className="grid grid-cols-2 gap-6">
+              <section className="space-y-2">
+                <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Check severities</h4>
+                <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+                  {checks.map(check => (
+                    <div key={check.id} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                      <div className="min-w-0">
+                        <div className="text-sm text-slate-300 truncate">{check.label}</div>
+                        <div className="text-[11px] font-mono text-slate-500">{check.id}</div>
+                      </div>
+                      <select
+                        className={cn(inputClass, "w-32", draft.severities?.[check.id] && "border-blue-500/40")}
+                        value={draft.severities?.[check.id] ?? ''}
+                        onChange={(e) => updateSeverity(check.id, (e.target.value || undefined) as CheckSeverity | undefined)}
+                      >
+                        <option value="" className="bg-slate-900">{check.severity} (default)</option>
+                        {SEVERITY_OPTIONS.filter(level => level !== check.severity).map(level => (
+                          <option key={level} value={level} className="bg-slate-900">{level}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Field weights</h4>
+                <p className="text-xs text-slate-500">
+                  How much each field counts towards the dataset score. Unset fields weigh 1; 0 leaves a field out.
+                </p>
+                <div className="rounded-lg border border-white/10 divide-y divide-white/5">
+                  {columns.length === 0 && <p className="px-3 py-2 text-sm text-slate-500 italic">No mapped columns in this run.</p>}
+                  {columns.map(({ column, fieldId }) => (
+                    <div key={column} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                      <div className="min-w-0">
+                        <div className="text-sm text-slate-300 truncate">{column}</div>
+                        {fieldId && fieldId !== column && <div className="text-[11px] font-mono text-slate-500">{fieldId}</div>}
+                      </div>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className={cn(inputClass, "w-24")}
+                        placeholder={String(fieldId ? draft.fieldWeights?.[fieldId] ?? 1 : 1)}
+                        value={draft.fieldWeights?.[column] ?? ''}
+                        onChange={(e) => updateWeight(column, parseOptionalNumber(e.target.value))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-400 list-disc pl-5">
+                {errors.map(err => <li key={err}>{err}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-white/10">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => newProfile(draft, `${draft.name} (copy)`)}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10"
+            >
+              <Copy className="w-4 h-4" /> Clone
+            </button>
+            {savedId && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg hover:bg-red-500/20"
+              >
+                <Trash2 className="w-4 h-4" /> {isBuiltInProfile(savedId) ? 'Reset to default' : 'Delete'}
+              </button>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
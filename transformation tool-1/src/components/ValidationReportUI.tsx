@@ -1,17 +1,54 @@
 import React, { useState } from 'react';
-import { AlertTriangle, ChevronDown, ChevronRight, FileDown, Activity, ShieldCheck, ShieldAlert, ShieldX } from 'lucide-react';
-import type { ValidationReport } from '../types';
-import { cn } from '../lib/utils';
+import { AlertTriangle, FileDown, Activity, ShieldCheck, ShieldAlert, ShieldX, Gauge } from 'lucide-react';
+import type { ValidationProfile, ValidationReport } from '../types';
+import { cn, downloadBlob } from '../lib/utils';
+import { ReferentialIntegrityPanel, type ReferentialIntegrityPanelProps } from './ReferentialIntegrityPanel';
+import { IssueLog } from './IssueLog';
+import { REPORT_EXPORT_FORMATS, exportReport, reportFileName, reportToHTML, type ReportExportFormat } from '../lib/report-export';
 
 interface ValidationReportUIProps {
   report: ValidationReport;
   onProceed: () => void;
   onBack: () => void;
+  // Cross-dataset foreign key checks; the section is hidden when omitted
+  integrity?: ReferentialIntegrityPanelProps;
+  // Profile picker; changing the profile re-grades the run
+  profiles?: ValidationProfile[];
+  onProfileChange?: (id: string) => void;
+  onManageProfiles?: () => void;
+  // Name of the validated file, shown in exported reports
+  sourceName?: string;
 }
 
-export const ValidationReportUI: React.FC<ValidationReportUIProps> = ({ report, onProceed, onBack }) => {
-  const [showIssues, setShowIssues] = useState(true);
+// Prints the HTML report from a hidden frame, so the browser's print dialog can save it as PDF
+const printHTML = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return frame.remove();
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+};
+
+export const ValidationReportUI: React.FC<ValidationReportUIProps> = ({ report, onProceed, onBack, integrity, profiles, onProfileChange, onManageProfiles, sourceName }) => {
   const [selectedField, setSelectedField] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const handleExport = (format: ReportExportFormat) => {
+    setIsExportOpen(false);
+    const options = { sourceName, generatedAt: new Date() };
+    if (format === 'pdf') return printHTML(reportToHTML(report, options));
+    const { extension } = REPORT_EXPORT_FORMATS.find(f => f.id === format)!;
+    downloadBlob(exportReport(report, format, options), `${reportFileName(options)}.${extension}`);
+  };
 
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-green-400';
@@ -33,10 +70,6 @@ export const ValidationReportUI: React.FC<ValidationReportUIProps> = ({ report,
       }
   };
 
-  const filteredIssues = selectedField 
-    ? report.issues.filter(i => i.column === selectedField)
-    : report.issues;
-
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-500">
       <div className="flex items-center justify-between">
@@ -47,10 +80,54 @@ export const ValidationReportUI: React.FC<ValidationReportUIProps> = ({ report,
            </p>
         </div>
         <div className="flex gap-2">
-            <button className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors backdrop-blur-sm">
-                <FileDown className="w-4 h-4" />
-                Export Report
-            </button>
+            {profiles && onProfileChange && (
+                <div className="flex items-center">
+                    <select
+                        value={report.profile?.id ?? ''}
+                        onChange={(e) => onProfileChange(e.target.value)}
+                        title={report.profile?.description}
+                        className={cn(
+                            "px-3 py-1.5 text-sm text-slate-300 bg-white/5 border border-white/10 focus:outline-none backdrop-blur-sm",
+                            onManageProfiles ? "rounded-l-lg" : "rounded-lg"
+                        )}
+                    >
+                        {profiles.map(profile => (
+                            <option key={profile.id} value={profile.id} className="bg-slate-900">{profile.name}</option>
+                        ))}
+                    </select>
+                    {onManageProfiles && (
+                        <button
+                            onClick={onManageProfiles}
+                            title="Edit validation profiles"
+                            className="px-2.5 py-1.5 text-slate-300 bg-white/5 border border-l-0 border-white/10 rounded-r-lg hover:bg-white/10 hover:text-white transition-colors backdrop-blur-sm"
+                        >
+                            <Gauge className="w-4 h-4" />
+                        </button>
+                    )}
+                </div>
+            )}
+            <div className="relative">
+                <button
+                    onClick={() => setIsExportOpen(!isExportOpen)}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:text-white transition-colors backdrop-blur-sm"
+                >
+                    <FileDown className="w-4 h-4" />
+                    Export Report
+                </button>
+                {isExportOpen && (
+                    <div className="absolute right-0 mt-1 w-48 z-20 py-1 bg-slate-900/95 border border-white/10 rounded-lg shadow-xl backdrop-blur-md">
+                        {REPORT_EXPORT_FORMATS.map(format => (
+                            <button
+                                key={format.id}
+                                onClick={() => handleExport(format.id)}
+                                className="w-full text-left px-3 py-1.5 text-sm text-slate-300 hover:bg-white/10 hover:text-white"
+                            >
+                                {format.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
       </div>
 
@@ -174,67 +251,10 @@ export const ValidationReportUI: React.FC<ValidationReportUIProps> = ({ report,
         </div>
       </div>
 
-      {/* Issues Log */}
-      <div className="bg-black/40 backdrop-blur-md rounded-xl shadow-sm border border-white/10 overflow-hidden">
-        <div 
-            className="px-6 py-4 border-b border-white/10 bg-black/20 flex justify-between items-center cursor-pointer"
-            onClick={() => setShowIssues(!showIssues)}
-        >
-            <div className="flex items-center gap-2">
-                <AlertTriangle className="w-5 h-5 text-orange-400" />
-                <h3 className="text-sm font-semibold text-white">
-                    {selectedField ? `Issues for "${selectedField}"` : "Issue Log"}
-                </h3>
-                <span className="px-2 py-0.5 bg-white/10 text-slate-300 text-xs rounded-full font-medium">
-                    {filteredIssues.length} issues
-                </span>
-            </div>
-            {showIssues ? <ChevronDown className="w-5 h-5 text-slate-400" /> : <ChevronRight className="w-5 h-5 text-slate-400" />}
-        </div>
+      {integrity && <ReferentialIntegrityPanel {...integrity} results={report.referential_integrity} />}
 
-        {showIssues && (
-            <div className="max-h-96 overflow-y-auto custom-scrollbar">
-                <table className="w-full text-left text-sm">
-                    <thead className="bg-black/40 text-slate-400 border-b border-white/10 sticky top-0 z-10 backdrop-blur-md">
-                        <tr>
-                            <th className="px-6 py-2 font-medium w-20">Row</th>
-                            <th className="px-6 py-2 font-medium w-48">Column</th>
-                            <th className="px-6 py-2 font-medium w-48">Value</th>
-                            <th className="px-6 py-2 font-medium">Issue</th>
-                            <th className="px-6 py-2 font-medium w-24">Type</th>
-                        </tr>
-                    </thead>
-                    <tbody className="divide-y divide-white/10">
-                        {filteredIssues.length > 0 ? (
-                            filteredIssues.map((issue, idx) => (
-                                <tr key={idx} className="hover:bg-white/5 transition-colors">
-                                    <td className="px-6 py-2 text-slate-500 font-mono text-xs">{issue.row}</td>
-                                    <td className="px-6 py-2 font-medium text-slate-300">{issue.column}</td>
-                                    <td className="px-6 py-2 text-slate-400 font-mono text-xs truncate max-w-[200px]" title={String(issue.value)}>
-                                        {String(issue.value ?? 'null')}
-                                    </td>
-                                    <td className={cn("px-6 py-2 text-xs", issue.severity === 'error' ? 'text-red-400' : 'text-orange-400')}>
-                                        {issue.message}
-                                    </td>
-                                    <td className="px-6 py-2">
-                                        <span className="px-2 py-0.5 bg-white/5 text-slate-400 rounded text-[10px] uppercase font-medium border border-white/5">
-                                            {issue.type}
-                                        </span>
-                                    </td>
-                                </tr>
-                            ))
-                        ) : (
-                            <tr>
-                                <td colSpan={5} className="px-6 py-8 text-center text-slate-500 italic">
-                                    No issues found for this selection.
-                                </td>
-                            </tr>
-                        )}
-                    </tbody>
-                </table>
-            </div>
-        )}
-      </div>
+      {/* Issues Log */}
+      <IssueLog store={report.issue_log} selectedField={selectedField} onSelectField={setSelectedField} />
 
       <div className="flex items-center justify-between pt-4 border-t border-white/10">
         <button
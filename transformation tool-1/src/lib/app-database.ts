@@ -0,0 +1,40 @@
+// The browser's IndexedDB database for everything the app keeps between sessions:
+// user-defined schemas, validation profiles, cleaning recipes and categorical value maps, one
+// object store each, keyed by id.
+
+const DB_NAME = 'transformation-schemas';
+const DB_VERSION = 4;
+
+export type StoreName = 'schemas' | 'profiles' | 'recipes' | 'value_maps';
+const STORES: StoreName[] = ['schemas', 'profiles', 'recipes', 'value_maps'];
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORES.forEach(store => {
+        if (!request.result.objectStoreNames.contains(store)) {
+          request.result.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,25 @@
+// Distinct keys for duplicate checks, capped so streamed files keep memory bounded.
+// Once `capacity` keys are held no new keys are remembered: repeats of the keys already
+// held are still caught, but repeats of keys first seen after that point are not.
+export const MAX_TRACKED_KEYS = 1_000_000;
+
+export class BoundedKeySet<T> {
+  private keys = new Set<T>();
+  private capacity: number;
+
+  constructor(capacity: number = MAX_TRACKED_KEYS) {
+    this.capacity = capacity;
+  }
+
+  get size() {
+    return this.keys.size;
+  }
+
+  has(key: T) {
+    return this.keys.has(key);
+  }
+
+  add(key: T) {
+    if (this.keys.size < this.capacity) this.keys.add(key);
+  }
+}
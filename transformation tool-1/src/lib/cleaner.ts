@@ -1,10 +1,30 @@
-import type { DomainSchema, CleaningReport, CleaningStats, SemanticMapping } from '../types';
+import type { DomainSchema, CleaningRecipe, CleaningReport, CleaningStats, ImputedCell, SemanticMapping, ValueMap } from '../types';
 import { USER_SCHEMA } from './schemas';
 import type { UnifiedRecord } from './input-processor';
 import { processBatch } from './batch-processor';
-import { validateData } from './validator';
+import { createValidationSession } from './validator';
+import { applyTransform } from './cleaning-transforms';
+import { createImputer } from './imputation';
+import { OUTLIER_STATS, createOutlierTreatment, type OutlierTreatment } from './outliers';
+import { applyValueMap } from './value-maps';
+import { BoundedKeySet } from './bounded-key-set';
+import type { BatchIngestionResult } from '../types/validation';
 
 export const cleanUnifiedData = (records: UnifiedRecord[]): { cleanedRecords: UnifiedRecord[], stats: CleaningStats } => {
+  // 1. Text Cleaning Phase
+  const { cleanedRecords, stats } = cleanUnifiedText(records);
+
+  // 2. Run Batch Validation & Processing ON CLEANED RECORDS
+  // This ensures valid content (e.g. non-empty after cleaning)
+  const batchResult = processBatch(cleanedRecords);
+
+  return {
+    cleanedRecords: batchResult.successful_records,
+    stats: mergeBatchStats(stats, batchResult)
+  };
+};
+
+export const cleanUnifiedText = (records: UnifiedRecord[]): { cleanedRecords: UnifiedRecord[], stats: CleaningStats } => {
   const initial_records = records.length;
 
   // 1. Text Cleaning Phase (Legacy logic reused for normalization)
@@ -115,14 +135,18 @@ export const cleanUnifiedData = (records: UnifiedRecord[]): { cleanedRecords: Un
     });
   });
 
-  // 2. Run Batch Validation & Processing ON CLEANED RECORDS
-  // This ensures valid content (e.g. non-empty after cleaning)
-  const batchResult = processBatch(cleanedTextRecords);
+  cleaningStats.records_after_cleaning = cleanedTextRecords.length;
 
-  // 3. Merge Stats
+  return {
+    cleanedRecords: cleanedTextRecords,
+    stats: cleaningStats
+  };
+};
+
+export const mergeBatchStats = (cleaningStats: CleaningStats, batchResult: BatchIngestionResult): CleaningStats => {
   // We combine the cleaning stats with the validation stats
-  const finalStats: CleaningStats = {
-    initial_records: initial_records,
+  return {
+    initial_records: cleaningStats.initial_records,
     records_after_validation: batchResult.summary.total,
     records_after_cleaning: batchResult.successful_records.length,
     records_with_critical_errors: batchResult.summary.failed,
@@ -133,24 +157,69 @@ export const cleanUnifiedData = (records: UnifiedRecord[]): { cleanedRecords: Un
       'validation_passed': batchResult.summary.success
     }
   };
-
-  return {
-    cleanedRecords: batchResult.successful_records,
-    stats: finalStats
-  };
 };
 
 export const cleanData = (
   data: any[],
   mapping: Record<string, string>,
   semanticMapping: SemanticMapping,
-  _targetSchema: DomainSchema = USER_SCHEMA
+  targetSchema: DomainSchema = USER_SCHEMA,
+  recipe?: CleaningRecipe,
+  valueMaps?: Record<string, ValueMap>
 ): CleaningReport => {
-  const initial_records = data.length;
+  // Outlier bounds need every cleaned value, so outlier rules take a statistics pass first
+  let outliers: OutlierTreatment | undefined;
+  if (recipe?.outliers && Object.keys(recipe.outliers).length > 0) {
+    outliers = createOutlierTreatment(recipe.outliers);
+    outliers.observe(createCleaningSession(mapping, semanticMapping, targetSchema, recipe, undefined, valueMaps).addRows(data, 0));
+  }
+
+  const session = createCleaningSession(mapping, semanticMapping, targetSchema, recipe, outliers, valueMaps);
+  const cleaned_data = session.addRows(data, 0);
+  const { stats, dropped_rows } = session.finalize();
+
+  // Missing values are filled last, from the rows that survived cleaning
+  let imputed_cells: ImputedCell[] | undefined;
+  if (recipe?.imputation && Object.keys(recipe.imputation).length > 0) {
+    const imputer = createImputer(recipe.imputation);
+    imputer.observe(cleaned_data);
+    imputed_cells = imputer.apply(cleaned_data, 0);
+    Object.assign(stats.fixes_applied, imputer.counts());
+  }
+
+  return {
+    stats,
+    cleaned_data,
+    dropped_rows,
+    ...(recipe && { recipe }),
+    ...(imputed_cells && { imputed_cells })
+  };
+};
 
+/**
+ * Chunk-by-chunk cleaning. `addRows` returns the cleaned rows of a chunk that survived
+ * deduplication and post-cleaning validation; `finalize` returns the accumulated stats.
+ * Fields with steps in `recipe` are cleaned by those steps instead of by semantic type.
+ * With an observed `outliers` treatment, outliers in surviving rows are treated last and
+ * rows dropped as outliers count as dropped rows. `valueMaps` (by target field id) map
+ * categorical spellings to canonical labels on fields without recipe steps.
+ */
+export interface CleaningSession {
+  addRows: (rows: Record<string, unknown>[], offset: number) => Record<string, unknown>[];
+  finalize: () => { stats: CleaningStats; dropped_rows: number[] };
+}
+
+export const createCleaningSession = (
+  mapping: Record<string, string>,
+  semanticMapping: SemanticMapping,
+  _targetSchema: DomainSchema = USER_SCHEMA,
+  recipe?: CleaningRecipe,
+  outliers?: OutlierTreatment,
+  valueMaps?: Record<string, ValueMap>
+): CleaningSession => {
   const stats: CleaningStats = {
-    initial_records,
-    records_after_validation: initial_records,
+    initial_records: 0,
+    records_after_validation: 0,
     records_after_cleaning: 0,
     records_with_critical_errors: 0,
     records_with_warnings: 0,
@@ -159,8 +228,9 @@ export const cleanData = (
   };
 
   const dropped_rows: number[] = [];
-  const cleaned_data: any[] = [];
-  const seenIds = new Set<string | number>();
+  // Ids seen so far for deduplication, capped at MAX_TRACKED_KEYS distinct ids
+  const seenIds = new BoundedKeySet<string>();
+  let cleanedCount = 0;
 
   // Helper to increment stats
   const incrementStat = (key: string) => {
@@ -170,169 +240,221 @@ export const cleanData = (
   // Identify identifier columns for deduplication
   const identifierCols = Object.keys(semanticMapping).filter(col => semanticMapping[col] === 'identifier');
 
-  data.forEach((row, index) => {
-    const record: Record<string, any> = {};
-    let shouldDrop = false;
-
-    // 1. Row-level Checks (Identifier)
-    if (identifierCols.length > 0) {
-      const primaryIdCol = identifierCols[0];
-      const rawId = row[primaryIdCol];
-
-      if (rawId === null || rawId === undefined || String(rawId).trim() === '') {
-        shouldDrop = true;
-      } else {
-        const idVal = String(rawId).trim();
-        if (seenIds.has(idVal)) {
-          shouldDrop = true; // Duplicate ID
-        } else {
-          seenIds.add(idVal);
-        }
-      }
+  // Post-cleaning validation runs on target field names, shared across chunks for uniqueness checks
+  const targetSemanticMapping: SemanticMapping = {};
+  Object.keys(mapping).forEach(sourceCol => {
+    const targetCol = mapping[sourceCol];
+    if (semanticMapping[sourceCol]) {
+      targetSemanticMapping[targetCol] = semanticMapping[sourceCol];
     }
+  });
+  // Only each chunk's issues are read here, so the session keeps no issue log. Outliers are left
+  // to the recipe's outlier rules and never scanned, so it keeps no numeric samples either and
+  // records_with_warnings counts value-level warnings only
+  const validation = createValidationSession(targetSemanticMapping, { retainIssues: false, numericSampleSize: 0 });
 
-    if (shouldDrop) {
-      dropped_rows.push(index);
-      return;
-    }
+  const recipeSteps = Object.entries(recipe?.fields ?? {}).filter(([, steps]) => steps.length > 0);
+  const recipeFields = new Set(recipeSteps.map(([field]) => field));
+
+  const addRows = (data: Record<string, unknown>[], offset: number): Record<string, unknown>[] => {
+    stats.initial_records += data.length;
+    stats.records_after_validation += data.length;
+
+    const cleaned_data: Record<string, any>[] = [];
+    const sourceIndices: number[] = [];
+
+    data.forEach((row, chunkIndex) => {
+      const index = offset + chunkIndex;
+      const record: Record<string, any> = {};
+      let shouldDrop = false;
+
+      // 1. Row-level Checks (Identifier)
+      if (identifierCols.length > 0) {
+        const primaryIdCol = identifierCols[0];
+        const rawId = row[primaryIdCol];
 
-    // 2. Field-level Cleaning based on Semantic Type
-    Object.keys(mapping).forEach(sourceCol => {
-      const targetField = mapping[sourceCol];
-      const semanticType = semanticMapping[sourceCol] || 'free_text';
-      let value = row[sourceCol];
-      const originalValue = value;
+        if (rawId === null || rawId === undefined || String(rawId).trim() === '') {
+          shouldDrop = true;
+        } else {
+          const idVal = String(rawId).trim();
+          if (seenIds.has(idVal)) {
+            shouldDrop = true; // Duplicate ID
+          } else {
+            seenIds.add(idVal);
+          }
+        }
+      }
 
-      if (value === null || value === undefined) {
-        record[targetField] = null;
+      if (shouldDrop) {
+        dropped_rows.push(index);
         return;
       }
 
-      switch (semanticType) {
-        case 'name':
-          if (typeof value === 'string') {
-            value = value.trim().replace(/\w\S*/g, (txt) => txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase());
-            if (value !== originalValue) incrementStat('names_formatted');
-          }
-          break;
-
-        case 'contact_info':
-          if (typeof value === 'string') {
-            const strVal = value.trim();
-            if (strVal.includes('@')) {
-              const emailVal = strVal.toLowerCase();
-              if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailVal)) {
-                value = null;
+      // 2. Field-level Cleaning based on Semantic Type
+      Object.keys(mapping).forEach(sourceCol => {
+        const targetField = mapping[sourceCol];
+        const semanticType = semanticMapping[sourceCol] || 'free_text';
+        let value = row[sourceCol];
+        const originalValue = value;
+
+        if (value === null || value === undefined || recipeFields.has(targetField)) {
+          record[targetField] = value ?? null;
+          return;
+        }
+
+        switch (semanticType) {
+          case 'name':
+            if (typeof value === 'string') {
+              value = value.trim().replace(/\w\S*/g, (txt) => txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase());
+              if (value !== originalValue) incrementStat('names_formatted');
+            }
+            break;
+
+          case 'contact_info':
+            if (typeof value === 'string') {
+              const strVal = value.trim();
+              if (strVal.includes('@')) {
+                const emailVal = strVal.toLowerCase();
+                if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailVal)) {
+                  value = null;
+                } else {
+                  if (emailVal !== value) incrementStat('emails_lowercased');
+                  value = emailVal;
+                }
               } else {
-                if (emailVal !== value) incrementStat('emails_lowercased');
-                value = emailVal;
+                const digits = strVal.replace(/\D/g, '');
+                if (digits.length < 7 || digits.length > 15) {
+                  value = null;
+                } else {
+                  if (digits !== strVal) incrementStat('phones_normalized');
+                  value = digits;
+                }
               }
+            }
+            break;
+
+          case 'date':
+            const date = new Date(value as string | number);
+            if (isNaN(date.getTime())) {
+              value = null;
             } else {
-              const digits = strVal.replace(/\D/g, '');
-              if (digits.length < 7 || digits.length > 15) {
-                value = null;
-              } else {
-                if (digits !== strVal) incrementStat('phones_normalized');
-                value = digits;
+              const formatted = date.toISOString().split('T')[0];
+              if (formatted !== value) incrementStat('dates_standardized');
+              value = formatted;
+            }
+            break;
+
+          case 'numeric_amount':
+            const numStr = String(value).replace(/[^0-9.-]/g, '');
+            const parsed = parseFloat(numStr);
+            if (isNaN(parsed) || parsed < 0) {
+              value = null;
+              if (!isNaN(parsed) && parsed < 0) incrementStat('negative_values_nullified');
+            } else {
+              value = parsed;
+              if (value !== originalValue) {
+                incrementStat('numerics_standardized');
               }
             }
-          }
-          break;
-
-        case 'date':
-          const date = new Date(value);
-          if (isNaN(date.getTime())) {
-            value = null;
-          } else {
-            const formatted = date.toISOString().split('T')[0];
-            if (formatted !== value) incrementStat('dates_standardized');
-            value = formatted;
-          }
-          break;
-
-        case 'numeric_amount':
-          const numStr = String(value).replace(/[^0-9.-]/g, '');
-          const parsed = parseFloat(numStr);
-          if (isNaN(parsed) || parsed < 0) {
-            value = null;
-            if (!isNaN(parsed) && parsed < 0) incrementStat('negative_values_nullified');
-          } else {
-            value = parsed;
-            if (value !== originalValue) {
-              incrementStat('numerics_standardized');
+            break;
+
+          case 'boolean_flag':
+            const boolStr = String(value).toLowerCase();
+            if (['true', '1', 'yes', 'on', 'active'].includes(boolStr)) {
+              value = true;
+            } else if (['false', '0', 'no', 'off', 'inactive'].includes(boolStr)) {
+              value = false;
+            } else {
+              value = null;
             }
-          }
-          break;
-
-        case 'boolean_flag':
-          const boolStr = String(value).toLowerCase();
-          if (['true', '1', 'yes', 'on', 'active'].includes(boolStr)) {
-            value = true;
-          } else if (['false', '0', 'no', 'off', 'inactive'].includes(boolStr)) {
-            value = false;
-          } else {
-            value = null;
-          }
-          if (value !== originalValue) incrementStat('booleans_normalized');
-          break;
-
-        case 'categorical':
-        case 'identifier':
-        case 'free_text':
-        default:
-          if (typeof value === 'string') {
-            value = value.trim();
-            if (value !== originalValue) incrementStat('text_trimmed');
-          }
-          break;
-      }
+            if (value !== originalValue) incrementStat('booleans_normalized');
+            break;
+
+          case 'categorical':
+          case 'identifier':
+          case 'free_text':
+          default:
+            if (typeof value === 'string') {
+              value = value.trim();
+              if (value !== originalValue) incrementStat('text_trimmed');
+            }
+            break;
+        }
 
-      record[targetField] = value;
+        // Learned synonyms of the field replace the cleaned spelling with its canonical label
+        const valueMap = valueMaps?.[targetField];
+        if (valueMap) {
+          const mapped = applyValueMap(valueMap, value);
+          if (mapped !== value) incrementStat('categories_standardized');
+          value = mapped;
+        }
+
+        record[targetField] = value;
+      });
+
+      // 3. Recipe steps, field by field in recipe order, over the record cleaned so far
+      recipeSteps.forEach(([field, steps]) => {
+        let value = record[field] ?? null;
+        steps.forEach(step => {
+          const next = applyTransform(step.transform, value, step.params, { field, record });
+          if (next !== value) incrementStat(step.transform);
+          value = next;
+        });
+        record[field] = value;
+      });
+
+      cleaned_data.push(record);
+      sourceIndices.push(index);
     });
 
-    cleaned_data.push(record);
-  });
+    // 4. Post-Cleaning Validation Stage
+    const chunkIssues = validation.addRows(cleaned_data, cleanedCount);
 
-  // 3. Post-Cleaning Validation Stage
-  const targetSemanticMapping: SemanticMapping = {};
-  Object.keys(mapping).forEach(sourceCol => {
-    const targetCol = mapping[sourceCol];
-    if (semanticMapping[sourceCol]) {
-      targetSemanticMapping[targetCol] = semanticMapping[sourceCol];
-    }
-  });
+    // 5. Handle Critical Errors
+    const rowsWithCriticalErrors = new Set<number>();
+    const rowsWithWarnings = new Set<number>();
 
-  const validationReport = validateData(cleaned_data, targetSemanticMapping);
+    chunkIssues.forEach(issue => {
+      const arrayIndex = issue.row - 1 - cleanedCount;
+      if (issue.severity === 'critical') {
+        rowsWithCriticalErrors.add(arrayIndex);
+      } else if (issue.severity === 'warning') {
+        rowsWithWarnings.add(arrayIndex);
+      }
+    });
+    cleanedCount += cleaned_data.length;
 
-  // 4. Handle Critical Errors
-  const rowsWithCriticalErrors = new Set<number>();
-  const rowsWithWarnings = new Set<number>();
+    stats.records_with_critical_errors += rowsWithCriticalErrors.size;
+    stats.records_with_warnings += rowsWithWarnings.size;
 
-  validationReport.issues.forEach(issue => {
-    const arrayIndex = issue.row - 1;
-    if (issue.severity === 'critical') {
-      rowsWithCriticalErrors.add(arrayIndex);
-    } else if (issue.severity === 'warning') {
-      rowsWithWarnings.add(arrayIndex);
-    }
-  });
+    rowsWithCriticalErrors.forEach(idx => {
+      dropped_rows.push(sourceIndices[idx]);
+    });
 
-  stats.records_with_critical_errors = rowsWithCriticalErrors.size;
-  stats.records_with_warnings = rowsWithWarnings.size;
+    let survivors = cleaned_data.map((_, idx) => idx).filter(idx => !rowsWithCriticalErrors.has(idx));
 
-  const finalCleanedData = cleaned_data.filter((_, idx) => !rowsWithCriticalErrors.has(idx));
+    // 6. Outlier Treatment
+    if (outliers) {
+      const outlierRows = new Set<number>();
+      outliers.apply(survivors.map(idx => cleaned_data[idx])).forEach(({ index, action }) => {
+        incrementStat(OUTLIER_STATS[action]);
+        if (action === 'drop') outlierRows.add(survivors[index]);
+      });
+      outlierRows.forEach(idx => dropped_rows.push(sourceIndices[idx]));
+      survivors = survivors.filter(idx => !outlierRows.has(idx));
+    }
 
-  rowsWithCriticalErrors.forEach(idx => {
-    if (!dropped_rows.includes(idx)) dropped_rows.push(idx);
-  });
-  dropped_rows.sort((a, b) => a - b);
+    const finalCleanedData = survivors.map(idx => cleaned_data[idx]);
+    stats.records_after_cleaning += finalCleanedData.length;
 
-  stats.records_after_cleaning = finalCleanedData.length;
-  stats.dropped_records = dropped_rows.length;
+    return finalCleanedData;
+  };
 
-  return {
-    stats,
-    cleaned_data: finalCleanedData,
-    dropped_rows
+  const finalize = () => {
+    dropped_rows.sort((a, b) => a - b);
+    stats.dropped_records = dropped_rows.length;
+    return { stats, dropped_rows };
   };
+
+  return { addRows, finalize };
 };
@@ -0,0 +1,144 @@
+import type { CleaningRecipe, CleaningStep, ImputationRule, OutlierRule, RecipeRegistry } from '../types';
+import { withStore } from './app-database';
+import { stepOutputFields, validateStep } from './cleaning-transforms';
+import { validateImputationRule } from './imputation';
+import { validateOutlierRule } from './outliers';
+
+// Cleaning recipes: ordered transform steps per target field, stored in IndexedDB and
+// exported as JSON so the same cleaning can be replayed on the next delivery of a file.
+
+export const RECIPE_FORMAT_VERSION = 1;
+
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
+
+export const loadRecipes = async (): Promise<RecipeRegistry> => {
+  const stored = await withStore<CleaningRecipe[]>('recipes', 'readonly', store => store.getAll());
+  return Object.fromEntries(stored.map(recipe => [recipe.id, recipe]));
+};
+
+export const saveRecipe = async (recipe: CleaningRecipe): Promise<void> => {
+  await withStore('recipes', 'readwrite', store => store.put(recipe));
+};
+
+export const deleteRecipe = async (id: string): Promise<void> => {
+  await withStore('recipes', 'readwrite', store => store.delete(id));
+};
+
+/** Problems that would stop a recipe from running; empty when valid. */
+export const validateRecipe = (recipe: CleaningRecipe): string[] => {
+  const errors: string[] = [];
+  if (!recipe.id.trim()) errors.push('Recipe id is required');
+  if (!recipe.name.trim()) errors.push('Recipe name is required');
+  Object.entries(recipe.fields).forEach(([field, steps]) => {
+    if (!field.trim()) errors.push('Field names cannot be empty');
+    steps.forEach((step, idx) => {
+      validateStep(step.transform, step.params).forEach(err => errors.push(`${field} step ${idx + 1}: ${err}`));
+    });
+  });
+  Object.entries(recipe.imputation ?? {}).forEach(([field, rule]) => errors.push(...validateImputationRule(field, rule)));
+  Object.entries(recipe.outliers ?? {}).forEach(([field, rule]) => errors.push(...validateOutlierRule(field, rule)));
+  return errors;
+};
+
+/** Fields a recipe writes, including new ones created by merges and splits, in recipe order. */
+export const recipeFields = (recipe: CleaningRecipe): string[] => {
+  const fields = new Set<string>();
+  Object.entries(recipe.fields).forEach(([field, steps]) => {
+    fields.add(field);
+    steps.forEach(step => stepOutputFields(step.transform, step.params).forEach(f => fields.add(f)));
+  });
+  return Array.from(fields);
+};
+
+export const exportRecipes = (recipes: CleaningRecipe[]): string =>
+  JSON.stringify({ version: RECIPE_FORMAT_VERSION, recipes }, null, 2);
+
+const toStep = (raw: unknown, field: string): CleaningStep => {
+  if (typeof raw !== 'object' || raw === null || typeof (raw as CleaningStep).transform !== 'string') {
+    throw new RecipeImportError(`Steps of "${field}" need a string "transform"`);
+  }
+  const { transform, params } = raw as CleaningStep;
+  return typeof params === 'object' && params !== null ? { transform, params } : { transform };
+};
+
+const toImputationRule = (raw: unknown, field: string): ImputationRule => {
+  const rule = raw as Record<string, unknown> | null;
+  if (typeof rule !== 'object' || rule === null || typeof rule.strategy !== 'string') {
+    throw new RecipeImportError(`Imputation of "${field}" needs a string "strategy"`);
+  }
+  const features = Array.isArray(rule.features) ? rule.features.filter((f): f is string => typeof f === 'string') : undefined;
+  return {
+    strategy: rule.strategy as ImputationRule['strategy'],
+    ...(['string', 'number', 'boolean'].includes(typeof rule.value) && { value: rule.value as ImputationRule['value'] }),
+    ...(typeof rule.orderBy === 'string' && { orderBy: rule.orderBy }),
+    ...(typeof rule.groupBy === 'string' && { groupBy: rule.groupBy }),
+    ...(typeof rule.neighbors === 'number' && { neighbors: rule.neighbors }),
+    ...(features && { features })
+  };
+};
+
+const toOutlierRule = (raw: unknown, field: string): OutlierRule => {
+  const rule = raw as Record<string, unknown> | null;
+  if (typeof rule !== 'object' || rule === null || typeof rule.detector !== 'string' || typeof rule.action !== 'string') {
+    throw new RecipeImportError(`Outliers of "${field}" need a string "detector" and "action"`);
+  }
+  const percentiles = Array.isArray(rule.percentiles) && rule.percentiles.length === 2 && rule.percentiles.every(p => typeof p === 'number')
+    ? rule.percentiles as [number, number]
+    : undefined;
+  return {
+    detector: rule.detector as OutlierRule['detector'],
+    action: rule.action as OutlierRule['action'],
+    ...(typeof rule.threshold === 'number' && { threshold: rule.threshold }),
+    ...(percentiles && { percentiles })
+  };
+};
+
+/** Reads recipes from exported JSON: a { recipes: [...] } document, an array or a single recipe. */
+export const parseRecipeImport = (text: string): CleaningRecipe[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new RecipeImportError('File is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && Array.isArray((parsed as { recipes?: unknown }).recipes)
+      ? (parsed as { recipes: unknown[] }).recipes
+      : [parsed];
+
+  return list.map(raw => {
+    const recipe = raw as Record<string, unknown> | null;
+    if (typeof recipe !== 'object' || recipe === null || typeof recipe.id !== 'string' || typeof recipe.fields !== 'object' || recipe.fields === null) {
+      throw new RecipeImportError('Recipe entries need a string "id" and a "fields" object');
+    }
+    const imputation = typeof recipe.imputation === 'object' && recipe.imputation !== null
+      ? Object.fromEntries(Object.entries(recipe.imputation).map(([field, rule]) => [field, toImputationRule(rule, field)]))
+      : undefined;
+    const outliers = typeof recipe.outliers === 'object' && recipe.outliers !== null
+      ? Object.fromEntries(Object.entries(recipe.outliers).map(([field, rule]) => [field, toOutlierRule(rule, field)]))
+      : undefined;
+    const result: CleaningRecipe = {
+      id: recipe.id,
+      name: typeof recipe.name === 'string' ? recipe.name : recipe.id,
+      ...(typeof recipe.description === 'string' && { description: recipe.description }),
+      fields: Object.fromEntries(
+        Object.entries(recipe.fields as Record<string, unknown>).map(([field, steps]) => {
+          if (!Array.isArray(steps)) throw new RecipeImportError(`Steps of "${field}" must be an array`);
+          return [field, steps.map(step => toStep(step, field))];
+        })
+      ),
+      ...(imputation && { imputation }),
+      ...(outliers && { outliers })
+    };
+    const errors = validateRecipe(result);
+    if (errors.length > 0) throw new RecipeImportError(`Recipe "${result.id}": ${errors[0]}`);
+    return result;
+  });
+};
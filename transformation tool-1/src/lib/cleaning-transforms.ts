@@ -0,0 +1,342 @@
+// Registry of cleaning transforms that recipes compose per field. A transform takes the
+// current value of a field and its step parameters and returns the new value; split and
+// merge also read or write other fields of the record through the context.
+
+export type TransformParamType = 'string' | 'number' | 'boolean' | 'select' | 'fields' | 'mapping';
+
+export interface TransformParam {
+  name: string;
+  label: string;
+  type: TransformParamType;
+  options?: string[];   // Choices of a 'select' param
+  default?: unknown;
+  required?: boolean;
+}
+
+export interface TransformContext {
+  field: string;                    // Target field the step belongs to
+  record: Record<string, unknown>;  // Cleaned record so far, keyed by target field
+}
+
+export interface CleaningTransform {
+  id: string;
+  label: string;
+  description: string;
+  params: TransformParam[];
+  apply: (value: unknown, params: Record<string, unknown>, context: TransformContext) => unknown;
+}
+
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const toText = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value));
+
+const stringParam = (params: Record<string, unknown>, name: string, fallback = '') =>
+  typeof params[name] === 'string' ? (params[name] as string) : fallback;
+
+const numberParam = (params: Record<string, unknown>, name: string): number | undefined =>
+  typeof params[name] === 'number' && !isNaN(params[name] as number) ? (params[name] as number) : undefined;
+
+const listParam = (params: Record<string, unknown>, name: string): string[] =>
+  Array.isArray(params[name]) ? (params[name] as unknown[]).filter((v): v is string => typeof v === 'string' && v !== '') : [];
+
+// --- Dates ---
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Format tokens, longest first so "YYYY" is not read as two "YY"
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: '(?<year>\\d{4})',
+  YY: '(?<shortYear>\\d{2})',
+  MMM: '(?<monthName>[a-z]{3,9})\\.?',
+  MM: '(?<month>\\d{2})',
+  M: '(?<month>\\d{1,2})',
+  DD: '(?<day>\\d{2})',
+  D: '(?<day>\\d{1,2})',
+  HH: '(?<hour>\\d{2})',
+  mm: '(?<minute>\\d{2})',
+  ss: '(?<second>\\d{2})'
+};
+
+const datePatternCache = new Map<string, RegExp>();
+
+const datePattern = (format: string): RegExp => {
+  let regex = datePatternCache.get(format);
+  if (!regex) {
+    const source = format
+      .split(/(YYYY|YY|MMM|MM|M|DD|D|HH|mm|ss)/)
+      .map(part => DATE_TOKENS[part] ?? part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    regex = new RegExp(`^${source}$`, 'i');
+    datePatternCache.set(format, regex);
+  }
+  return regex;
+};
+
+/** Parses a date written in the given format (e.g. "DD/MM/YYYY", "D MMM YYYY"); null when it doesn't match. */
+export const parseDateWithFormat = (text: string, format: string): Date | null => {
+  const groups = text.trim().match(datePattern(format))?.groups;
+  if (!groups) return null;
+  const year = groups.year ? +groups.year : groups.shortYear ? 2000 + +groups.shortYear - (+groups.shortYear > 50 ? 100 : 0) : NaN;
+  const month = groups.monthName ? MONTH_NAMES.indexOf(groups.monthName.slice(0, 3).toLowerCase()) + 1 : +(groups.month ?? 1);
+  const day = +(groups.day ?? 1);
+  const date = new Date(Date.UTC(year, month - 1, day, +(groups.hour ?? 0), +(groups.minute ?? 0), +(groups.second ?? 0)));
+  // Reject rollovers such as 31/02
+  return isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day ? null : date;
+};
+
+// Auto-detected dates keep the calendar date and time as written. Strings other than ISO dates
+// ("01/05/2024", "Jan 5, 2024") are read as local time, which toISOString would shift to UTC.
+const parseDateAuto = (text: string): Date => {
+  const date = new Date(text);
+  if (isNaN(date.getTime()) || /^\d{4}-\d{2}-\d{2}$|(?:Z|[+-]\d{2}:?\d{2})$/i.test(text.trim())) return date;
+  return new Date(Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  ));
+};
+
+// Compiled regex_replace patterns by flags and source, so each step compiles its pattern once
+const replacePatternCache = new Map<string, RegExp>();
+
+const replacePattern = (pattern: string, flags: string): RegExp => {
+  const key = `${flags}/${pattern}`;
+  let regex = replacePatternCache.get(key);
+  if (!regex) {
+    regex = new RegExp(pattern, flags);
+    replacePatternCache.set(key, regex);
+  }
+  regex.lastIndex = 0; // Sticky patterns resume from lastIndex
+  return regex;
+};
+
+// --- Transforms ---
+
+const titleCase = (text: string) => text.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, sep: string, c: string) => sep + c.toUpperCase());
+
+const TRANSFORMS: CleaningTransform[] = [
+  {
+    id: 'trim',
+    label: 'Trim whitespace',
+    description: 'Removes surrounding whitespace and optionally collapses inner runs of spaces',
+    params: [
+      { name: 'collapse', label: 'Collapse inner spaces', type: 'boolean', default: false },
+      { name: 'emptyAsNull', label: 'Empty text becomes null', type: 'boolean', default: true }
+    ],
+    apply: (value, params) => {
+      if (typeof value !== 'string') return value;
+      let text = value.trim();
+      if (params.collapse) text = text.replace(/\s+/g, ' ');
+      return text === '' && params.emptyAsNull !== false ? null : text;
+    }
+  },
+  {
+    id: 'case',
+    label: 'Change case',
+    description: 'Converts text to lower, upper, title or sentence case',
+    params: [{ name: 'mode', label: 'Case', type: 'select', options: ['lower', 'upper', 'title', 'sentence'], default: 'lower', required: true }],
+    apply: (value, params) => {
+      if (typeof value !== 'string') return value;
+      switch (stringParam(params, 'mode', 'lower')) {
+        case 'upper': return value.toUpperCase();
+        case 'title': return titleCase(value);
+        case 'sentence': return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+        default: return value.toLowerCase();
+      }
+    }
+  },
+  {
+    id: 'regex_replace',
+    label: 'Regex replace',
+    description: 'Replaces matches of a regular expression; $1, $2 refer to capture groups',
+    params: [
+      { name: 'pattern', label: 'Pattern', type: 'string', required: true },
+      { name: 'replacement', label: 'Replacement', type: 'string', default: '' },
+      { name: 'flags', label: 'Flags', type: 'string', default: 'g' }
+    ],
+    apply: (value, params) => {
+      if (isEmpty(value)) return value;
+      const regex = replacePattern(stringParam(params, 'pattern'), stringParam(params, 'flags', 'g'));
+      return toText(value).replace(regex, stringParam(params, 'replacement'));
+    }
+  },
+  {
+    id: 'parse_number',
+    label: 'Parse number',
+    description: 'Reads numbers with currency symbols, grouping and a chosen decimal separator',
+    params: [
+      { name: 'decimalSeparator', label: 'Decimal separator', type: 'select', options: ['.', ','], default: '.' },
+      { name: 'invalidAsNull', label: 'Unparseable becomes null', type: 'boolean', default: true }
+    ],
+    apply: (value, params) => {
+      if (typeof value === 'number' || isEmpty(value)) return value;
+      const decimal = stringParam(params, 'decimalSeparator', '.');
+      let text = toText(value).trim().replace(/^\((.*)\)$/, '-$1'); // Accounting negatives: (1,234)
+      text = text.replace(decimal === ',' ? /[^\d,+-]/g : /[^\d.+-]/g, '');
+      if (decimal === ',') text = text.replace(',', '.');
+      const parsed = text === '' ? NaN : Number(text);
+      if (!isNaN(parsed)) return parsed;
+      return params.invalidAsNull === false ? value : null;
+    }
+  },
+  {
+    id: 'parse_date',
+    label: 'Parse date',
+    description: 'Reads dates in a given format (e.g. DD/MM/YYYY) and writes them as ISO dates',
+    params: [
+      { name: 'format', label: 'Input format (blank = auto)', type: 'string', default: '' },
+      { name: 'output', label: 'Output', type: 'select', options: ['date', 'datetime'], default: 'date' },
+      { name: 'invalidAsNull', label: 'Unparseable becomes null', type: 'boolean', default: true }
+    ],
+    apply: (value, params) => {
+      if (isEmpty(value)) return value;
+      const format = stringParam(params, 'format');
+      const date = value instanceof Date
+        ? value
+        : format
+          ? parseDateWithFormat(toText(value), format)
+          : parseDateAuto(toText(value));
+      if (!date || isNaN(date.getTime())) return params.invalidAsNull === false ? value : null;
+      const iso = date.toISOString();
+      return stringParam(params, 'output', 'date') === 'datetime' ? iso : iso.slice(0, 10);
+    }
+  },
+  {
+    id: 'clamp',
+    label: 'Clamp to range',
+    description: 'Keeps numbers within min and max, either by capping them or by nulling them',
+    params: [
+      { name: 'min', label: 'Min', type: 'number' },
+      { name: 'max', label: 'Max', type: 'number' },
+      { name: 'mode', label: 'Out of range', type: 'select', options: ['cap', 'null'], default: 'cap' }
+    ],
+    apply: (value, params) => {
+      const number = typeof value === 'number' ? value : isEmpty(value) ? NaN : Number(value);
+      if (isNaN(number)) return value;
+      const min = numberParam(params, 'min');
+      const max = numberParam(params, 'max');
+      const capped = Math.min(max ?? Infinity, Math.max(min ?? -Infinity, number));
+      if (capped === number) return number;
+      return stringParam(params, 'mode', 'cap') === 'null' ? null : capped;
+    }
+  },
+  {
+    id: 'map_values',
+    label: 'Map values',
+    description: 'Replaces listed values with their mapped value, e.g. "M" -> "Male"',
+    params: [
+      { name: 'mapping', label: 'Value -> replacement', type: 'mapping', required: true },
+      { name: 'caseSensitive', label: 'Case sensitive', type: 'boolean', default: false },
+      { name: 'unmatched', label: 'Unmatched values', type: 'select', options: ['keep', 'null'], default: 'keep' }
+    ],
+    apply: (value, params) => {
+      if (isEmpty(value)) return value;
+      const mapping = (params.mapping ?? {}) as Record<string, string>;
+      const text = toText(value).trim();
+      if (params.caseSensitive) {
+        if (Object.prototype.hasOwnProperty.call(mapping, text)) return mapping[text];
+      } else {
+        const key = Object.keys(mapping).find(k => k.toLowerCase() === text.toLowerCase());
+        if (key !== undefined) return mapping[key];
+      }
+      return stringParam(params, 'unmatched', 'keep') === 'null' ? null : value;
+    }
+  },
+  {
+    id: 'split',
+    label: 'Split into fields',
+    description: 'Splits the value on a separator and writes the parts into other fields',
+    params: [
+      { name: 'separator', label: 'Separator', type: 'string', default: ' ', required: true },
+      { name: 'into', label: 'Into fields', type: 'fields', required: true },
+      { name: 'keepSource', label: 'Keep this field', type: 'boolean', default: true }
+    ],
+    apply: (value, params, { record }) => {
+      const into = listParam(params, 'into');
+      const parts = isEmpty(value) ? [] : toText(value).split(stringParam(params, 'separator', ' ')).map(p => p.trim());
+      // The last field takes whatever is left, so "Mary Ann Smith" -> ["Mary", "Ann Smith"] with two fields
+      into.forEach((field, idx) => {
+        const part = idx === into.length - 1 ? parts.slice(idx).join(stringParam(params, 'separator', ' ')) : parts[idx];
+        record[field] = part === undefined || part === '' ? null : part;
+      });
+      return params.keepSource === false ? null : value;
+    }
+  },
+  {
+    id: 'merge',
+    label: 'Merge fields',
+    description: 'Joins the values of several fields with a separator, skipping empty ones',
+    params: [
+      { name: 'fields', label: 'Fields', type: 'fields', required: true },
+      { name: 'separator', label: 'Separator', type: 'string', default: ' ' }
+    ],
+    apply: (value, params, { field, record }) => {
+      const parts = listParam(params, 'fields')
+        .map(name => (name === field ? value : record[name]))
+        .filter(part => !isEmpty(part))
+        .map(toText);
+      return parts.length > 0 ? parts.join(stringParam(params, 'separator', ' ')) : null;
+    }
+  }
+];
+
+export const CLEANING_TRANSFORMS: Record<string, CleaningTransform> = Object.fromEntries(TRANSFORMS.map(t => [t.id, t]));
+
+/** Adds a transform to the registry, so recipes can refer to it by id. */
+export const registerTransform = (transform: CleaningTransform) => {
+  CLEANING_TRANSFORMS[transform.id] = transform;
+};
+
+/** Fields a step writes besides its own, e.g. the targets of a split. */
+export const stepOutputFields = (transform: string, params: Record<string, unknown> = {}): string[] =>
+  transform === 'split' ? listParam(params, 'into') : [];
+
+/** Problems with one step's transform id or parameters; empty when the step can run. */
+export const validateStep = (transform: string, params: Record<string, unknown> = {}): string[] => {
+  const definition = CLEANING_TRANSFORMS[transform];
+  if (!definition) return [`Unknown transform "${transform}"`];
+  const errors: string[] = [];
+  definition.params.forEach(param => {
+    const value = params[param.name];
+    const missing = value === undefined || value === '' ||
+      (param.type === 'fields' && listParam(params, param.name).length === 0) ||
+      (param.type === 'mapping' && (typeof value !== 'object' || value === null || Object.keys(value).length === 0));
+    if (param.required && missing) errors.push(`${definition.label}: "${param.label}" is required`);
+    if (param.type === 'select' && value !== undefined && !param.options?.includes(String(value))) {
+      errors.push(`${definition.label}: "${String(value)}" is not a valid ${param.label.toLowerCase()}`);
+    }
+  });
+  if (transform === 'regex_replace') {
+    try {
+      new RegExp(stringParam(params, 'pattern'), stringParam(params, 'flags', 'g'));
+    } catch {
+      errors.push(`Regex replace: invalid pattern or flags`);
+    }
+  }
+  const min = numberParam(params, 'min');
+  const max = numberParam(params, 'max');
+  if (transform === 'clamp' && min !== undefined && max !== undefined && min > max) errors.push('Clamp: min is above max');
+  return errors;
+};
+
+/** Runs one step, throwing a TransformError naming the transform when it is unknown or fails. */
+export const applyTransform = (
+  transform: string,
+  value: unknown,
+  params: Record<string, unknown> = {},
+  context: TransformContext
+): unknown => {
+  const definition = CLEANING_TRANSFORMS[transform];
+  if (!definition) throw new TransformError(`Unknown transform "${transform}"`);
+  try {
+    return definition.apply(value, params, context);
+  } catch (err) {
+    throw new TransformError(`${definition.label} failed on "${context.field}": ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
@@ -0,0 +1,159 @@
+import type { ColumnProfile, HistogramBin, NumericSummary, ValueFrequency } from '../types';
+import { ReservoirSample } from './reservoir-sample';
+
+// Per-column profile accumulated value by value, so it works for streamed files too.
+// Frequencies are exact until MAX_TRACKED_VALUES distinct values; numeric medians and
+// histograms come from a bounded reservoir sample (exact for smaller columns).
+
+const TOP_K = 10;
+const TOP_PATTERNS = 5;
+const MAX_TRACKED_VALUES = 10_000;
+const MAX_TRACKED_PATTERNS = 1_000;
+const NUMERIC_SAMPLE_SIZE = 10_000;
+const HISTOGRAM_BINS = 20;
+const MAX_SIGNATURE_LENGTH = 24;
+
+// Share of non-null values that must parse as numbers before numeric stats are reported
+const NUMERIC_SHARE = 0.5;
+
+/**
+ * Shape of a value with letters as A/a and digits as 9, punctuation kept:
+ * "ABC-123" -> "AAA-999", "john@x.com" -> "aaaa@a.aaa".
+ */
+export const patternSignature = (value: string): string => {
+  const signature = value
+    .slice(0, MAX_SIGNATURE_LENGTH)
+    .replace(/[A-Z]/g, 'A')
+    .replace(/[a-z]/g, 'a')
+    .replace(/[0-9]/g, '9');
+  return value.length > MAX_SIGNATURE_LENGTH ? `${signature}…` : signature;
+};
+
+// Numbers, or strings that are numbers once currency, grouping and percent marks are removed
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim().replace(/[$€£¥₹%\s,]/g, '');
+  if (cleaned === '' || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+const bump = (map: Map<string, number>, key: string, cap: number): boolean => {
+  const current = map.get(key);
+  if (current !== undefined) {
+    map.set(key, current + 1);
+    return true;
+  }
+  if (map.size >= cap) return false;
+  map.set(key, 1);
+  return true;
+};
+
+const topEntries = (map: Map<string, number>, k: number): ValueFrequency[] =>
+  Array.from(map.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, k)
+    .map(([value, count]) => ({ value, count }));
+
+export const buildHistogram = (values: number[], bins = HISTOGRAM_BINS): HistogramBin[] => {
+  if (values.length === 0) return [];
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === max) return [{ start: min, end: max, count: values.length }];
+
+  const width = (max - min) / bins;
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0
+  }));
+  for (const v of values) {
+    const idx = Math.min(bins - 1, Math.floor((v - min) / width));
+    histogram[idx].count++;
+  }
+  return histogram;
+};
+
+const median = (sorted: number[]) => {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+export class ColumnProfiler {
+  private nonNull = 0;
+  private frequencies = new Map<string, number>();
+  private frequencyOverflow = false;
+  private patterns = new Map<string, number>();
+  private lengths = new Map<number, number>();
+  private lengthSum = 0;
+
+  // Welford's running mean/variance
+  private numericCount = 0;
+  private mean = 0;
+  private m2 = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private numericSample = new ReservoirSample<number>(NUMERIC_SAMPLE_SIZE);
+
+  add(value: unknown) {
+    if (value === null || value === undefined || value === '') return;
+    this.nonNull++;
+
+    const text = String(value);
+    if (!bump(this.frequencies, text, MAX_TRACKED_VALUES)) this.frequencyOverflow = true;
+    bump(this.patterns, patternSignature(text), MAX_TRACKED_PATTERNS);
+    this.lengths.set(text.length, (this.lengths.get(text.length) ?? 0) + 1);
+    this.lengthSum += text.length;
+
+    const num = toNumber(value);
+    if (num !== null) {
+      this.numericCount++;
+      const delta = num - this.mean;
+      this.mean += delta / this.numericCount;
+      this.m2 += delta * (num - this.mean);
+      if (num < this.min) this.min = num;
+      if (num > this.max) this.max = num;
+      this.numericSample.add(num);
+    }
+  }
+
+  toProfile(): ColumnProfile {
+    const lengthKeys = Array.from(this.lengths.keys()).sort((a, b) => a - b);
+    const lengthHistogram: HistogramBin[] = lengthKeys.map(len => ({ start: len, end: len, count: this.lengths.get(len) ?? 0 }));
+
+    return {
+      distinctCount: this.frequencies.size,
+      distinctIsApproximate: this.frequencyOverflow,
+      uniqueRatio: this.nonNull > 0 ? this.frequencies.size / this.nonNull : 0,
+      topValues: topEntries(this.frequencies, TOP_K),
+      patterns: topEntries(this.patterns, TOP_PATTERNS),
+      length: {
+        min: lengthKeys[0] ?? 0,
+        max: lengthKeys[lengthKeys.length - 1] ?? 0,
+        mean: this.nonNull > 0 ? this.lengthSum / this.nonNull : 0,
+        histogram: lengthHistogram
+      },
+      numeric: this.toNumericSummary()
+    };
+  }
+
+  private toNumericSummary(): NumericSummary | undefined {
+    if (this.numericCount === 0 || this.numericCount / this.nonNull < NUMERIC_SHARE) return undefined;
+    const sample = [...this.numericSample.values()].sort((a, b) => a - b);
+    return {
+      count: this.numericCount,
+      min: this.min,
+      max: this.max,
+      mean: this.mean,
+      median: median(sample),
+      stdDev: this.numericCount > 1 ? Math.sqrt(this.m2 / (this.numericCount - 1)) : 0,
+      histogram: buildHistogram(sample),
+      isSampled: this.numericSample.totalSeen > this.numericSample.size
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import type { ColumnAnalysis } from '../types';
+import { TypeVoteAccumulator } from './type-inference';
+import { ColumnProfiler } from './column-profiler';
+import { ReservoirSample } from './reservoir-sample';
+
+// Incremental per-column statistics so large files can be profiled chunk by chunk
+// without holding every row in memory.
+
+const SAMPLE_VALUES = 50; // Non-null values kept per column as evidence for mapping and schema drafts
+
+interface ColumnAccumulator {
+  name: string;
+  nonNullCount: number;
+  types: TypeVoteAccumulator;
+  profiler: ColumnProfiler;
+  sample: ReservoirSample<unknown>;
+}
+
+const isNullish = (value: unknown) => value === null || value === undefined || value === '';
+
+const createAccumulator = (name: string): ColumnAccumulator => ({
+  name,
+  nonNullCount: 0,
+  types: new TypeVoteAccumulator(),
+  profiler: new ColumnProfiler(),
+  sample: new ReservoirSample(SAMPLE_VALUES)
+});
+
+const observeValue = (acc: ColumnAccumulator, value: unknown) => {
+  if (isNullish(value)) return;
+  acc.nonNullCount++;
+  acc.sample.add(value);
+  acc.types.add(value);
+  acc.profiler.add(value);
+};
+
+export class ColumnStatsCollector {
+  private columns = new Map<string, ColumnAccumulator>();
+  private rows = 0;
+
+  get rowCount() {
+    return this.rows;
+  }
+
+  get columnCount() {
+    return this.columns.size;
+  }
+
+  addRows(rows: Record<string, unknown>[]) {
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        let acc = this.columns.get(key);
+        if (!acc) {
+          // Sparse data: rows before a column first appears count as nulls (rowCount - nonNullCount)
+          acc = createAccumulator(key);
+          this.columns.set(key, acc);
+        }
+        observeValue(acc, row[key]);
+      }
+      this.rows++;
+    }
+  }
+
+  toColumnAnalysis(): ColumnAnalysis[] {
+    return Array.from(this.columns.values()).map(acc => {
+      const nullCount = this.rows - acc.nonNullCount;
+      const inference = acc.types.resolve();
+      return {
+        name: acc.name,
+        type: inference.type,
+        nullPercentage: this.rows > 0 ? (nullCount / this.rows) * 100 : 0,
+        sampleValues: [...acc.sample.values()],
+        inference,
+        profile: acc.profiler.toProfile()
+      };
+    });
+  }
+}
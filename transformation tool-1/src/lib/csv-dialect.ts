@@ -0,0 +1,200 @@
+import type { CSVDialect } from '../types';
+
+// Excel on Windows exports CSV as Windows-1252 or UTF-16 and, in many locales, with
+// semicolons and decimal commas. Sniffing the first bytes lets Papa decode and split
+// the file correctly instead of producing mojibake or a single column.
+
+const SNIFF_BYTES = 64 * 1024;
+const SNIFF_LINES = 50;
+
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|'] as const;
+
+export const DEFAULT_CSV_DIALECT: CSVDialect = {
+  encoding: 'utf-8',
+  hasBOM: false,
+  delimiter: ',',
+  quoteChar: '"',
+  decimalSeparator: '.'
+};
+
+/**
+ * Detects the text encoding from raw bytes: a BOM wins; otherwise a high share of NUL bytes
+ * in alternating positions means UTF-16, bytes that fail strict UTF-8 decoding mean Windows-1252.
+ */
+export const detectEncoding = (bytes: Uint8Array): Pick<CSVDialect, 'encoding' | 'hasBOM'> => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', hasBOM: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', hasBOM: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', hasBOM: true };
+
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  let evenNulls = 0;
+  let oddNulls = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenNulls++;
+      else oddNulls++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddNulls / half > 0.3 && evenNulls < oddNulls / 4) return { encoding: 'utf-16le', hasBOM: false };
+  if (half > 0 && evenNulls / half > 0.3 && oddNulls < evenNulls / 4) return { encoding: 'utf-16be', hasBOM: false };
+
+  // Drop a possibly truncated multi-byte sequence at the end of the sample
+  let end = bytes.length;
+  for (let back = 1; back <= 3 && end - back >= 0; back++) {
+    const byte = bytes[end - back];
+    if ((byte & 0xc0) === 0xc0) {
+      end -= back;
+      break;
+    }
+    if ((byte & 0x80) === 0) break;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, end));
+    return { encoding: 'utf-8', hasBOM: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBOM: false };
+  }
+};
+
+// Splits a line on a delimiter, ignoring delimiters inside quotes
+const splitLine = (line: string, delimiter: string, quoteChar: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === quoteChar) {
+      if (inQuotes && line[i + 1] === quoteChar) {
+        current += char;
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+};
+
+const detectQuoteChar = (lines: string[]): string => {
+  // Count quotes that open or close a field, so apostrophes inside words are ignored
+  const boundaryQuotes = (quote: string) => {
+    const pattern = new RegExp(`(^|[,;\\t|])${quote}|${quote}($|[,;\\t|])`, 'g');
+    return lines.reduce((acc, line) => acc + (line.match(pattern)?.length ?? 0), 0);
+  };
+  return boundaryQuotes("'") > boundaryQuotes('"') ? "'" : '"';
+};
+
+/**
+ * Picks the delimiter whose field count is most consistent across lines (and > 1),
+ * preferring more fields on ties.
+ */
+const detectDelimiter = (lines: string[], quoteChar: string): string => {
+  let best: { delimiter: string; score: number } = { delimiter: ',', score: -Infinity };
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map(line => splitLine(line, delimiter, quoteChar).length);
+    const modeCount = mode(counts);
+    if (modeCount <= 1) continue;
+    const consistency = counts.filter(c => c === modeCount).length / counts.length;
+    const score = consistency * 100 + modeCount;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+};
+
+const mode = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  let result = 0;
+  let max = 0;
+  counts.forEach((count, value) => {
+    if (count > max || (count === max && value > result)) {
+      result = value;
+      max = count;
+    }
+  });
+  return result;
+};
+
+// Decimal commas only make sense when the comma is not the delimiter
+const detectDecimalSeparator = (lines: string[], delimiter: string, quoteChar: string): '.' | ',' => {
+  let commaDecimals = 0;
+  let dotDecimals = 0;
+  lines.slice(1).forEach(line => {
+    splitLine(line, delimiter, quoteChar).forEach(field => {
+      const value = field.trim();
+      if (/^-?\d{1,3}(\.\d{3})*,\d+$/.test(value) || /^-?\d+,\d+$/.test(value)) commaDecimals++;
+      else if (/^-?\d{1,3}(,\d{3})*\.\d+$/.test(value) || /^-?\d+\.\d+$/.test(value)) dotDecimals++;
+    });
+  });
+  return delimiter !== ',' && commaDecimals > dotDecimals ? ',' : '.';
+};
+
+export const detectDialect = (text: string): Pick<CSVDialect, 'delimiter' | 'quoteChar' | 'decimalSeparator'> => {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '');
+  // The last line of a byte sample is usually cut off
+  const sample = lines.length > 2 ? lines.slice(0, Math.min(SNIFF_LINES, lines.length - 1)) : lines;
+  if (sample.length === 0) {
+    const { delimiter, quoteChar, decimalSeparator } = DEFAULT_CSV_DIALECT;
+    return { delimiter, quoteChar, decimalSeparator };
+  }
+
+  const quoteChar = detectQuoteChar(sample);
+  const delimiter = detectDelimiter(sample, quoteChar);
+  return { delimiter, quoteChar, decimalSeparator: detectDecimalSeparator(sample, delimiter, quoteChar) };
+};
+
+// Reads the first bytes of a CSV file and detects its encoding and dialect
+export const sniffCSV = async (file: File): Promise<CSVDialect> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const { encoding, hasBOM } = detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+  return { encoding, hasBOM, ...detectDialect(text) };
+};
+
+/**
+ * Papa `transform` hook for decimal-comma files: "1.234,5" becomes "1234.5" and the
+ * dot-grouped integer "2.500" becomes "2500", so dynamic typing reads the right number
+ * instead of 2.5. Other values pass through untouched.
+ */
+export const createDecimalTransform = (dialect: CSVDialect) => {
+  if (dialect.decimalSeparator !== ',') return undefined;
+  return (value: string) => {
+    const trimmed = value.trim();
+    if (/^-?\d{1,3}(\.\d{3})*,\d+$/.test(trimmed) || /^-?\d+,\d+$/.test(trimmed)) {
+      return trimmed.replace(/\./g, '').replace(',', '.');
+    }
+    if (/^-?\d{1,3}(\.\d{3})+$/.test(trimmed)) return trimmed.replace(/\./g, '');
+    return value;
+  };
+};
+
+// Papa options that apply a detected dialect when parsing a File
+export const dialectParseConfig = (dialect: CSVDialect) => ({
+  delimiter: dialect.delimiter,
+  quoteChar: dialect.quoteChar,
+  encoding: dialect.encoding,
+  transform: createDecimalTransform(dialect)
+});
+
+export const formatEncoding = (dialect: CSVDialect) =>
+  `${dialect.encoding.toUpperCase()}${dialect.hasBOM ? ' (BOM)' : ''}`;
+
+export const formatDelimiter = (delimiter: string) => {
+  switch (delimiter) {
+    case ',': return 'Comma';
+    case ';': return 'Semicolon';
+    case '\t': return 'Tab';
+    case '|': return 'Pipe';
+    default: return `"${delimiter}"`;
+  }
+};
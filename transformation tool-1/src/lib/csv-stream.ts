@@ -0,0 +1,195 @@
+import Papa from 'papaparse';
+import type { CleaningRecipe, CleaningReport, CSVDialect, ImputedCell, DomainSchema, HeaderLayout, SemanticMapping, ValidationReport, ValueMap } from '../types';
+import { createValidationSession, type ValidationSessionOptions } from './validator';
+import { createCleaningSession } from './cleaner';
+import { recipeFields } from './cleaning-recipes';
+import { createImputer, orderDependentFields } from './imputation';
+import { createOutlierTreatment } from './outliers';
+import { USER_SCHEMA } from './schemas';
+import { createRowAssembler, detectHeaderLayout, HEADER_SCAN_ROWS, readCSVPreview } from './header-detection';
+import { dialectParseConfig, sniffCSV } from './csv-dialect';
+
+// Files above this size are never fully materialized: analysis keeps a bounded sample,
+// and validation/cleaning re-read the file chunk by chunk.
+export const STREAMING_THRESHOLD_BYTES = 50 * 1024 * 1024;
+
+// Rows kept in memory for previews, mapping inference and AI analysis of streamed files
+export const PREVIEW_SAMPLE_SIZE = 5000;
+
+const CHUNK_SIZE_BYTES = 4 * 1024 * 1024;
+
+export type CSVRow = Record<string, unknown>;
+
+export interface StreamCSVOptions {
+  onProgress?: (percent: number) => void;
+  header?: HeaderLayout; // Detected from the first rows when omitted
+  dialect?: CSVDialect;  // Sniffed from the first bytes when omitted
+}
+
+export const shouldStreamFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.csv') && file.size > STREAMING_THRESHOLD_BYTES;
+
+/**
+ * Parses a CSV file in chunks. `onChunk` may be async; parsing pauses until it settles,
+ * so at most one chunk of rows is held in memory at a time.
+ * The file is decoded with its detected encoding and split with its detected dialect,
+ * then rows are assembled against the header layout, so banners above the
+ * header are skipped and multi-row headers are flattened.
+ */
+export const streamCSV = async (
+  file: File,
+  onChunk: (rows: CSVRow[], offset: number) => void | Promise<void>,
+  options: StreamCSVOptions = {}
+): Promise<{ rowCount: number; fields: string[] }> => {
+  const dialect = options.dialect ?? await sniffCSV(file);
+  const layout = options.header ?? detectHeaderLayout(await readCSVPreview(file, HEADER_SCAN_ROWS, dialect));
+  const assembler = createRowAssembler(layout);
+
+  return new Promise((resolve, reject) => {
+    let offset = 0;
+    let failed = false;
+
+    Papa.parse<unknown[]>(file, {
+      ...dialectParseConfig(dialect),
+      header: false,
+      skipEmptyLines: true,
+      dynamicTyping: true,
+      chunkSize: CHUNK_SIZE_BYTES,
+      chunk: (results, parser) => {
+        const rows = assembler.push(results.data);
+        const chunkOffset = offset;
+        offset += rows.length;
+
+        parser.pause();
+        Promise.resolve(onChunk(rows, chunkOffset))
+          .then(() => {
+            if (file.size > 0) options.onProgress?.(Math.min(100, (results.meta.cursor / file.size) * 100));
+            parser.resume();
+          })
+          .catch(error => {
+            failed = true;
+            parser.abort();
+            reject(error);
+          });
+      },
+      complete: () => {
+        if (!failed) resolve({ rowCount: offset, fields: assembler.columns });
+      },
+      error: (error) => {
+        reject(error);
+      }
+    });
+  });
+};
+
+/**
+ * Validates a CSV file without loading it: one pass for value checks,
+ * a second pass to flag IQR outliers once the distribution is known.
+ */
+export const validateCSVStream = async (
+  file: File,
+  semanticMapping: SemanticMapping,
+  options: StreamCSVOptions & Pick<ValidationSessionOptions, 'schema' | 'fieldMapping' | 'profile'> = {}
+): Promise<ValidationReport> => {
+  const session = createValidationSession(semanticMapping, {
+    numericSampleSize: 100_000,
+    schema: options.schema,
+    fieldMapping: options.fieldMapping,
+    profile: options.profile
+  });
+
+  await streamCSV(file, (rows, offset) => {
+    session.addRows(rows, offset);
+  }, { ...options, onProgress: p => options.onProgress?.(p / 2) });
+
+  await streamCSV(file, (rows, offset) => {
+    session.scanOutliers(rows, offset);
+  }, { ...options, onProgress: p => options.onProgress?.(50 + p / 2) });
+
+  return session.finalize();
+};
+
+/**
+ * Cleans a CSV file chunk by chunk. The full cleaned output is written to a CSV Blob;
+ * only the first PREVIEW_SAMPLE_SIZE cleaned rows are kept as `cleaned_data`.
+ */
+export const cleanCSVStream = async (
+  file: File,
+  mapping: Record<string, string>,
+  semanticMapping: SemanticMapping,
+  targetSchema: DomainSchema = USER_SCHEMA,
+  options: StreamCSVOptions & { recipe?: CleaningRecipe; valueMaps?: Record<string, ValueMap> } = {}
+): Promise<CleaningReport> => {
+  const { recipe, valueMaps } = options;
+  const unstreamable = orderDependentFields(recipe?.imputation ?? {});
+  if (unstreamable.length > 0) {
+    throw new Error(
+      `Backward fills and date-ordered forward fills need the whole file in memory. ` +
+      `Change the imputation of ${unstreamable.join(', ')} to clean this file.`
+    );
+  }
+  const columns = Array.from(new Set([...Object.values(mapping), ...(recipe ? recipeFields(recipe) : [])]));
+  const preview: CSVRow[] = [];
+  // One Blob per chunk, so the cleaned file is not held on the JS heap as strings
+  const outputParts: Blob[] = [];
+  const imputer = recipe?.imputation && Object.keys(recipe.imputation).length > 0 ? createImputer(recipe.imputation) : null;
+  const imputed_cells: ImputedCell[] = [];
+  let cleanedCount = 0;
+
+  const outliers = recipe?.outliers && Object.keys(recipe.outliers).length > 0 ? createOutlierTreatment(recipe.outliers) : undefined;
+
+  // Outlier bounds, and mean, median and mode, need every cleaned row before the first one
+  // is treated, so the file is cleaned with throwaway sessions just to collect them: first
+  // for the outlier bounds, then for imputation statistics over outlier-treated rows
+  const passes = 1 + (outliers ? 1 : 0) + (imputer?.needsStatistics ? 1 : 0);
+  let pass = 0;
+  const passOptions = (): StreamCSVOptions => {
+    const start = (pass++ * 100) / passes;
+    return { ...options, onProgress: p => options.onProgress?.(start + p / passes) };
+  };
+
+  if (outliers) {
+    const statsSession = createCleaningSession(mapping, semanticMapping, targetSchema, recipe, undefined, valueMaps);
+    await streamCSV(file, (rows, offset) => {
+      outliers.observe(statsSession.addRows(rows, offset));
+    }, passOptions());
+  }
+  if (imputer?.needsStatistics) {
+    const statsSession = createCleaningSession(mapping, semanticMapping, targetSchema, recipe, outliers, valueMaps);
+    await streamCSV(file, (rows, offset) => {
+      imputer.observe(statsSession.addRows(rows, offset));
+    }, passOptions());
+  }
+
+  const session = createCleaningSession(mapping, semanticMapping, targetSchema, recipe, outliers, valueMaps);
+  await streamCSV(file, (rows, offset) => {
+    const cleaned = session.addRows(rows, offset);
+    if (imputer) {
+      // Only cells of preview rows are listed; fixes_applied counts them all
+      imputed_cells.push(...imputer.apply(cleaned, cleanedCount).filter(cell => cell.row < PREVIEW_SAMPLE_SIZE));
+    }
+    cleanedCount += cleaned.length;
+
+    if (preview.length < PREVIEW_SAMPLE_SIZE) {
+      preview.push(...cleaned.slice(0, PREVIEW_SAMPLE_SIZE - preview.length));
+    }
+
+    if (cleaned.length > 0) {
+      const csv = Papa.unparse(cleaned, { columns, header: outputParts.length === 0 });
+      outputParts.push(new Blob([csv + '\r\n']));
+    }
+  }, passOptions());
+
+  const { stats, dropped_rows } = session.finalize();
+  if (imputer) Object.assign(stats.fixes_applied, imputer.counts());
+
+  return {
+    stats,
+    cleaned_data: preview,
+    dropped_rows,
+    cleaned_output: new Blob(outputParts, { type: 'text/csv' }),
+    is_preview: stats.records_after_cleaning > preview.length,
+    ...(recipe && { recipe }),
+    ...(imputer && { imputed_cells })
+  };
+};
@@ -0,0 +1,295 @@
+import type { DuplicateCluster, DuplicateConfig, MatchComparator, MatchField, SemanticType, SurvivorshipRule } from '../types';
+
+// Fuzzy duplicate detection over cleaned rows. Rows are grouped into blocks by cheap keys
+// (normalized email, phone tail, name initials), only rows sharing a block are compared,
+// and pairs whose weighted similarity reaches the threshold are joined into clusters.
+// Each cluster gets a golden record built field by field from survivorship rules.
+
+export const MATCH_COMPARATORS: { id: MatchComparator; label: string }[] = [
+  { id: 'jaro_winkler', label: 'Jaro-Winkler' },
+  { id: 'token_sort', label: 'Token sort' },
+  { id: 'email', label: 'Email' },
+  { id: 'phone', label: 'Phone' },
+  { id: 'exact', label: 'Exact' }
+];
+
+export const SURVIVORSHIP_RULES: { id: SurvivorshipRule; label: string }[] = [
+  { id: 'most_complete', label: 'Most complete row' },
+  { id: 'first', label: 'First non-empty' },
+  { id: 'most_frequent', label: 'Most frequent' },
+  { id: 'longest', label: 'Longest' },
+  { id: 'latest', label: 'Latest row' },
+  { id: 'max', label: 'Largest number' },
+  { id: 'min', label: 'Smallest number' }
+];
+
+export const DEFAULT_MATCH_THRESHOLD = 0.9;
+
+const WINDOW = 50;           // Rows each row is compared with inside an oversized block
+const MAX_BLOCK_SIZE = 200;  // Blocks above this are compared within a sorted window only
+
+type Row = Record<string, unknown>;
+
+const isMissing = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const normalizeText = (value: unknown) => String(value).trim().toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const sortTokens = (value: unknown) => normalizeText(value).split(' ').sort().join(' ');
+
+// Lowercased, with any "+tag" dropped from the local part
+export const normalizeEmail = (value: unknown) => {
+  const email = String(value).trim().toLowerCase();
+  const at = email.lastIndexOf('@');
+  if (at < 0) return email;
+  return email.slice(0, at).replace(/\+.*$/, '') + email.slice(at);
+};
+
+// Digits only, without a leading country code beyond the last 10 digits
+export const normalizePhone = (value: unknown) => String(value).replace(/\D/g, '').slice(-10);
+
+/** Jaro-Winkler similarity of two strings, 1 for identical and 0 for nothing in common. */
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/** Similarity of two values under a comparator; null when either is missing. */
+export const compareValues = (a: unknown, b: unknown, comparator: MatchComparator): number | null => {
+  if (isMissing(a) || isMissing(b)) return null;
+  switch (comparator) {
+    case 'exact': return normalizeText(a) === normalizeText(b) ? 1 : 0;
+    case 'token_sort': return jaroWinkler(sortTokens(a), sortTokens(b));
+    case 'email': return jaroWinkler(normalizeEmail(a), normalizeEmail(b));
+    case 'phone': {
+      const pa = normalizePhone(a);
+      const pb = normalizePhone(b);
+      return pa.length > 0 && pb.length > 0 ? jaroWinkler(pa, pb) : null;
+    }
+    default: return jaroWinkler(normalizeText(a), normalizeText(b));
+  }
+};
+
+const blockKey = (value: unknown, comparator: MatchComparator): string | null => {
+  if (isMissing(value)) return null;
+  switch (comparator) {
+    case 'email': return normalizeEmail(value);
+    case 'phone': {
+      const digits = normalizePhone(value);
+      return digits.length >= 7 ? digits.slice(-7) : null;
+    }
+    case 'exact': return normalizeText(value);
+    default: {
+      // Initials of the sorted tokens survive most typos: "jon smith" and "john smith" share "js"
+      const tokens = sortTokens(value).split(' ').filter(Boolean);
+      return tokens.length > 0 ? tokens.map(token => token[0]).join('') : null;
+    }
+  }
+};
+
+/** Weighted similarity of two rows over the fields both have; null when they share none. */
+export const rowSimilarity = (a: Row, b: Row, fields: MatchField[]): number | null => {
+  let total = 0;
+  let weights = 0;
+  fields.forEach(({ field, comparator, weight }) => {
+    const score = compareValues(a[field], b[field], comparator);
+    if (score === null || weight <= 0) return;
+    total += score * weight;
+    weights += weight;
+  });
+  return weights > 0 ? total / weights : null;
+};
+
+/**
+ * Match fields for the run's target fields: names by token sort, contact fields by email or
+ * phone depending on their values. Identifiers are left out since exact deduplication
+ * already made them unique.
+ */
+export const defaultDuplicateConfig = (semantics: Record<string, SemanticType>, rows: Row[]): DuplicateConfig => {
+  const sample = rows.slice(0, 200);
+  const fields: MatchField[] = [];
+  Object.entries(semantics).forEach(([field, semantic]) => {
+    if (semantic === 'name') fields.push({ field, comparator: 'token_sort', weight: 2 });
+    else if (semantic === 'contact_info') {
+      const values = sample.map(row => row[field]).filter(v => !isMissing(v));
+      const emails = values.filter(v => String(v).includes('@')).length;
+      fields.push({ field, comparator: emails > values.length / 2 ? 'email' : 'phone', weight: 2 });
+    }
+  });
+  return { fields, threshold: DEFAULT_MATCH_THRESHOLD, survivorship: {} };
+};
+
+const timeOf = (value: unknown) => (isMissing(value) ? NaN : new Date(value as string | number).getTime());
+
+const survivingValue = (rows: Row[], field: string, rule: SurvivorshipRule, orderBy?: string): unknown => {
+  const present = rows.filter(row => !isMissing(row[field]));
+  if (present.length === 0) return rows[0]?.[field] ?? null;
+  const numbers = present.map(row => Number(row[field])).filter(n => !isNaN(n));
+
+  switch (rule) {
+    case 'first': return present[0][field];
+    case 'longest': return present.reduce((best, row) => (String(row[field]).length > String(best[field]).length ? row : best))[field];
+    case 'max': return numbers.length > 0 ? numbers.reduce((a, b) => Math.max(a, b)) : present[0][field];
+    case 'min': return numbers.length > 0 ? numbers.reduce((a, b) => Math.min(a, b)) : present[0][field];
+    case 'most_frequent': {
+      const counts = new Map<string, { value: unknown; count: number }>();
+      present.forEach(row => {
+        const entry = counts.get(String(row[field]));
+        if (entry) entry.count++;
+        else counts.set(String(row[field]), { value: row[field], count: 1 });
+      });
+      let best: { value: unknown; count: number } | null = null;
+      for (const entry of counts.values()) {
+        if (!best || entry.count > best.count) best = entry;
+      }
+      return best?.value ?? present[0][field];
+    }
+    case 'latest': {
+      if (!orderBy) return present[present.length - 1][field];
+      let latest = present[0];
+      present.forEach(row => {
+        if (timeOf(row[orderBy]) > timeOf(latest[orderBy]) || isNaN(timeOf(latest[orderBy]))) latest = row;
+      });
+      return latest[field];
+    }
+    default: {
+      // most_complete: the value of the row with the fewest empty fields
+      const filled = (row: Row) => Object.values(row).filter(v => !isMissing(v)).length;
+      return present.reduce((best, row) => (filled(row) > filled(best) ? row : best))[field];
+    }
+  }
+};
+
+/** Merged record of a cluster's rows, field by field under the configured survivorship rules. */
+export const buildGoldenRecord = (rows: Row[], config: Pick<DuplicateConfig, 'survivorship' | 'orderBy'>): Row => {
+  const fields = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return Object.fromEntries(
+    fields.map(field => [field, survivingValue(rows, field, config.survivorship[field] ?? 'most_complete', config.orderBy)])
+  );
+};
+
+/** Clusters of likely duplicate rows, largest first; rows without a match are left out. */
+export const findDuplicates = (rows: Row[], config: DuplicateConfig): DuplicateCluster[] => {
+  const fields = config.fields.filter(f => f.weight > 0);
+  if (fields.length === 0) return [];
+
+  // Blocking: rows sharing any key of any match field become candidates
+  const blocks = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    fields.forEach(({ field, comparator }) => {
+      const key = blockKey(row[field], comparator);
+      if (key === null) return;
+      const blockId = `${field}\u0000${key}`;
+      const block = blocks.get(blockId);
+      if (block) block.push(index);
+      else blocks.set(blockId, [index]);
+    });
+  });
+
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const minScore = new Map<number, number>();
+  const compared = new Set<string>();
+
+  const comparePair = (a: number, b: number) => {
+    const pair = a < b ? `${a}:${b}` : `${b}:${a}`;
+    if (compared.has(pair)) return;
+    compared.add(pair);
+    const score = rowSimilarity(rows[a], rows[b], fields);
+    if (score === null || score < config.threshold) return;
+    const ra = find(a);
+    const rb = find(b);
+    const joined = Math.min(score, minScore.get(ra) ?? 1, minScore.get(rb) ?? 1);
+    if (ra !== rb) parent[rb] = ra;
+    minScore.set(ra, joined);
+  };
+
+  blocks.forEach((members, blockId) => {
+    if (members.length < 2) return;
+    if (members.length <= MAX_BLOCK_SIZE) {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) comparePair(members[i], members[j]);
+      }
+      return;
+    }
+    // Oversized blocks (common initials): sorted neighbourhood on the blocked field
+    const field = blockId.slice(0, blockId.indexOf('\u0000'));
+    const sorted = [...members].sort((a, b) => normalizeText(rows[a][field]).localeCompare(normalizeText(rows[b][field])));
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < Math.min(sorted.length, i + 1 + WINDOW); j++) comparePair(sorted[i], sorted[j]);
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  rows.forEach((_, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(index);
+    else clusters.set(root, [index]);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      id: root,
+      rows: members,
+      score: minScore.get(root) ?? 1,
+      golden: buildGoldenRecord(members.map(i => rows[i]), config)
+    }))
+    .sort((a, b) => b.rows.length - a.rows.length || a.rows[0] - b.rows[0]);
+};
+
+/**
+ * Replaces each cluster with its golden record, at the position of the cluster's first row.
+ * `sourceRows[i]` is the input index the i-th output row came from.
+ */
+export const mergeDuplicates = (rows: Row[], clusters: DuplicateCluster[]): { rows: Row[]; sourceRows: number[] } => {
+  const goldenAt = new Map<number, Row>();
+  const merged = new Set<number>();
+  clusters.forEach(cluster => {
+    goldenAt.set(cluster.rows[0], cluster.golden);
+    cluster.rows.slice(1).forEach(i => merged.add(i));
+  });
+
+  const result: Row[] = [];
+  const sourceRows: number[] = [];
+  rows.forEach((row, index) => {
+    if (merged.has(index)) return;
+    result.push(goldenAt.get(index) ?? row);
+    sourceRows.push(index);
+  });
+  return { rows: result, sourceRows };
+};
@@ -0,0 +1,142 @@
+import type { CanonicalField, ConstraintName, FieldConstraints, ValidationIssue } from '../types';
+
+// Checks a value against its CanonicalField: the declared type plus any FieldConstraints.
+// Uniqueness needs state across rows, so the validator tracks it itself.
+
+export interface ConstraintViolation {
+  constraint: ConstraintName;
+  message: string;
+  type: ValidationIssue['type'];
+}
+
+export type FieldValueCheck = (value: unknown) => ConstraintViolation[];
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', '0', '1', 'yes', 'no', 'y', 'n']);
+
+// Numbers, or numeric strings once thousands separators are removed
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim().replace(/,/g, '');
+  if (text === '') return null;
+  const num = Number(text);
+  return Number.isFinite(num) ? num : null;
+};
+
+const toTime = (value: unknown): number | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.getTime();
+  const time = Date.parse(String(value).trim());
+  return isNaN(time) ? null : time;
+};
+
+const checkType = (fieldType: string, value: unknown): string | null => {
+  switch (fieldType) {
+    case 'Integer': {
+      const num = toNumber(value);
+      return num === null || !Number.isInteger(num) ? 'Expected an integer' : null;
+    }
+    case 'Float':
+      return toNumber(value) === null ? 'Expected a number' : null;
+    case 'Date':
+      return toTime(value) === null ? 'Expected a date' : null;
+    case 'Boolean':
+      return typeof value === 'boolean' || BOOLEAN_TOKENS.has(String(value).trim().toLowerCase())
+        ? null
+        : 'Expected a boolean';
+    default:
+      return null;
+  }
+};
+
+/** Compiles a regex constraint; returns null when the pattern is not a valid expression. */
+export const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+/** Violation for an empty value, or null when the field allows it. */
+export const checkMissingValue = (field: CanonicalField): ConstraintViolation | null => {
+  if (field.required) {
+    return { constraint: 'required', message: `Required field "${field.id}" is empty`, type: 'required' };
+  }
+  if (field.constraints?.nullable === false) {
+    return { constraint: 'nullable', message: `Field "${field.id}" is not nullable`, type: 'required' };
+  }
+  return null;
+};
+
+/**
+ * Builds the per-value check for a field once (regexes and enum sets compiled up front),
+ * so the validator can run it on every row. Empty values are handled by checkMissingValue.
+ */
+export const compileFieldCheck = (field: CanonicalField): FieldValueCheck => {
+  const c: FieldConstraints = field.constraints ?? {};
+  const pattern = c.pattern ? compilePattern(c.pattern) : null;
+  const allowed = c.enum && c.enum.length > 0 ? new Set(c.enum.map(v => v.trim().toLowerCase())) : null;
+  const minDate = c.minDate ? toTime(c.minDate) : null;
+  const maxDate = c.maxDate ? toTime(c.maxDate) : null;
+
+  return (value: unknown) => {
+    const typeError = checkType(field.type, value);
+    // Range checks on a value of the wrong type would only repeat the type error
+    if (typeError) return [{ constraint: 'type', message: `${typeError} for ${field.type} field`, type: 'type' }];
+
+    const violations: ConstraintViolation[] = [];
+    const text = String(value).trim();
+
+    if (c.min !== undefined || c.max !== undefined) {
+      const num = toNumber(value);
+      if (num !== null && c.min !== undefined && num < c.min) {
+        violations.push({ constraint: 'min', message: `Value is below min ${c.min}`, type: 'range' });
+      }
+      if (num !== null && c.max !== undefined && num > c.max) {
+        violations.push({ constraint: 'max', message: `Value is above max ${c.max}`, type: 'range' });
+      }
+    }
+
+    if (minDate !== null || maxDate !== null) {
+      const time = toTime(value);
+      if (time !== null && minDate !== null && time < minDate) {
+        violations.push({ constraint: 'minDate', message: `Date is before minDate ${c.minDate}`, type: 'range' });
+      }
+      if (time !== null && maxDate !== null && time > maxDate) {
+        violations.push({ constraint: 'maxDate', message: `Date is after maxDate ${c.maxDate}`, type: 'range' });
+      }
+    }
+
+    if (c.minLength !== undefined && text.length < c.minLength) {
+      violations.push({ constraint: 'minLength', message: `Shorter than minLength ${c.minLength}`, type: 'format' });
+    }
+    if (c.maxLength !== undefined && text.length > c.maxLength) {
+      violations.push({ constraint: 'maxLength', message: `Longer than maxLength ${c.maxLength}`, type: 'format' });
+    }
+
+    if (pattern && !pattern.test(text)) {
+      violations.push({ constraint: 'pattern', message: `Does not match pattern ${c.pattern}`, type: 'format' });
+    }
+
+    if (allowed && !allowed.has(text.toLowerCase())) {
+      violations.push({ constraint: 'enum', message: 'Not one of the allowed values (enum)', type: 'consistency' });
+    }
+
+    return violations;
+  };
+};
+
+// Keeps only well-typed constraint keys from imported JSON
+export const sanitizeConstraints = (raw: unknown): FieldConstraints | undefined => {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const input = raw as Record<string, unknown>;
+  const constraints: FieldConstraints = {};
+  (['min', 'max', 'minLength', 'maxLength'] as const).forEach(key => {
+    if (typeof input[key] === 'number') constraints[key] = input[key];
+  });
+  (['pattern', 'minDate', 'maxDate'] as const).forEach(key => {
+    if (typeof input[key] === 'string') constraints[key] = input[key];
+  });
+  if (Array.isArray(input.enum)) constraints.enum = input.enum.map(String);
+  if (typeof input.nullable === 'boolean') constraints.nullable = input.nullable;
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
+};
@@ -1,22 +1,80 @@
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-import type { AnalysisResult, ColumnAnalysis, IngestionMetadata } from '../types';
+import type { AnalysisResult, HeaderLayout, IngestionMetadata, JsonFlattenOptions, SheetSummary } from '../types';
+import { ColumnStatsCollector } from './column-stats';
+import { ReservoirSample } from './reservoir-sample';
+import { PREVIEW_SAMPLE_SIZE, shouldStreamFile, streamCSV } from './csv-stream';
+import { readSheetGrid, readSheetRows, readWorkbook, summarizeSheets } from './workbook';
+import { findRecordArrayPaths, flattenJSONRecords, parseJSONText, resolveRecordRoot } from './json-flatten';
+import { formatEncoding, sniffCSV } from './csv-dialect';
+import { HEADER_SCAN_ROWS, detectHeaderLayout, readCSVPreview } from './header-detection';
 
 let lastProcessedData: any[] = [];
+// Leading rows of the last file in file order. Differs from lastProcessedData only for streamed
+// files, whose sample is random while cleaning previews the first rows.
+let lastPreviewData: any[] = [];
 
 export const getLastProcessedData = () => lastProcessedData;
+export const getLastPreviewData = () => lastPreviewData;
 
-export const processFile = async (file: File): Promise<AnalysisResult> => {
-  const fileType = file.name.split('.').pop()?.toLowerCase() as 'csv' | 'xlsx' | 'json';
+const resolveFileType = (file: File): IngestionMetadata['fileType'] | undefined => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'xlsx' || extension === 'json') return extension;
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  return undefined;
+};
+
+export interface ProcessFileOptions {
+  sheets?: string[]; // Workbook sheets to ingest; defaults to the first sheet
+  header?: HeaderLayout; // Manual header override; detected automatically when omitted
+  json?: JsonFlattenOptions;
+}
+
+export interface JsonPreview {
+  document: unknown;
+  candidates: { path: string; length: number }[]; // Arrays of objects that could hold the records
+}
+
+// Parses a JSON/JSONL file once so its root path and array handling can be chosen before analysis
+export const previewJSON = async (file: File): Promise<JsonPreview> => {
+  const document = parseJSONText(await file.text(), file.name);
+  return { document, candidates: findRecordArrayPaths(document) };
+};
+
+export interface RawPreview {
+  rows: unknown[][];
+  detected: HeaderLayout;
+}
+
+// First raw rows of a CSV or sheet with the detected header block, for the upload-step override
+export const previewRawRows = async (file: File, sheetName?: string): Promise<RawPreview> => {
+  let rows: unknown[][];
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    const workbook = await readWorkbook(file);
+    rows = readSheetGrid(workbook, sheetName ?? workbook.SheetNames[0]).slice(0, HEADER_SCAN_ROWS);
+  } else {
+    rows = await readCSVPreview(file, HEADER_SCAN_ROWS, await sniffCSV(file));
+  }
+  return { rows, detected: detectHeaderLayout(rows) };
+};
+
+// Lists the sheets of a workbook so the user can choose which to ingest
+export const listWorkbookSheets = async (file: File): Promise<SheetSummary[]> => {
+  return summarizeSheets(await readWorkbook(file));
+};
+
+export const processFile = async (file: File, options: ProcessFileOptions = {}): Promise<AnalysisResult> => {
+  const fileType = resolveFileType(file);
   let data: any[] = [];
+  let sheetNames: string[] | undefined;
+  let headerLayout: HeaderLayout | undefined;
+  let jsonRootPath: string | undefined;
 
   try {
     if (fileType === 'csv') {
-      data = await parseCSV(file);
+      return await streamAnalyzeCSV(file, options.header);
     } else if (fileType === 'xlsx') {
-      data = await parseXLSX(file);
-    } else if (fileType === 'json') {
-      data = await parseJSON(file);
+      ({ rows: data, sheetNames, headerLayout } = await parseXLSX(file, options.sheets, options.header));
+    } else if (fileType === 'json' || fileType === 'jsonl') {
+      ({ rows: data, rootPath: jsonRootPath } = await parseJSON(file, options.json));
     } else {
       throw new Error('Unsupported file type');
     }
@@ -26,100 +84,86 @@ export const processFile = async (file: File): Promise<AnalysisResult> => {
     }
 
     lastProcessedData = data;
-    return analyzeData(data, file);
+    lastPreviewData = data;
+    const collector = new ColumnStatsCollector();
+    collector.addRows(data);
+    const result = analyzeData(collector, file, fileType);
+    if (sheetNames) result.metadata.sheetNames = sheetNames;
+    if (headerLayout) result.metadata.headerLayout = headerLayout;
+    if (jsonRootPath) result.metadata.jsonRootPath = jsonRootPath;
+    return result;
   } catch (error) {
     console.error('Error processing file:', error);
     throw error;
   }
 };
 
-const parseCSV = (file: File): Promise<any[]> => {
-  return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: true,
-      complete: (results) => {
-        resolve(results.data);
-      },
-      error: (error) => {
-        reject(error);
-      }
-    });
-  });
-};
+// CSV is profiled chunk by chunk. Small files are still kept whole; large ones keep
+// only a random sample and are re-streamed for validation and cleaning.
+const streamAnalyzeCSV = async (file: File, header?: HeaderLayout): Promise<AnalysisResult> => {
+  const dialect = await sniffCSV(file);
+  const headerLayout = header ?? detectHeaderLayout(await readCSVPreview(file, HEADER_SCAN_ROWS, dialect));
+  const collector = new ColumnStatsCollector();
+  const streamed = shouldStreamFile(file);
+  const sample = new ReservoirSample<Record<string, unknown>>(streamed ? PREVIEW_SAMPLE_SIZE : Infinity);
+  const head: Record<string, unknown>[] = [];
+
+  await streamCSV(file, (rows) => {
+    collector.addRows(rows);
+    sample.addAll(rows);
+    if (head.length < PREVIEW_SAMPLE_SIZE) head.push(...rows.slice(0, PREVIEW_SAMPLE_SIZE - head.length));
+  }, { header: headerLayout, dialect });
+
+  if (collector.rowCount === 0) {
+    throw new Error('File contains no data');
+  }
 
-const parseXLSX = (file: File): Promise<any[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-        resolve(jsonData);
-      } catch (error) {
-        reject(error);
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsArrayBuffer(file);
-  });
+  lastProcessedData = sample.values();
+  lastPreviewData = streamed ? head : lastProcessedData;
+  const result = analyzeData(collector, file, 'csv');
+  result.metadata.headerLayout = headerLayout;
+  result.metadata.dialect = dialect;
+  result.metadata.encoding = formatEncoding(dialect);
+  if (streamed) {
+    result.metadata.streamed = true;
+    result.metadata.sampleSize = sample.size;
+  }
+  return result;
 };
 
-const parseJSON = (file: File): Promise<any[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const json = JSON.parse(e.target?.result as string);
-        if (Array.isArray(json)) {
-          resolve(json);
-        } else {
-          // Handle object (maybe wrap in array or reject?)
-          // Assuming array of objects for ingestion
-          resolve([json]); 
-        }
-      } catch (error) {
-        reject(error);
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsText(file);
-  });
+const parseXLSX = async (
+  file: File,
+  sheets?: string[],
+  header?: HeaderLayout
+): Promise<{ rows: any[]; sheetNames: string[]; headerLayout: HeaderLayout }> => {
+  const workbook = await readWorkbook(file);
+  const sheetNames = sheets && sheets.length > 0 ? sheets : workbook.SheetNames.slice(0, 1);
+  // Reported layout is the override, or what was detected on the first selected sheet
+  const headerLayout = header ?? detectHeaderLayout(readSheetGrid(workbook, sheetNames[0]));
+  return { rows: readSheetRows(workbook, sheetNames, header), sheetNames, headerLayout };
 };
 
-const analyzeData = (data: any[], file: File): AnalysisResult => {
-  const totalRows = data.length;
-  // Get all unique keys from all objects to handle sparse data
-  const keys = Array.from(new Set(data.flatMap(Object.keys)));
-  const totalColumns = keys.length;
-
-  const columns: ColumnAnalysis[] = keys.map(key => {
-    const values = data.map(row => row[key]);
-    const type = detectType(values);
-    const nullCount = values.filter(v => v === null || v === undefined || v === '').length;
-    const nullPercentage = (nullCount / totalRows) * 100;
-    
-    // Get a sample non-null value
-    const sampleValue = values.find(v => v !== null && v !== undefined && v !== '');
-
-    return {
-      name: key,
-      type,
-      nullPercentage,
-      sampleValues: sampleValue !== undefined ? [sampleValue] : []
-    };
-  });
+const parseJSON = async (
+  file: File,
+  options: JsonFlattenOptions = {}
+): Promise<{ rows: Record<string, unknown>[]; rootPath?: string }> => {
+  const document = parseJSONText(await file.text(), file.name);
+  const rootPath = options.rootPath ?? (Array.isArray(document) ? undefined : findRecordArrayPaths(document)[0]?.path);
+  const items = resolveRecordRoot(document, rootPath);
+  return { rows: flattenJSONRecords(items, options), rootPath };
+};
 
+const analyzeData = (
+  collector: ColumnStatsCollector,
+  file: File,
+  fileType: IngestionMetadata['fileType']
+): AnalysisResult => {
   const metadata: IngestionMetadata = {
     fileName: file.name,
     fileSize: file.size,
-    fileType: file.name.split('.').pop()?.toLowerCase() as 'csv' | 'xlsx' | 'json',
-    totalRows,
-    totalColumns,
+    fileType,
+    totalRows: collector.rowCount,
+    totalColumns: collector.columnCount,
     uploadTimestamp: new Date().toISOString(),
     encoding: 'UTF-8', // Browser FileReader typically handles UTF-8
     source: 'manual'
@@ -127,67 +171,6 @@ const analyzeData = (data: any[], file: File): AnalysisResult => {
 
   return {
     metadata,
-    columns
+    columns: collector.toColumnAnalysis()
   };
 };
-
-const detectType = (values: any[]): string => {
-  let isInteger = true;
-  let isFloat = true;
-  let isBoolean = true;
-  let isDate = true;
-  let hasValue = false;
-
-  for (const value of values) {
-    if (value === null || value === undefined || value === '') continue;
-    hasValue = true;
-
-    if (typeof value === 'boolean') {
-        isInteger = false;
-        isFloat = false;
-        isDate = false;
-        continue;
-    }
-
-    if (typeof value === 'number') {
-        isDate = false;
-        isBoolean = false;
-        if (!Number.isInteger(value)) {
-            isInteger = false;
-        }
-        continue;
-    }
-
-    const strVal = String(value).trim();
-    
-    // Check Boolean
-    if (!['true', 'false', '0', '1', 'yes', 'no'].includes(strVal.toLowerCase())) {
-        isBoolean = false;
-    }
-
-    // Check Number
-    if (isNaN(Number(strVal)) || strVal === '') {
-        isInteger = false;
-        isFloat = false;
-    } else {
-        if (!Number.isInteger(Number(strVal))) {
-            isInteger = false;
-        }
-    }
-
-    // Check Date
-    const date = new Date(strVal);
-    if (strVal.length < 10 || isNaN(date.getTime()) || !/^\d{4}-\d{2}-\d{2}|^\d{2}\/\d{2}\/\d{4}/.test(strVal)) {
-         // simplistic date check to avoid false positives on simple numbers
-         isDate = false;
-    }
-  }
-
-  if (!hasValue) return 'String';
-  if (isBoolean) return 'Boolean';
-  if (isInteger) return 'Integer';
-  if (isFloat) return 'Float';
-  if (isDate) return 'Date';
-
-  return 'String';
-};
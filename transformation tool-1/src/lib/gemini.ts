@@ -5,7 +5,8 @@ import type {
   GeminiValidationResult, 
   DataTransformationAudit,
   StructuredDataQualityAssessment,
-  GeminiAnalysisResult
+  GeminiAnalysisResult,
+  ImputedCell
 } from '../types';
 
 // Access API key safely
@@ -203,11 +204,13 @@ export async function assessStructuredQuality(
 /**
  * Part 4: Data Transformation Audit
  * Compares raw and cleaned data to produce metrics.
- * Implemented locally for precision.
+ * Implemented locally for precision. When the cleaner reports its imputed cells,
+ * nulls_filled counts exactly those instead of guessing from the diff.
  */
 export function auditDataTransformation(
   raw: any[], 
-  cleaned: any[]
+  cleaned: any[],
+  imputedCells?: ImputedCell[]
 ): DataTransformationAudit {
   // Assuming 1:1 row mapping for simplicity, or we need an ID. 
   // If rows were deleted, raw.length > cleaned.length.
@@ -225,6 +228,7 @@ export function auditDataTransformation(
 
   // We iterate up to the smaller length to compare
   const limit = Math.min(raw.length, cleaned.length);
+  const imputed = new Set(imputedCells?.map(cell => `${cell.row}:${cell.field}`));
   
   for (let i = 0; i < limit; i++) {
     const r = raw[i];
@@ -242,8 +246,9 @@ export function auditDataTransformation(
     // We can check for nulls filled
     Object.keys(c).forEach(key => {
         // If raw had this key
+        if (imputed.has(`${i}:${key}`)) return; // Counted below
         if (key in r) {
-            if ((r[key] === null || r[key] === '') && (c[key] !== null && c[key] !== '')) {
+            if (!imputedCells && (r[key] === null || r[key] === '') && (c[key] !== null && c[key] !== '')) {
                 audit.nulls_filled++;
             }
             if (r[key] !== c[key]) {
@@ -254,6 +259,7 @@ export function auditDataTransformation(
         }
     });
   }
+  if (imputedCells) audit.nulls_filled = imputedCells.length;
   
   return audit;
 }
@@ -300,7 +306,8 @@ export async function generateAiInsights(
 export async function runGeminiAnalysis(
   raw: any[],
   cleaned: any[],
-  columns: string[]
+  columns: string[],
+  imputedCells?: ImputedCell[]
 ): Promise<GeminiAnalysisResult> {
   // 1. Infer Rules
   const rules = await inferSemanticValidationRules(columns, raw);
@@ -314,7 +321,7 @@ export async function runGeminiAnalysis(
   const validationResults = applyGeminiValidation(cleaned, rules);
 
   // 3. Audit
-  const audit = auditDataTransformation(raw, cleaned);
+  const audit = auditDataTransformation(raw, cleaned, imputedCells);
   audit.anomalies_flagged = validationResults.length;
 
   // 4. Quality
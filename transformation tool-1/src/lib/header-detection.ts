@@ -0,0 +1,185 @@
+import Papa from 'papaparse';
+import type { CSVDialect, HeaderLayout } from '../types';
+import { DEFAULT_CSV_DIALECT, dialectParseConfig } from './csv-dialect';
+
+// Exports often carry title banners, notes or blank lines above the real header,
+// and finance reports use two-row headers with merged group cells ("Q1" over "Revenue | Cost").
+// These helpers locate the header block in a raw grid and turn the rows below it into records.
+
+export const HEADER_SCAN_ROWS = 30;
+
+export const DEFAULT_HEADER_LAYOUT: HeaderLayout = { headerRow: 0, headerDepth: 1 };
+
+type RawRow = unknown[];
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const isNumericCell = (value: unknown) => {
+  if (typeof value === 'number') return true;
+  if (typeof value !== 'string') return false;
+  const cleaned = value.trim().replace(/[,$€£%]/g, '');
+  return cleaned !== '' && !isNaN(Number(cleaned));
+};
+
+const filledCount = (row: RawRow) => row.filter(cell => !isBlank(cell)).length;
+
+// Header cells are short, non-numeric labels. Leaf labels under group headers
+// repeat ("Revenue | Cost | Revenue | Cost"), so uniqueness is optional.
+const isHeaderLike = (row: RawRow | undefined, requireUnique = true) => {
+  if (!row) return false;
+  const filled = row.filter(cell => !isBlank(cell));
+  if (filled.length < 2) return false;
+  if (filled.some(cell => isNumericCell(cell) || typeof cell === 'boolean')) return false;
+  const labels = filled.map(cell => String(cell).trim().toLowerCase());
+  if (requireUnique && new Set(labels).size !== labels.length) return false;
+  return labels.every(label => label.length <= 80);
+};
+
+// Evidence that `upper` groups the labels of `lower`: a lower label sits under a merged (blank)
+// upper cell or under a repeat of the upper label to its left, as in "Q1 | | Q2 |" or
+// "Q1 | Q1 | Q2 | Q2" over "Revenue | Cost | Revenue | Cost".
+const groupsLabelsBelow = (upper: RawRow, lower: RawRow) => {
+  let group = '';
+  return lower.some((cell, col) => {
+    const label = isBlank(upper[col]) ? '' : String(upper[col]).trim().toLowerCase();
+    const continuesGroup = group !== '' && (label === '' || label === group);
+    if (label) group = label;
+    return continuesGroup && !isBlank(cell);
+  });
+};
+
+/**
+ * Guesses where the header block starts and how many rows it spans.
+ * The header is anchored on the first "dense" row (at least 60% of the widest row filled):
+ * banners and notes above it are skipped. The header is one row deep unless a label row
+ * next to it groups the labels of the other, with merged or repeated group cells.
+ */
+export const detectHeaderLayout = (grid: RawRow[]): HeaderLayout => {
+  const rows = grid.slice(0, HEADER_SCAN_ROWS);
+  if (rows.length === 0) return { ...DEFAULT_HEADER_LAYOUT };
+
+  const maxWidth = Math.max(...rows.map(filledCount));
+  const denseThreshold = Math.max(2, Math.ceil(maxWidth * 0.6));
+  const firstDense = rows.findIndex(row => filledCount(row) >= denseThreshold);
+  if (firstDense === -1) return { ...DEFAULT_HEADER_LAYOUT };
+
+  let headerRow = firstDense;
+  // A dense row full of numbers is data; its label row may be sparse and sit just above it
+  if (!isHeaderLike(rows[firstDense]) && isHeaderLike(rows[firstDense - 1])) {
+    headerRow = firstDense - 1;
+  }
+
+  // Two-row header, e.g. "Q1 | | Q2 |" over "Revenue | Cost | Revenue | Cost"
+  const above = rows[headerRow - 1];
+  if (above && isHeaderLike(above, false) && groupsLabelsBelow(above, rows[headerRow])) {
+    return { headerRow: headerRow - 1, headerDepth: 2 };
+  }
+  // An all-text first data row looks like a label row too, so it needs the grouping evidence
+  const below = rows[headerRow + 1];
+  const firstData = rows[headerRow + 2];
+  if (
+    isHeaderLike(rows[headerRow], false) && isHeaderLike(below, false) && groupsLabelsBelow(rows[headerRow], below) &&
+    firstData && !isHeaderLike(firstData)
+  ) {
+    return { headerRow, headerDepth: 2 };
+  }
+
+  return { headerRow, headerDepth: 1 };
+};
+
+/**
+ * Flattens one or more header rows into unique column names.
+ * Group labels carry forward across blank (merged) cells, so "Q1" over "Revenue"
+ * becomes `Q1_Revenue`. Blank headers fall back to `Column_<n>`.
+ */
+export const flattenHeaderRows = (headerRows: RawRow[]): string[] => {
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+  const levels = headerRows.map((row, level) => {
+    const isLeaf = level === headerRows.length - 1;
+    let carried = '';
+    return Array.from({ length: width }, (_, col) => {
+      const label = isBlank(row[col]) ? '' : String(row[col]).trim();
+      if (isLeaf) return label;
+      if (label) carried = label;
+      // Only carry a group label over columns that have a label further down
+      const hasChild = headerRows.slice(level + 1).some(r => !isBlank(r[col]));
+      return label || (hasChild ? carried : '');
+    });
+  });
+
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, col) => {
+    const parts: string[] = [];
+    levels.forEach(level => {
+      const part = level[col];
+      if (part && parts[parts.length - 1] !== part) parts.push(part);
+    });
+    const base = parts.length > 0 ? parts.join('_') : `Column_${col + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count}`;
+  });
+};
+
+/**
+ * Turns raw grid rows into records incrementally, so chunked parsers can feed it.
+ * Rows above the header block are dropped; fully blank data rows are skipped.
+ */
+export const createRowAssembler = (layout: HeaderLayout) => {
+  const headerRows: RawRow[] = [];
+  let columns: string[] | null = null;
+  let index = 0;
+
+  const columnName = (col: number) => columns?.[col] ?? `Column_${col + 1}`;
+
+  return {
+    push(rows: RawRow[]): Record<string, unknown>[] {
+      const records: Record<string, unknown>[] = [];
+      for (const row of rows) {
+        const rowIndex = index++;
+        if (rowIndex < layout.headerRow) continue;
+        if (rowIndex < layout.headerRow + layout.headerDepth) {
+          headerRows.push(row);
+          if (headerRows.length === layout.headerDepth) columns = flattenHeaderRows(headerRows);
+          continue;
+        }
+        if (!columns) columns = flattenHeaderRows(headerRows);
+        if (filledCount(row) === 0) continue;
+
+        const record: Record<string, unknown> = {};
+        const width = Math.max(columns.length, row.length);
+        for (let col = 0; col < width; col++) {
+          const value = row[col];
+          // Unlabelled trailing cells only become columns when they hold data
+          if (col >= columns.length && isBlank(value)) continue;
+          record[columnName(col)] = value ?? '';
+        }
+        records.push(record);
+      }
+      return records;
+    },
+    get columns() {
+      return columns ?? [];
+    }
+  };
+};
+
+export const assembleRecords = (grid: RawRow[], layout: HeaderLayout) => createRowAssembler(layout).push(grid);
+
+// Reads the first rows of a CSV without header handling, for detection and the upload preview
+export const readCSVPreview = (
+  file: File,
+  rows = HEADER_SCAN_ROWS,
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT
+): Promise<RawRow[]> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<RawRow>(file, {
+      ...dialectParseConfig(dialect),
+      header: false,
+      skipEmptyLines: true,
+      preview: rows,
+      complete: (results) => resolve(results.data),
+      error: reject
+    });
+  });
+};
@@ -0,0 +1,291 @@
+import type { ImputationRule, ImputationStrategy, ImputedCell } from '../types';
+import { ReservoirSample } from './reservoir-sample';
+
+// Fills missing values of cleaned rows, per field, after cleaning and post-cleaning
+// validation. Column statistics (mean, median, mode, group medians) come from `observe`,
+// which sees every cleaned row first; order-based fills and KNN work on the rows passed
+// to `apply`, i.e. the whole dataset in memory or one chunk of a streamed file. File-order
+// forward fills carry across chunks; fills that need the rows in another order do not, so
+// streamed files reject them (see `orderDependentFields`).
+
+export const IMPUTATION_STRATEGIES: { id: ImputationStrategy; label: string; description: string }[] = [
+  { id: 'mean', label: 'Mean', description: 'Average of the numeric values in the field' },
+  { id: 'median', label: 'Median', description: 'Middle numeric value in the field' },
+  { id: 'mode', label: 'Mode', description: 'Most frequent value in the field' },
+  { id: 'constant', label: 'Constant', description: 'A fixed value' },
+  { id: 'forward_fill', label: 'Forward fill', description: 'Previous value, ordered by a date field or file order' },
+  { id: 'backward_fill', label: 'Backward fill', description: 'Next value, ordered by a date field or file order' },
+  { id: 'group_median', label: 'Group median', description: 'Median within rows sharing a categorical value' },
+  { id: 'knn', label: 'KNN', description: 'Average (or most common value) of the k most similar rows' }
+];
+
+const DEFAULT_NEIGHBORS = 5;
+const SAMPLE_SIZE = 10_000;       // Values kept per field for medians; exact below this
+const GROUP_SAMPLE_SIZE = 1_000;  // Values kept per group
+const MAX_GROUPS = 10_000;        // Groups tracked per field; later ones fall back to the field median
+const MAX_MODE_VALUES = 10_000;   // Distinct values counted per field for the mode
+const MAX_KNN_CANDIDATES = 5_000; // Complete rows compared against each incomplete one
+
+type Row = Record<string, unknown>;
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const mostFrequent = <T>(counts: Map<string, { value: T; count: number }>): T | null => {
+  let best: { value: T; count: number } | null = null;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best ? best.value : null;
+};
+
+const timeOf = (value: unknown): number => {
+  if (isMissing(value)) return NaN;
+  return value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+};
+
+interface FieldStats {
+  sum: number;
+  count: number;
+  sample: ReservoirSample<number>;
+  modes: Map<string, { value: unknown; count: number }>;
+  groups: Map<string, ReservoirSample<number>>;
+}
+
+/** Problems with one field's imputation rule; empty when it can run. */
+export const validateImputationRule = (field: string, rule: ImputationRule): string[] => {
+  const errors: string[] = [];
+  if (!IMPUTATION_STRATEGIES.some(s => s.id === rule.strategy)) errors.push(`${field}: unknown imputation strategy "${rule.strategy}"`);
+  if (rule.strategy === 'constant' && isMissing(rule.value)) errors.push(`${field}: constant imputation needs a value`);
+  if (rule.strategy === 'group_median' && !rule.groupBy) errors.push(`${field}: group median needs a field to group by`);
+  if (rule.neighbors !== undefined && !(rule.neighbors >= 1)) errors.push(`${field}: KNN needs at least one neighbor`);
+  return errors;
+};
+
+/**
+ * Fields whose rule needs all rows at once in fill order: backward fills and fills ordered
+ * by a date field. Chunk boundaries would change their results, so streamed cleaning refuses them.
+ */
+export const orderDependentFields = (rules: Record<string, ImputationRule>): string[] =>
+  Object.entries(rules)
+    .filter(([, rule]) => rule.strategy === 'backward_fill' || (rule.strategy === 'forward_fill' && rule.orderBy))
+    .map(([field]) => field);
+
+export const createImputer = (rules: Record<string, ImputationRule>) => {
+  const entries = Object.entries(rules);
+  const stats: Record<string, FieldStats> = {};
+  const counts: Record<string, number> = {};
+  // Last value seen per forward-filled field, so file-order fills carry across chunks
+  const carried: Record<string, unknown> = {};
+
+  entries.forEach(([field]) => {
+    stats[field] = {
+      sum: 0,
+      count: 0,
+      sample: new ReservoirSample(SAMPLE_SIZE),
+      modes: new Map(),
+      groups: new Map()
+    };
+  });
+
+  /** Collects column statistics from cleaned rows; call for every row before `apply`. */
+  const observe = (rows: Row[]) => {
+    entries.forEach(([field, rule]) => {
+      const s = stats[field];
+      rows.forEach(row => {
+        const value = row[field];
+        if (isMissing(value)) return;
+        const number = toNumber(value);
+        if (number !== null) {
+          s.sum += number;
+          s.count++;
+          s.sample.add(number);
+          if (rule.groupBy && !isMissing(row[rule.groupBy])) {
+            const key = String(row[rule.groupBy]);
+            let group = s.groups.get(key);
+            if (!group && s.groups.size < MAX_GROUPS) {
+              group = new ReservoirSample(GROUP_SAMPLE_SIZE);
+              s.groups.set(key, group);
+            }
+            group?.add(number);
+          }
+        }
+        const key = String(value);
+        const mode = s.modes.get(key);
+        if (mode) mode.count++;
+        else if (s.modes.size < MAX_MODE_VALUES) s.modes.set(key, { value, count: 1 });
+      });
+    });
+  };
+
+  // Fill values that only depend on the observed statistics
+  const statisticFills: Record<string, unknown> = {};
+  const groupMedians: Record<string, Map<string, number | null>> = {};
+  let resolved = false;
+  const resolveStatistics = () => {
+    if (resolved) return;
+    resolved = true;
+    entries.forEach(([field, rule]) => {
+      const s = stats[field];
+      switch (rule.strategy) {
+        case 'mean': statisticFills[field] = s.count > 0 ? s.sum / s.count : null; break;
+        case 'median':
+        case 'group_median': statisticFills[field] = median(s.sample.values()); break;
+        case 'mode': statisticFills[field] = mostFrequent(s.modes); break;
+        case 'constant': statisticFills[field] = rule.value ?? null; break;
+      }
+      if (rule.strategy === 'group_median') {
+        groupMedians[field] = new Map(Array.from(s.groups.entries()).map(([key, sample]) => [key, median(sample.values())]));
+      }
+    });
+  };
+
+  // Rows in fill order: by the order field when given (missing dates last), else as passed
+  const fillOrder = (rows: Row[], orderBy?: string): number[] => {
+    const indices = rows.map((_, i) => i);
+    if (!orderBy) return indices;
+    const times = rows.map(row => timeOf(row[orderBy]));
+    return indices.sort((a, b) => {
+      const ta = times[a];
+      const tb = times[b];
+      if (isNaN(ta) || isNaN(tb)) return isNaN(ta) ? (isNaN(tb) ? a - b : 1) : -1;
+      return ta - tb || a - b;
+    });
+  };
+
+  const knnFill = (rows: Row[], field: string, rule: ImputationRule): Map<number, unknown> => {
+    const fills = new Map<number, unknown>();
+    const missing = rows.map((_, i) => i).filter(i => isMissing(rows[i][field]));
+    if (missing.length === 0) return fills;
+
+    // Features default to the other numeric fields of the rows, scaled to 0-1
+    const features = (rule.features ?? Object.keys(rows[0] ?? {}))
+      .filter(f => f !== field)
+      .filter(f => rows.some(row => toNumber(row[f]) !== null));
+    const ranges = features.map(f => {
+      let min = Infinity;
+      let max = -Infinity;
+      rows.forEach(row => {
+        const v = toNumber(row[f]);
+        if (v === null) return;
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      });
+      return { min, span: max - min || 1 };
+    });
+    const vector = (row: Row) => features.map((f, j) => {
+      const v = toNumber(row[f]);
+      return v === null ? null : (v - ranges[j].min) / ranges[j].span;
+    });
+
+    const complete = rows.map((_, i) => i).filter(i => !isMissing(rows[i][field]));
+    const stride = Math.max(1, Math.ceil(complete.length / MAX_KNN_CANDIDATES));
+    const candidates = complete.filter((_, n) => n % stride === 0).map(i => ({ value: rows[i][field], vector: vector(rows[i]) }));
+    const numericTarget = candidates.every(c => toNumber(c.value) !== null);
+    const k = rule.neighbors ?? DEFAULT_NEIGHBORS;
+
+    missing.forEach(i => {
+      const target = vector(rows[i]);
+      // The k closest candidates so far, nearest first; a bounded insert instead of sorting them all
+      const nearest: { value: unknown; distance: number }[] = [];
+      candidates.forEach(candidate => {
+        // Mean squared difference over the features both rows have
+        let sum = 0;
+        let shared = 0;
+        target.forEach((v, j) => {
+          const w = candidate.vector[j];
+          if (v === null || w === null) return;
+          sum += (v - w) ** 2;
+          shared++;
+        });
+        if (shared === 0) return;
+        const distance = sum / shared;
+        if (nearest.length === k && distance >= nearest[k - 1].distance) return;
+        let at = nearest.length;
+        while (at > 0 && nearest[at - 1].distance > distance) at--;
+        nearest.splice(at, 0, { value: candidate.value, distance });
+        if (nearest.length > k) nearest.pop();
+      });
+      if (nearest.length === 0) return;
+      if (numericTarget) {
+        fills.set(i, nearest.reduce((sum, c) => sum + (toNumber(c.value) ?? 0), 0) / nearest.length);
+      } else {
+        const votes = new Map<string, { value: unknown; count: number }>();
+        nearest.forEach(c => {
+          const vote = votes.get(String(c.value));
+          if (vote) vote.count++;
+          else votes.set(String(c.value), { value: c.value, count: 1 });
+        });
+        fills.set(i, mostFrequent(votes));
+      }
+    });
+    return fills;
+  };
+
+  /** Fills missing values in place and returns the filled cells; rows are numbered from `offset`. */
+  const apply = (rows: Row[], offset: number): ImputedCell[] => {
+    resolveStatistics();
+    const imputed: ImputedCell[] = [];
+    const fill = (i: number, field: string, strategy: ImputationStrategy, value: unknown) => {
+      if (isMissing(value)) return;
+      rows[i][field] = value;
+      imputed.push({ row: offset + i, field, strategy });
+      const key = `imputed_${strategy}`;
+      counts[key] = (counts[key] || 0) + 1;
+    };
+
+    entries.forEach(([field, rule]) => {
+      switch (rule.strategy) {
+        case 'forward_fill':
+        case 'backward_fill': {
+          const order = fillOrder(rows, rule.orderBy);
+          if (rule.strategy === 'backward_fill') order.reverse();
+          // Only file-order forward fills can continue from the previous chunk
+          let last = rule.strategy === 'forward_fill' && !rule.orderBy ? carried[field] : undefined;
+          order.forEach(i => {
+            if (isMissing(rows[i][field])) fill(i, field, rule.strategy, last);
+            else last = rows[i][field];
+          });
+          if (rule.strategy === 'forward_fill' && !rule.orderBy) carried[field] = last;
+          break;
+        }
+        case 'group_median':
+          rows.forEach((row, i) => {
+            if (!isMissing(row[field])) return;
+            const group = rule.groupBy && !isMissing(row[rule.groupBy]) ? groupMedians[field].get(String(row[rule.groupBy])) : undefined;
+            fill(i, field, rule.strategy, group ?? statisticFills[field]);
+          });
+          break;
+        case 'knn':
+          knnFill(rows, field, rule).forEach((value, i) => fill(i, field, rule.strategy, value));
+          break;
+        default:
+          rows.forEach((row, i) => {
+            if (isMissing(row[field])) fill(i, field, rule.strategy, statisticFills[field]);
+          });
+      }
+    });
+    return imputed;
+  };
+
+  return {
+    // Whether any rule needs statistics from an `observe` pass over all rows
+    needsStatistics: entries.some(([, rule]) => ['mean', 'median', 'mode', 'group_median'].includes(rule.strategy)),
+    observe,
+    apply,
+    counts: () => counts
+  };
+};
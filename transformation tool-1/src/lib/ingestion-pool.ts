@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { UnifiedRecord } from './input-processor';
+import { processInputFile, detectInputKind, decodeAudioFile } from './input-processor';
+import type { FileIngestionProgress, IngestionWorkerRequest, IngestionWorkerResponse } from '../types/ingestion';
+
+export interface IngestFilesOptions {
+  onRecords?: (fileIndex: number, records: UnifiedRecord[]) => void;
+  onFileProgress?: (progress: FileIngestionProgress[]) => void;
+  signal?: AbortSignal;
+}
+
+const MAX_WORKERS = 4;
+
+// Long-lived pool so that heavy singletons inside workers (Whisper, Tesseract) stay warm between runs.
+// Workers are only terminated when a job is cancelled or fails mid-flight.
+class IngestionWorkerPool {
+  private idle: Worker[] = [];
+
+  static isSupported() {
+    return typeof Worker !== 'undefined';
+  }
+
+  get size() {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+  }
+
+  acquire(): Worker {
+    return this.idle.pop() ?? new Worker(new URL('./ingestion.worker.ts', import.meta.url), { type: 'module' });
+  }
+
+  release(worker: Worker) {
+    this.idle.push(worker);
+  }
+
+  discard(worker: Worker) {
+    worker.terminate();
+  }
+}
+
+const pool = new IngestionWorkerPool();
+
+const runJob = (
+  worker: Worker,
+  request: IngestionWorkerRequest,
+  signal: AbortSignal,
+  handlers: {
+    onProgress: (percent: number, message: string) => void;
+    onRecords: (records: UnifiedRecord[]) => void;
+  }
+): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      signal.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (event: MessageEvent<IngestionWorkerResponse>) => {
+      const message = event.data;
+      if (message.job_id !== request.job_id) return;
+
+      switch (message.type) {
+        case 'progress':
+          handlers.onProgress(message.percent, message.message);
+          break;
+        case 'records':
+          handlers.onRecords(message.records);
+          break;
+        case 'done':
+          cleanup();
+          resolve(message.record_count);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'Ingestion worker crashed'));
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new Error('Ingestion cancelled'));
+    };
+
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal.addEventListener('abort', handleAbort);
+
+    const transfer = request.audio ? [request.audio.buffer] : [];
+    worker.postMessage(request, transfer);
+  });
+};
+
+/**
+ * Ingests files in parallel on a pool of Web Workers.
+ * Records are reported incrementally through `onRecords`; the resolved array keeps input file order.
+ * The first failing file aborts the remaining ones.
+ */
+export const ingestFiles = async (files: File[], options: IngestFilesOptions = {}): Promise<UnifiedRecord[]> => {
+  const { onRecords, onFileProgress, signal } = options;
+
+  const progress: FileIngestionProgress[] = files.map(file => ({
+    file_name: file.name,
+    file_size: file.size,
+    status: 'queued',
+    percent: 0,
+    records: 0
+  }));
+  const results: UnifiedRecord[][] = files.map(() => []);
+
+  const report = () => onFileProgress?.(progress.map(p => ({ ...p })));
+
+  const handlersFor = (index: number) => ({
+    onProgress: (percent: number, message: string) => {
+      progress[index].percent = percent;
+      progress[index].message = message;
+      report();
+    },
+    onRecords: (records: UnifiedRecord[]) => {
+      results[index].push(...records);
+      progress[index].records = results[index].length;
+      onRecords?.(index, records);
+      report();
+    }
+  });
+
+  report();
+
+  // Internal controller: aborts siblings when one file fails, and follows the caller's signal
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+  if (signal?.aborted) controller.abort();
+
+  let nextIndex = 0;
+  let firstError: unknown = null;
+
+  const runLane = async () => {
+    let worker: Worker | null = null;
+
+    try {
+      while (nextIndex < files.length && !controller.signal.aborted) {
+        const index = nextIndex++;
+        const file = files[index];
+        progress[index].status = 'running';
+        report();
+
+        try {
+          if (!IngestionWorkerPool.isSupported()) {
+            await processInputFile(file, handlersFor(index));
+          } else {
+            // AudioContext only exists on the main thread, so decode before handing off
+            let audio: Float32Array | undefined;
+            if (detectInputKind(file) === 'audio') {
+              try {
+                audio = await decodeAudioFile(file);
+              } catch (err) {
+                console.warn(`[Ingestion] Could not decode ${file.name} on main thread:`, err);
+              }
+            }
+
+            worker = worker ?? pool.acquire();
+            await runJob(worker, { type: 'ingest', job_id: uuidv4(), file, audio }, controller.signal, handlersFor(index));
+          }
+
+          progress[index].status = 'done';
+          progress[index].percent = 100;
+          report();
+        } catch (error) {
+          const cancelled = controller.signal.aborted;
+          if (!cancelled && firstError === null) firstError = error;
+          progress[index].status = cancelled ? 'cancelled' : 'failed';
+          progress[index].message = error instanceof Error ? error.message : String(error);
+          report();
+          if (worker) {
+            pool.discard(worker);
+            worker = null;
+          }
+          controller.abort();
+          return;
+        }
+      }
+    } finally {
+      if (worker) pool.release(worker);
+    }
+  };
+
+  const laneCount = IngestionWorkerPool.isSupported() ? Math.min(files.length, pool.size) : 1;
+
+  try {
+    await Promise.all(Array.from({ length: laneCount }, () => runLane()));
+
+    if (firstError !== null || controller.signal.aborted) {
+      progress.forEach(p => {
+        if (p.status === 'queued' || p.status === 'running') p.status = 'cancelled';
+      });
+      report();
+      throw firstError ?? new Error('Ingestion cancelled');
+    }
+
+    return results.flat();
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
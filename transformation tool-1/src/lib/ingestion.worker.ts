@@ -0,0 +1,25 @@
+import { processInputFile } from './input-processor';
+import type { IngestionWorkerRequest, IngestionWorkerResponse } from '../types/ingestion';
+
+// Entry point for the ingestion worker pool (see ingestion-pool.ts).
+// Runs PDF parsing, OCR, transcription and spreadsheet parsing off the UI thread.
+
+const post = (message: IngestionWorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<IngestionWorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== 'ingest') return;
+
+  const { job_id, file, audio } = request;
+
+  try {
+    const recordCount = await processInputFile(file, {
+      audio,
+      onRecords: (records) => post({ type: 'records', job_id, records }),
+      onProgress: (percent, message) => post({ type: 'progress', job_id, percent, message })
+    });
+    post({ type: 'done', job_id, record_count: recordCount });
+  } catch (error) {
+    post({ type: 'error', job_id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
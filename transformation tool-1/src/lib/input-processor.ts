@@ -4,6 +4,10 @@ import Tesseract from 'tesseract.js';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import { pipeline, env } from '@xenova/transformers';
+import { assembleRecords, createRowAssembler, detectHeaderLayout, HEADER_SCAN_ROWS, readCSVPreview } from './header-detection';
+import { dialectParseConfig, sniffCSV } from './csv-dialect';
+import { readSheetGrid } from './workbook';
+import { parseJSONText, resolveRecordRoot } from './json-flatten';
 
 // Configure transformers.js
 env.allowLocalModels = false; // Force load from CDN
@@ -35,6 +39,7 @@ export interface UnifiedRecord {
   metadata: {
     file_name: string;
     page?: number | string;
+    sheet_name?: string; // Workbook sheet the row came from
     timestamp?: string;
     speaker?: string;
     user_id?: string;
@@ -44,29 +49,111 @@ export interface UnifiedRecord {
   created_at: string;
 }
 
-export const processInputFile = async (file: File): Promise<UnifiedRecord[]> => {
+export type InputKind = 'pdf' | 'image' | 'audio' | 'csv' | 'excel' | 'json' | 'text';
+
+// Optional hooks so callers (e.g. the ingestion worker) can observe long-running extraction
+export interface IngestionHooks {
+  onRecords?: (records: UnifiedRecord[]) => void; // Called as soon as records are available
+  onProgress?: (percent: number, message: string) => void;
+  audio?: Float32Array; // Pre-decoded 16kHz mono samples (AudioContext is unavailable in workers)
+}
+
+export const detectInputKind = (file: File): InputKind | null => {
   const fileType = file.type;
   const fileName = file.name.toLowerCase();
 
-  if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-    return processPDF(file);
-  } else if (fileType.startsWith('image/') || /\.(jpg|jpeg|png|bmp|webp)$/.test(fileName)) {
-    return processImage(file);
-  } else if (fileType.startsWith('audio/') || /\.(mp3|wav|ogg|m4a)$/.test(fileName)) {
-    return processAudio(file);
-  } else if (fileType === 'text/csv' || fileName.endsWith('.csv')) {
-    return processCSV(file);
-  } else if (fileType.includes('spreadsheet') || fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
-    return processExcel(file);
-  } else if (fileType === 'application/json' || fileName.endsWith('.json')) {
-    return processJSON(file);
-  } else if (fileType.startsWith('text/') || fileName.endsWith('.txt')) {
-    return processText(file);
+  if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) return 'pdf';
+  if (fileType.startsWith('image/') || /\.(jpg|jpeg|png|bmp|webp)$/.test(fileName)) return 'image';
+  if (fileType.startsWith('audio/') || /\.(mp3|wav|ogg|m4a)$/.test(fileName)) return 'audio';
+  if (fileType === 'text/csv' || fileName.endsWith('.csv')) return 'csv';
+  if (fileType.includes('spreadsheet') || fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) return 'excel';
+  if (fileType === 'application/json' || /\.(json|jsonl|ndjson)$/.test(fileName)) return 'json';
+  if (fileType.startsWith('text/') || fileName.endsWith('.txt')) return 'text';
+  return null;
+};
+
+// Records are delivered through `hooks.onRecords`; resolves with how many were extracted
+export const processInputFile = async (file: File, hooks: IngestionHooks = {}): Promise<number> => {
+  const kind = detectInputKind(file);
+  let records: UnifiedRecord[];
+
+  switch (kind) {
+    case 'pdf':
+      // PDFs report records page by page
+      return (await processPDF(file, hooks)).length;
+    case 'image':
+      records = await processImage(file);
+      break;
+    case 'audio':
+      records = await processAudio(file, hooks.audio);
+      break;
+    case 'csv': {
+      // CSV reports records chunk by chunk and keeps none of them
+      const count = await processCSV(file, hooks);
+      hooks.onProgress?.(100, `Extracted ${count} records`);
+      return count;
+    }
+    case 'excel':
+      records = await processExcel(file);
+      break;
+    case 'json':
+      records = await processJSON(file);
+      break;
+    case 'text':
+      records = await processText(file);
+      break;
+    default:
+      throw new Error(`Unsupported file type: ${file.type}`);
   }
 
-  throw new Error(`Unsupported file type: ${file.type}`);
+  hooks.onRecords?.(records);
+  hooks.onProgress?.(100, `Extracted ${records.length} records`);
+  return records.length;
+};
+
+// Decodes an audio file to 16kHz mono samples for Whisper. Must run on the main thread.
+export const decodeAudioFile = async (file: File): Promise<Float32Array> => {
+  const audioContext = new AudioContext({ sampleRate: 16000 });
+  try {
+    const decoded = await audioContext.decodeAudioData(await file.arrayBuffer());
+    if (decoded.numberOfChannels === 1) return decoded.getChannelData(0);
+
+    // Down-mix to mono
+    const mono = new Float32Array(decoded.length);
+    for (let c = 0; c < decoded.numberOfChannels; c++) {
+      const channel = decoded.getChannelData(c);
+      for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / decoded.numberOfChannels;
+    }
+    return mono;
+  } finally {
+    audioContext.close();
+  }
 };
 
+// Canvas factory for pdf.js when running without a DOM (inside a Web Worker)
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas | null }, width: number, height: number) {
+    if (!canvasAndContext.canvas) throw new Error('Canvas is not specified');
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (!canvasAndContext.canvas) throw new Error('Canvas is not specified');
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+const hasDOM = () => typeof document !== 'undefined';
+
 const createRecord = (
   sourceType: UnifiedRecord['source_type'],
   contentType: UnifiedRecord['content_type'],
@@ -89,12 +176,13 @@ const createRecord = (
   created_at: new Date().toISOString()
 });
 
-const processPDF = async (file: File): Promise<UnifiedRecord[]> => {
+const processPDF = async (file: File, hooks: IngestionHooks = {}): Promise<UnifiedRecord[]> => {
   const arrayBuffer = await file.arrayBuffer();
   // Use Uint8Array for data to ensure compatibility
   const pdf = await pdfjsLib.getDocument({
     data: new Uint8Array(arrayBuffer),
     useSystemFonts: true,
+    ...(hasDOM() ? {} : { CanvasFactory: OffscreenCanvasFactory })
   }).promise;
   const records: UnifiedRecord[] = [];
 
@@ -108,20 +196,19 @@ const processPDF = async (file: File): Promise<UnifiedRecord[]> => {
       console.log(`Page ${i} appears to be scanned/image-only. Attempting OCR...`);
       try {
         const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
+        const { canvas, context } = createRenderCanvas(viewport.width, viewport.height);
 
         if (context) {
           await page.render({
-            canvasContext: context,
+            canvasContext: context as CanvasRenderingContext2D,
             viewport: viewport,
-            canvas: canvas
+            canvas: canvas as HTMLCanvasElement
           }).promise;
 
           // Convert canvas to blob/url for Tesseract
-          const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
+          const blob = canvas instanceof OffscreenCanvas
+            ? await canvas.convertToBlob()
+            : await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
           if (blob) {
             const { data: { text: ocrText } } = await Tesseract.recognize(blob, 'eng');
             text = ocrText;
@@ -134,16 +221,30 @@ const processPDF = async (file: File): Promise<UnifiedRecord[]> => {
     }
 
     if (text.trim()) {
-      records.push(createRecord('pdf', 'study_text', text, {
+      const record = createRecord('pdf', 'study_text', text, {
         page: i,
         file_name: file.name,
         is_scanned: !textContent.items.length
-      }));
+      });
+      records.push(record);
+      hooks.onRecords?.([record]);
     }
+    hooks.onProgress?.((i / pdf.numPages) * 100, `Page ${i} of ${pdf.numPages}`);
   }
   return records;
 };
 
+const createRenderCanvas = (width: number, height: number) => {
+  if (hasDOM()) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, context: canvas.getContext('2d') };
+  }
+  const canvas = new OffscreenCanvas(width, height);
+  return { canvas, context: canvas.getContext('2d') };
+};
+
 const processImage = async (file: File): Promise<UnifiedRecord[]> => {
   const { data: { text } } = await Tesseract.recognize(file, 'eng');
 
@@ -166,7 +267,7 @@ class AudioTranscriber {
   }
 }
 
-const processAudio = async (file: File): Promise<UnifiedRecord[]> => {
+const processAudio = async (file: File, audio?: Float32Array): Promise<UnifiedRecord[]> => {
   try {
     console.log(`[Audio] Starting processing for ${file.name}`);
 
@@ -174,18 +275,18 @@ const processAudio = async (file: File): Promise<UnifiedRecord[]> => {
     const transcriber = await AudioTranscriber.getInstance();
     console.log("[Audio] Transcriber instance ready");
 
-    // 2. Transcribe
-    const url = URL.createObjectURL(file);
-    console.log(`[Audio] Created URL: ${url}. Starting transcription...`);
+    // 2. Transcribe (pre-decoded samples when available, otherwise let transformers.js fetch the file)
+    const url = audio ? null : URL.createObjectURL(file);
+    console.log(`[Audio] Starting transcription from ${url ?? 'decoded samples'}...`);
 
-    const output = await transcriber(url, {
+    const output = await transcriber(audio ?? url, {
       chunk_length_s: 30,
       stride_length_s: 5,
       task: 'transcribe'
     });
 
     console.log("[Audio] Transcription complete. Output:", output);
-    URL.revokeObjectURL(url);
+    if (url) URL.revokeObjectURL(url);
 
     // 3. Create Record
     let text = output.text.trim();
@@ -212,50 +313,58 @@ const processAudio = async (file: File): Promise<UnifiedRecord[]> => {
   }
 };
 
-const processCSV = (file: File): Promise<UnifiedRecord[]> => {
+// Parses in chunks so large CSVs report records and progress incrementally
+const processCSV = async (file: File, hooks: IngestionHooks = {}): Promise<number> => {
+  const dialect = await sniffCSV(file);
+  const assembler = createRowAssembler(detectHeaderLayout(await readCSVPreview(file, HEADER_SCAN_ROWS, dialect)));
+
   return new Promise((resolve, reject) => {
-    Papa.parse(file, {
-      header: true,
+    let count = 0;
+    Papa.parse<unknown[]>(file, {
+      ...dialectParseConfig(dialect),
+      header: false,
       skipEmptyLines: true,
-      complete: (results) => {
-        const records = results.data.map((row: any) =>
+      chunkSize: 1024 * 1024,
+      chunk: (results) => {
+        const chunkRecords = assembler.push(results.data).map(row =>
           createRecord('csv', 'log', JSON.stringify(row), {
             file_name: file.name,
             original_row: row
           })
         );
-        resolve(records);
+        count += chunkRecords.length;
+        hooks.onRecords?.(chunkRecords);
+        if (file.size > 0) {
+          hooks.onProgress?.(Math.min(99, (results.meta.cursor / file.size) * 100), `Parsed ${count} rows`);
+        }
       },
+      complete: () => resolve(count),
       error: reject
     });
   });
 };
 
+// Every sheet is ingested; records carry their sheet in metadata.sheet_name
 const processExcel = async (file: File): Promise<UnifiedRecord[]> => {
   const arrayBuffer = await file.arrayBuffer();
   const workbook = XLSX.read(arrayBuffer);
-  const sheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[sheetName];
-  const jsonData = XLSX.utils.sheet_to_json(worksheet);
 
-  return jsonData.map((row: any) =>
-    createRecord('csv', 'log', JSON.stringify(row), { // Treat excel as structured/csv-like
-      file_name: file.name,
-      original_row: row
-    })
-  );
+  return workbook.SheetNames.flatMap(sheetName => {
+    const grid = readSheetGrid(workbook, sheetName);
+    return assembleRecords(grid, detectHeaderLayout(grid)).map(row =>
+      createRecord('csv', 'log', JSON.stringify(row), { // Treat excel as structured/csv-like
+        file_name: file.name,
+        sheet_name: sheetName,
+        original_row: row
+      })
+    );
+  });
 };
 
 const processJSON = async (file: File): Promise<UnifiedRecord[]> => {
   const text = await file.text();
-  let data;
-  try {
-    data = JSON.parse(text);
-  } catch (e) {
-    throw new Error('Invalid JSON file');
-  }
-
-  const items = Array.isArray(data) ? data : [data];
+  // JSON Lines dumps parse line by line; wrapped API responses resolve to their record array
+  const items = resolveRecordRoot(parseJSONText(text, file.name));
 
   // Helper to make JSON readable text
   const formatKey = (key: string): string => {
@@ -0,0 +1,234 @@
+import Papa from 'papaparse';
+import type {
+  ConstraintName,
+  IssueFilter,
+  IssueGroup,
+  IssueGroupKey,
+  IssueQuery,
+  IssueSortKey,
+  SeverityLevel,
+  ValidationIssue,
+  ValidationIssueLog
+} from '../types';
+
+// Every issue of a validation run, stored column by column: row numbers and dictionary
+// codes live in typed arrays, so each issue costs a few bytes plus its (truncated) value
+// instead of an object apiece. Reading an issue back rebuilds the ValidationIssue.
+
+const SEVERITIES: SeverityLevel[] = ['critical', 'warning', 'info'];
+const ISSUE_TYPES: ValidationIssue['type'][] = ['type', 'format', 'range', 'required', 'duplicate', 'consistency', 'encoding', 'other'];
+const MAX_VALUE_LENGTH = 200;
+const INITIAL_CAPACITY = 1024;
+const EXPORT_BATCH = 10_000;
+const INDEX_CACHE_SIZE = 4;
+
+// Interns repeated strings; code 0 is reserved for "none"
+class Dictionary {
+  private codes = new Map<string, number>();
+  readonly values: string[] = [''];
+
+  encode(value: string | undefined): number {
+    if (!value) return 0;
+    let code = this.codes.get(value);
+    if (code === undefined) {
+      code = this.values.length;
+      this.values.push(value);
+      this.codes.set(value, code);
+    }
+    return code;
+  }
+
+  lookup(value: string): number | undefined {
+    return this.codes.get(value);
+  }
+}
+
+const grow = <T extends Uint8Array | Uint32Array>(array: T, capacity: number): T => {
+  const next = new (array.constructor as new (length: number) => T)(capacity);
+  next.set(array);
+  return next;
+};
+
+const formatValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+export class IssueStore implements ValidationIssueLog {
+  private length = 0;
+  private rows = new Uint32Array(INITIAL_CAPACITY);
+  private columnCodes = new Uint32Array(INITIAL_CAPACITY);
+  private messageCodes = new Uint32Array(INITIAL_CAPACITY);
+  private checkCodes = new Uint32Array(INITIAL_CAPACITY);
+  private constraintCodes = new Uint32Array(INITIAL_CAPACITY);
+  private ruleCodes = new Uint32Array(INITIAL_CAPACITY);
+  private severityCodes = new Uint8Array(INITIAL_CAPACITY);
+  private typeCodes = new Uint8Array(INITIAL_CAPACITY);
+  private values: (string | null)[] = [];
+
+  private columns = new Dictionary();
+  private messages = new Dictionary();
+  private checks = new Dictionary();
+  private tags = new Dictionary(); // Constraint names and rule ids
+
+  // Recent filtered/sorted indexes, so paging through a view doesn't filter and sort again
+  private indexCache = new Map<string, Uint32Array>();
+
+  get size() {
+    return this.length;
+  }
+
+  add(issue: ValidationIssue) {
+    if (this.length === this.rows.length) {
+      const capacity = this.rows.length * 2;
+      this.rows = grow(this.rows, capacity);
+      this.columnCodes = grow(this.columnCodes, capacity);
+      this.messageCodes = grow(this.messageCodes, capacity);
+      this.checkCodes = grow(this.checkCodes, capacity);
+      this.constraintCodes = grow(this.constraintCodes, capacity);
+      this.ruleCodes = grow(this.ruleCodes, capacity);
+      this.severityCodes = grow(this.severityCodes, capacity);
+      this.typeCodes = grow(this.typeCodes, capacity);
+    }
+    const i = this.length++;
+    this.rows[i] = issue.row;
+    this.columnCodes[i] = this.columns.encode(issue.column);
+    this.messageCodes[i] = this.messages.encode(issue.message);
+    this.checkCodes[i] = this.checks.encode(issue.check);
+    this.constraintCodes[i] = this.tags.encode(issue.constraint);
+    this.ruleCodes[i] = this.tags.encode(issue.rule);
+    this.severityCodes[i] = Math.max(0, SEVERITIES.indexOf(issue.severity));
+    this.typeCodes[i] = Math.max(0, ISSUE_TYPES.indexOf(issue.type));
+    this.values.push(formatValue(issue.value));
+    this.indexCache.clear();
+  }
+
+  get(index: number): ValidationIssue {
+    const constraint = this.constraintCodes[index];
+    const rule = this.ruleCodes[index];
+    const check = this.checkCodes[index];
+    return {
+      row: this.rows[index],
+      column: this.columns.values[this.columnCodes[index]],
+      value: this.values[index],
+      message: this.messages.values[this.messageCodes[index]],
+      severity: SEVERITIES[this.severityCodes[index]],
+      type: ISSUE_TYPES[this.typeCodes[index]],
+      ...(check && { check: this.checks.values[check] }),
+      ...(constraint && { constraint: this.tags.values[constraint] as ConstraintName }),
+      ...(rule && { rule: this.tags.values[rule] })
+    };
+  }
+
+  slice(start = 0, end = this.length): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (let i = start; i < Math.min(end, this.length); i++) issues.push(this.get(i));
+    return issues;
+  }
+
+  /** Distinct values present for a filterable attribute, for building filter controls. */
+  distinct(key: 'column' | 'check'): string[] {
+    return (key === 'column' ? this.columns : this.checks).values.slice(1);
+  }
+
+  /** Matching issues in the requested order, one page at a time. */
+  query({ filter = {}, sort, offset = 0, limit = 50 }: IssueQuery = {}): { total: number; issues: ValidationIssue[] } {
+    const index = this.index(filter, sort);
+    const issues: ValidationIssue[] = [];
+    for (let i = offset; i < Math.min(offset + limit, index.length); i++) issues.push(this.get(index[i]));
+    return { total: index.length, issues };
+  }
+
+  /** Issue counts per column, check, message, severity or type, largest group first. */
+  aggregate(by: IssueGroupKey, filter: IssueFilter = {}): IssueGroup[] {
+    const groups = new Map<string, IssueGroup>();
+    const index = this.index(filter);
+    for (let n = 0; n < index.length; n++) {
+      const i = index[n];
+      const key = this.attribute(i, by);
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, count: 0, critical: 0, warning: 0, info: 0 };
+        groups.set(key, group);
+      }
+      group.count++;
+      group[SEVERITIES[this.severityCodes[i]]]++;
+    }
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+  }
+
+  /** The matching issues as a CSV or JSON file, built in batches so no single string gets huge. */
+  export(format: 'csv' | 'json', filter: IssueFilter = {}): Blob {
+    const index = this.index(filter);
+    const parts: string[] = [];
+    const columns = ['row', 'column', 'value', 'message', 'severity', 'type', 'check', 'constraint', 'rule'];
+    if (format === 'json') parts.push('[');
+    for (let start = 0; start < index.length; start += EXPORT_BATCH) {
+      const batch: ValidationIssue[] = [];
+      for (let n = start; n < Math.min(start + EXPORT_BATCH, index.length); n++) batch.push(this.get(index[n]));
+      if (format === 'csv') {
+        parts.push(Papa.unparse(batch, { columns, header: start === 0 }), '\r\n');
+      } else {
+        parts.push((start > 0 ? ',\n' : '\n') + batch.map(issue => JSON.stringify(issue)).join(',\n'));
+      }
+    }
+    if (format === 'json') parts.push('\n]\n');
+    if (format === 'csv' && index.length === 0) parts.push(`${columns.join(',')}\r\n`);
+    return new Blob(parts, { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  }
+
+  private attribute(i: number, key: IssueGroupKey | IssueSortKey): string {
+    switch (key) {
+      case 'column': return this.columns.values[this.columnCodes[i]];
+      case 'check': return this.checks.values[this.checkCodes[i]];
+      case 'message': return this.messages.values[this.messageCodes[i]];
+      case 'severity': return SEVERITIES[this.severityCodes[i]];
+      case 'type': return ISSUE_TYPES[this.typeCodes[i]];
+      default: return String(this.rows[i]);
+    }
+  }
+
+  private index(filter: IssueFilter, sort?: IssueQuery['sort']): Uint32Array {
+    const cacheKey = JSON.stringify([filter, sort ?? null]);
+    const cached = this.indexCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Filter values are resolved to codes once; an unknown value matches nothing
+    const column = filter.column !== undefined ? this.columns.lookup(filter.column) ?? -1 : undefined;
+    const check = filter.check !== undefined ? this.checks.lookup(filter.check) ?? -1 : undefined;
+    const severity = filter.severity !== undefined ? SEVERITIES.indexOf(filter.severity) : undefined;
+    const type = filter.type !== undefined ? ISSUE_TYPES.indexOf(filter.type) : undefined;
+    const search = filter.search?.trim().toLowerCase();
+
+    const matches: number[] = [];
+    for (let i = 0; i < this.length; i++) {
+      if (column !== undefined && this.columnCodes[i] !== column) continue;
+      if (check !== undefined && this.checkCodes[i] !== check) continue;
+      if (severity !== undefined && this.severityCodes[i] !== severity) continue;
+      if (type !== undefined && this.typeCodes[i] !== type) continue;
+      if (search) {
+        const haystack = `${this.messages.values[this.messageCodes[i]]}\n${this.values[i] ?? ''}\n${this.columns.values[this.columnCodes[i]]}`;
+        if (!haystack.toLowerCase().includes(search)) continue;
+      }
+      matches.push(i);
+    }
+
+    if (sort) {
+      const direction = sort.direction === 'asc' ? 1 : -1;
+      // Ties keep row order, so a sorted view still reads top to bottom
+      matches.sort((a, b) => {
+        let diff: number;
+        if (sort.key === 'row') diff = this.rows[a] - this.rows[b];
+        else if (sort.key === 'severity') diff = this.severityCodes[a] - this.severityCodes[b];
+        else diff = this.attribute(a, sort.key).localeCompare(this.attribute(b, sort.key));
+        return diff * direction || this.rows[a] - this.rows[b];
+      });
+    }
+
+    const index = Uint32Array.from(matches);
+    if (this.indexCache.size >= INDEX_CACHE_SIZE) this.indexCache.delete(this.indexCache.keys().next().value!);
+    this.indexCache.set(cacheKey, index);
+    return index;
+  }
+}
@@ -0,0 +1,144 @@
+import type { JsonFlattenOptions } from '../types';
+
+// API dumps rarely arrive as flat arrays: records sit under a root key (`data.items`),
+// carry nested objects and arrays, or come as JSON Lines. These helpers turn them into
+// flat rows with dotted column paths (`address.city`) for the tabular pipeline.
+
+export const DEFAULT_JSON_FLATTEN_OPTIONS: Required<Omit<JsonFlattenOptions, 'rootPath'>> = {
+  arrayMode: 'serialize',
+  maxDepth: 5,
+  separator: '.'
+};
+
+// Guards against cartesian blow-up when several nested arrays are exploded
+const MAX_EXPLODED_ROWS_PER_RECORD = 1000;
+
+type JsonObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isJsonLinesFile = (fileName: string) => /\.(jsonl|ndjson)$/i.test(fileName);
+
+// One JSON value per non-empty line
+export const parseJSONLines = (text: string): unknown[] => {
+  return text.split(/\r?\n/).reduce<unknown[]>((acc, line, idx) => {
+    const trimmed = line.trim();
+    if (!trimmed) return acc;
+    try {
+      acc.push(JSON.parse(trimmed));
+    } catch {
+      throw new Error(`Invalid JSON on line ${idx + 1}`);
+    }
+    return acc;
+  }, []);
+};
+
+export const parseJSONText = (text: string, fileName: string): unknown => {
+  if (isJsonLinesFile(fileName)) return parseJSONLines(text);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+};
+
+export const getAtPath = (value: unknown, path: string): unknown => {
+  if (!path) return value;
+  return path.split('.').reduce<unknown>((current, key) => (isPlainObject(current) ? current[key] : undefined), value);
+};
+
+/**
+ * Lists dotted paths to arrays of objects inside a document, largest first.
+ * These are the candidate record roots offered to the user.
+ */
+export const findRecordArrayPaths = (value: unknown, maxDepth = 4): { path: string; length: number }[] => {
+  const found: { path: string; length: number }[] = [];
+
+  const visit = (current: unknown, path: string, depth: number) => {
+    if (Array.isArray(current)) {
+      if (current.some(isPlainObject)) found.push({ path, length: current.length });
+      return;
+    }
+    if (!isPlainObject(current) || depth >= maxDepth) return;
+    Object.entries(current).forEach(([key, child]) => visit(child, path ? `${path}.${key}` : key, depth + 1));
+  };
+
+  visit(value, '', 0);
+  return found.sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Picks the array of records to ingest. An explicit root path wins (`''` is the document itself);
+ * otherwise a top-level array is used as-is, and an object is searched for its largest array
+ * of objects before falling back to treating the object as a single record.
+ */
+export const resolveRecordRoot = (value: unknown, rootPath?: string): unknown[] => {
+  if (rootPath !== undefined) {
+    const target = getAtPath(value, rootPath);
+    if (target === undefined) throw new Error(`Root path "${rootPath}" was not found in the JSON`);
+    return Array.isArray(target) ? target : [target];
+  }
+  if (Array.isArray(value)) return value;
+
+  const [largest] = findRecordArrayPaths(value);
+  if (largest) return getAtPath(value, largest.path) as unknown[];
+  return [value];
+};
+
+// Cartesian product of row fragments, capped per record
+const combine = (left: JsonObject[], right: JsonObject[]): JsonObject[] => {
+  const rows: JsonObject[] = [];
+  for (const l of left) {
+    for (const r of right) {
+      if (rows.length >= MAX_EXPLODED_ROWS_PER_RECORD) return rows;
+      rows.push({ ...l, ...r });
+    }
+  }
+  return rows;
+};
+
+const flattenValue = (
+  value: unknown,
+  prefix: string,
+  depth: number,
+  options: Required<Omit<JsonFlattenOptions, 'rootPath'>>
+): JsonObject[] => {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (depth >= options.maxDepth || entries.length === 0) {
+      return [{ [prefix]: entries.length === 0 ? null : JSON.stringify(value) }];
+    }
+    return entries.reduce<JsonObject[]>((rows, [key, child]) => {
+      const path = prefix ? `${prefix}${options.separator}${key}` : key;
+      return combine(rows, flattenValue(child, path, depth + 1, options));
+    }, [{}]);
+  }
+
+  if (Array.isArray(value)) {
+    // Primitive arrays stay in one cell; object arrays explode into rows when asked to
+    const explode = options.arrayMode === 'explode' && value.length > 0 && value.some(isPlainObject);
+    if (!explode) {
+      const allPrimitive = value.every(item => !isPlainObject(item) && !Array.isArray(item));
+      return [{ [prefix]: allPrimitive ? value.join(', ') : JSON.stringify(value) }];
+    }
+    return value.flatMap(item => flattenValue(item, prefix, depth + 1, options));
+  }
+
+  return [{ [prefix]: value }];
+};
+
+/**
+ * Flattens records into tabular rows. Nested objects become dotted paths; arrays of objects
+ * are either serialized into one JSON cell or exploded into one row per element.
+ */
+export const flattenJSONRecords = (items: unknown[], options: JsonFlattenOptions = {}): Record<string, unknown>[] => {
+  const resolved = {
+    arrayMode: options.arrayMode ?? DEFAULT_JSON_FLATTEN_OPTIONS.arrayMode,
+    maxDepth: options.maxDepth ?? DEFAULT_JSON_FLATTEN_OPTIONS.maxDepth,
+    separator: options.separator ?? DEFAULT_JSON_FLATTEN_OPTIONS.separator
+  };
+  return items.flatMap(item =>
+    isPlainObject(item) ? flattenValue(item, '', 0, resolved) : [{ value: item }]
+  );
+};
@@ -0,0 +1,220 @@
+import type { OutlierAction, OutlierDetector, OutlierRule } from '../types';
+import { ReservoirSample } from './reservoir-sample';
+
+// Outlier treatment for numeric fields during cleaning. Each detector turns a sample of the
+// field's cleaned values into inlier bounds; values outside them are outliers and get the
+// rule's action. Bounds come from `observe`, which must see every cleaned row before `apply`.
+
+export const OUTLIER_DETECTORS: { id: OutlierDetector; label: string; threshold: number; thresholdLabel: string }[] = [
+  { id: 'iqr', label: 'IQR fences', threshold: 1.5, thresholdLabel: 'IQR multiplier' },
+  { id: 'zscore', label: 'Z-score', threshold: 3, thresholdLabel: 'Max |z|' },
+  { id: 'mad', label: 'Median absolute deviation', threshold: 3.5, thresholdLabel: 'Max modified z' },
+  { id: 'isolation', label: 'Isolation score', threshold: 0.6, thresholdLabel: 'Max score (0-1)' }
+];
+
+export const OUTLIER_ACTIONS: { id: OutlierAction; label: string }[] = [
+  { id: 'flag', label: 'Flag only' },
+  { id: 'winsorize', label: 'Winsorize to percentiles' },
+  { id: 'cap', label: 'Cap at detector bounds' },
+  { id: 'null', label: 'Set to null' },
+  { id: 'drop', label: 'Drop the row' }
+];
+
+// CleaningStats.fixes_applied key each treated outlier is counted under
+export const OUTLIER_STATS: Record<OutlierAction, string> = {
+  flag: 'outliers_flagged',
+  winsorize: 'outliers_winsorized',
+  cap: 'outliers_capped',
+  null: 'outliers_nulled',
+  drop: 'outliers_dropped'
+};
+
+export const DEFAULT_PERCENTILES: [number, number] = [5, 95];
+
+const SAMPLE_SIZE = 10_000; // Values kept per field; bounds are exact below this
+const TREES = 100;
+const TREE_SAMPLE = 256;
+
+interface Bounds {
+  lower: number;
+  upper: number;
+  low: number;  // Winsorizing percentiles
+  high: number;
+}
+
+export interface OutlierEvent {
+  index: number; // Row within the rows passed to apply
+  field: string;
+  action: OutlierAction;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+// Linear-interpolated percentile of sorted values, p in 0-100
+const percentile = (sorted: number[], p: number) => {
+  const pos = (sorted.length - 1) * Math.min(1, Math.max(0, p / 100));
+  const base = Math.floor(pos);
+  return sorted[base] + ((sorted[base + 1] ?? sorted[base]) - sorted[base]) * (pos - base);
+};
+
+// Seeded generator so isolation scores, and with them a replayed recipe, are reproducible
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Average path length of an unsuccessful binary search tree lookup, c(n) in the isolation forest paper
+const averagePathLength = (n: number) => (n <= 1 ? 0 : 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n);
+
+type IsolationNode = { size: number } | { split: number; left: IsolationNode; right: IsolationNode };
+
+const buildIsolationTree = (sample: number[], depth: number, depthLimit: number, random: () => number): IsolationNode => {
+  const min = sample[0];
+  const max = sample[sample.length - 1];
+  if (depth >= depthLimit || sample.length <= 1 || min === max) return { size: sample.length };
+  const split = min + random() * (max - min);
+  return {
+    split,
+    left: buildIsolationTree(sample.filter(v => v < split), depth + 1, depthLimit, random),
+    right: buildIsolationTree(sample.filter(v => v >= split), depth + 1, depthLimit, random)
+  };
+};
+
+const isolationPathLength = (value: number, node: IsolationNode): number => {
+  let depth = 0;
+  while ('split' in node) {
+    node = value < node.split ? node.left : node.right;
+    depth++;
+  }
+  return depth + averagePathLength(node.size);
+};
+
+/**
+ * One-dimensional isolation forest: values that random splits isolate quickly score near 1,
+ * values inside the bulk of the data well below 0.5. Returns the score of every sorted value.
+ */
+const isolationScores = (sorted: number[]): number[] => {
+  const random = mulberry32(1);
+  const sampleSize = Math.min(TREE_SAMPLE, sorted.length);
+  const depthLimit = Math.ceil(Math.log2(sampleSize));
+  const pathSums = new Float64Array(sorted.length);
+
+  for (let t = 0; t < TREES; t++) {
+    const sample = Array.from({ length: sampleSize }, () => sorted[Math.floor(random() * sorted.length)]).sort((a, b) => a - b);
+    const tree = buildIsolationTree(sample, 0, depthLimit, random);
+    sorted.forEach((value, i) => { pathSums[i] += isolationPathLength(value, tree); });
+  }
+  const c = averagePathLength(sampleSize) || 1;
+  return Array.from(pathSums, sum => 2 ** (-(sum / TREES) / c));
+};
+
+const detectorBounds = (sorted: number[], rule: OutlierRule): [number, number] => {
+  const threshold = rule.threshold ?? OUTLIER_DETECTORS.find(d => d.id === rule.detector)?.threshold ?? 1.5;
+  switch (rule.detector) {
+    case 'zscore': {
+      const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+      const sd = Math.sqrt(sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length);
+      return [mean - threshold * sd, mean + threshold * sd];
+    }
+    case 'mad': {
+      // Modified z-score (Iglewicz and Hoaglin): 0.6745 * (x - median) / MAD
+      const median = percentile(sorted, 50);
+      const deviations = sorted.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+      const mad = percentile(deviations, 50);
+      return [median - (threshold * mad) / 0.6745, median + (threshold * mad) / 0.6745];
+    }
+    case 'isolation': {
+      const scores = isolationScores(sorted);
+      const inliers = sorted.filter((_, i) => scores[i] <= threshold);
+      return inliers.length > 0 ? [inliers[0], inliers[inliers.length - 1]] : [sorted[0], sorted[sorted.length - 1]];
+    }
+    default: {
+      const q1 = percentile(sorted, 25);
+      const q3 = percentile(sorted, 75);
+      return [q1 - threshold * (q3 - q1), q3 + threshold * (q3 - q1)];
+    }
+  }
+};
+
+/** Problems with one field's outlier rule; empty when it can run. */
+export const validateOutlierRule = (field: string, rule: OutlierRule): string[] => {
+  const errors: string[] = [];
+  if (!OUTLIER_DETECTORS.some(d => d.id === rule.detector)) errors.push(`${field}: unknown outlier detector "${rule.detector}"`);
+  if (!OUTLIER_ACTIONS.some(a => a.id === rule.action)) errors.push(`${field}: unknown outlier action "${rule.action}"`);
+  if (rule.threshold !== undefined && !(rule.threshold > 0)) errors.push(`${field}: outlier threshold must be above 0`);
+  if (rule.percentiles) {
+    const [low, high] = rule.percentiles;
+    if (!(low >= 0 && high <= 100 && low < high)) errors.push(`${field}: winsorizing percentiles must satisfy 0 <= low < high <= 100`);
+  }
+  return errors;
+};
+
+export const createOutlierTreatment = (rules: Record<string, OutlierRule>) => {
+  const entries = Object.entries(rules);
+  const samples: Record<string, ReservoirSample<number>> = Object.fromEntries(
+    entries.map(([field]) => [field, new ReservoirSample<number>(SAMPLE_SIZE)])
+  );
+  let bounds: Record<string, Bounds | null> | null = null;
+
+  /** Collects the numeric values of each field; call for every cleaned row before `apply`. */
+  const observe = (rows: Record<string, unknown>[]) => {
+    entries.forEach(([field]) => {
+      rows.forEach(row => {
+        const number = toNumber(row[field]);
+        if (number !== null) samples[field].add(number);
+      });
+    });
+  };
+
+  const resolveBounds = () => {
+    bounds = Object.fromEntries(
+      entries.map(([field, rule]) => {
+        const sorted = [...samples[field].values()].sort((a, b) => a - b);
+        if (sorted.length < 4) return [field, null]; // Too few values to call anything an outlier
+        const [lower, upper] = detectorBounds(sorted, rule);
+        const [lowP, highP] = rule.percentiles ?? DEFAULT_PERCENTILES;
+        return [field, { lower, upper, low: percentile(sorted, lowP), high: percentile(sorted, highP) }];
+      })
+    );
+    return bounds;
+  };
+
+  /** Treats outliers in place and returns what was done; dropping rows is left to the caller. */
+  const apply = (rows: Record<string, unknown>[]): OutlierEvent[] => {
+    const resolved = bounds ?? resolveBounds();
+    const events: OutlierEvent[] = [];
+    rows.forEach((row, index) => {
+      entries.forEach(([field, rule]) => {
+        const b = resolved[field];
+        const number = toNumber(row[field]);
+        if (!b || number === null || (number >= b.lower && number <= b.upper)) return;
+        switch (rule.action) {
+          case 'winsorize': row[field] = Math.min(b.high, Math.max(b.low, number)); break;
+          case 'cap': row[field] = Math.min(b.upper, Math.max(b.lower, number)); break;
+          case 'null': row[field] = null; break;
+        }
+        events.push({ index, field, action: rule.action });
+      });
+    });
+    return events;
+  };
+
+  return {
+    observe,
+    apply,
+    // Inlier bounds per field, for reporting; null for fields with too few values
+    bounds: () => {
+      const resolved = bounds ?? resolveBounds();
+      return Object.fromEntries(Object.entries(resolved).map(([field, b]) => [field, b && { lower: b.lower, upper: b.upper }]));
+    }
+  };
+};
+
+export type OutlierTreatment = ReturnType<typeof createOutlierTreatment>;
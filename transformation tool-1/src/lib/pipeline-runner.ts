@@ -0,0 +1,192 @@
+import type { UnifiedRecord } from './input-processor';
+import { ingestFiles } from './ingestion-pool';
+import { linkRecordsByTopic } from './topic-linker';
+import { cleanUnifiedText, mergeBatchStats } from './cleaner';
+import { processBatch } from './batch-processor';
+import type { CleaningStats } from '../types';
+import type { BatchIngestionResult } from '../types/validation';
+import type { PipelineProgressEvent, PipelineStageId, PipelineStageTiming } from '../types/pipeline';
+import type { FileIngestionProgress } from '../types/ingestion';
+
+export interface PipelineInput {
+    files?: File[];
+    records?: UnifiedRecord[]; // Already-ingested records (e.g. pasted text/JSON)
+}
+
+export interface PipelineRunOptions {
+    onProgress?: (event: PipelineProgressEvent) => void;
+    signal?: AbortSignal;
+}
+
+export interface PipelineRunResult {
+    records: UnifiedRecord[];
+    stats: CleaningStats;
+    batch_result: BatchIngestionResult;
+    timings: PipelineStageTiming[];
+}
+
+export class PipelineCancelledError extends Error {
+    stage: PipelineStageId;
+
+    constructor(stage: PipelineStageId) {
+        super(`Pipeline cancelled during ${stage}`);
+        this.name = 'PipelineCancelledError';
+        this.stage = stage;
+    }
+}
+
+// Relative cost of each stage, used to turn stage progress into an overall percentage.
+// Ingestion (PDF parsing, OCR, transcription) dominates the runtime.
+const STAGES: { id: PipelineStageId; label: string; weight: number }[] = [
+    { id: 'ingestion', label: 'Ingesting files & extracting raw text', weight: 70 },
+    { id: 'topic_linking', label: 'Analyzing context & linking topics', weight: 10 },
+    { id: 'text_cleaning', label: 'Cleaning text & removing duplicates', weight: 10 },
+    { id: 'batch_validation', label: 'Validating records against ingestion rules', weight: 10 },
+];
+
+const TOTAL_WEIGHT = STAGES.reduce((acc, s) => acc + s.weight, 0);
+
+// Give the browser a chance to paint progress between synchronous stages
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const runUnifiedPipeline = async (
+    input: PipelineInput,
+    options: PipelineRunOptions = {}
+): Promise<PipelineRunResult> => {
+    const { onProgress, signal } = options;
+
+    const timings: PipelineStageTiming[] = STAGES.map(s => ({
+        stage: s.id,
+        label: s.label,
+        status: 'pending',
+        duration_ms: 0,
+        records_in: 0,
+        records_out: 0
+    }));
+
+    const stageIndex = (stage: PipelineStageId) => STAGES.findIndex(s => s.id === stage);
+
+    let fileProgress: FileIngestionProgress[] | undefined;
+
+    const emit = (stage: PipelineStageId, stagePercent: number, message: string) => {
+        const idx = stageIndex(stage);
+        const timing = timings[idx];
+        const completedWeight = STAGES.slice(0, idx).reduce((acc, s) => acc + s.weight, 0);
+        const overall = ((completedWeight + STAGES[idx].weight * (stagePercent / 100)) / TOTAL_WEIGHT) * 100;
+
+        onProgress?.({
+            stage,
+            label: timing.label,
+            status: timing.status,
+            message,
+            overall_percent: Math.round(Math.min(100, overall)),
+            stage_percent: Math.round(stagePercent),
+            records_in: timing.records_in,
+            records_out: timing.records_out,
+            elapsed_ms: timing.started_at !== undefined ? performance.now() - timing.started_at : 0,
+            timings: timings.map(t => ({ ...t })),
+            file_progress: fileProgress
+        });
+    };
+
+    const checkCancelled = (stage: PipelineStageId) => {
+        if (signal?.aborted) {
+            const timing = timings[stageIndex(stage)];
+            timing.status = 'cancelled';
+            if (timing.started_at !== undefined) timing.duration_ms = performance.now() - timing.started_at;
+            emit(stage, 0, 'Pipeline cancelled');
+            throw new PipelineCancelledError(stage);
+        }
+    };
+
+    const runStage = async <T>(
+        stage: PipelineStageId,
+        recordsIn: number,
+        work: (timing: PipelineStageTiming) => Promise<{ result: T; recordsOut: number }>
+    ): Promise<T> => {
+        checkCancelled(stage);
+        const timing = timings[stageIndex(stage)];
+        timing.status = 'running';
+        timing.records_in = recordsIn;
+        timing.started_at = performance.now();
+        emit(stage, 0, timing.label);
+        await yieldToBrowser();
+
+        try {
+            const { result, recordsOut } = await work(timing);
+            timing.records_out = recordsOut;
+            timing.duration_ms = performance.now() - timing.started_at;
+            timing.status = 'completed';
+            emit(stage, 100, `${timing.label} (${recordsOut} records)`);
+            return result;
+        } catch (error) {
+            if (!(error instanceof PipelineCancelledError)) {
+                timing.status = 'failed';
+                timing.duration_ms = performance.now() - timing.started_at;
+                emit(stage, 0, error instanceof Error ? error.message : 'Stage failed');
+            }
+            throw error;
+        }
+    };
+
+    const files = input.files ?? [];
+    const preIngested = input.records ?? [];
+
+    // 1. Ingestion (parallel, off the main thread)
+    const ingested = await runStage('ingestion', files.length + preIngested.length, async (timing) => {
+        if (files.length === 0) {
+            return { result: [...preIngested], recordsOut: preIngested.length };
+        }
+
+        let streamed = preIngested.length;
+        let lastMessage = timing.label;
+
+        try {
+            const fileRecords = await ingestFiles(files, {
+                signal,
+                onRecords: (_fileIndex, records) => {
+                    streamed += records.length;
+                    timing.records_out = streamed;
+                },
+                onFileProgress: (progress) => {
+                    fileProgress = progress;
+                    const done = progress.filter(p => p.status === 'done').length;
+                    const stagePercent = progress.reduce((acc, p) => acc + p.percent, 0) / progress.length;
+                    const running = progress.find(p => p.status === 'running');
+                    if (running) lastMessage = `Ingesting ${running.file_name} (${done}/${progress.length} files done)`;
+                    emit('ingestion', stagePercent, lastMessage);
+                }
+            });
+            const records = [...preIngested, ...fileRecords];
+            return { result: records, recordsOut: records.length };
+        } catch (error) {
+            checkCancelled('ingestion');
+            throw error;
+        }
+    });
+
+    // 2. Topic Linking & Enrichment
+    const linked = await runStage('topic_linking', ingested.length, async () => {
+        const result = linkRecordsByTopic(ingested);
+        return { result, recordsOut: result.length };
+    });
+
+    // 3. Text Cleaning & Deduplication
+    const cleaned = await runStage('text_cleaning', linked.length, async () => {
+        const result = cleanUnifiedText(linked);
+        return { result, recordsOut: result.cleanedRecords.length };
+    });
+
+    // 4. Batch Validation
+    const batchResult = await runStage('batch_validation', cleaned.cleanedRecords.length, async () => {
+        const result = processBatch(cleaned.cleanedRecords);
+        return { result, recordsOut: result.successful_records.length };
+    });
+
+    return {
+        records: batchResult.successful_records,
+        stats: mergeBatchStats(cleaned.stats, batchResult),
+        batch_result: batchResult,
+        timings: timings.map(t => ({ ...t }))
+    };
+};
@@ -0,0 +1,188 @@
+import type {
+  DomainSchema,
+  ForeignKey,
+  KeySample,
+  ReferentialIntegrityResult,
+  SchemaRegistry,
+  ValidationReport
+} from '../types';
+import { streamCSV, type CSVRow, type StreamCSVOptions } from './csv-stream';
+
+// Foreign keys are checked across datasets after each one has been validated on its own.
+// Only key columns are collected (each distinct key with its count and first rows),
+// so a streamed file never has to be held in memory.
+
+const SAMPLE_ROWS = 5;    // Rows remembered per key
+const MAX_SAMPLES = 100;  // Keys listed per finding
+
+interface KeyStats {
+  count: number;
+  rows: number[];
+}
+
+export interface DatasetKeys {
+  name: string;
+  schema: DomainSchema;
+  rowCount: number;
+  keys: Record<string, Map<string, KeyStats>>; // Field id -> key -> occurrences
+}
+
+// Keys match on their trimmed text, so 42 and "42" from different parsers agree
+const normalizeKey = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = (value instanceof Date ? value.toISOString() : String(value)).trim();
+  return text === '' ? null : text;
+};
+
+export const describeForeignKey = (schemaId: string, fk: ForeignKey) =>
+  `${schemaId}.${fk.field} -> ${fk.references.schema}.${fk.references.field}`;
+
+/** Fields of a schema that take part in any foreign key, as the referencing or the referenced side. */
+export const keyFieldsFor = (schema: DomainSchema, registry: SchemaRegistry): string[] => {
+  const fields = new Set((schema.foreignKeys ?? []).map(fk => fk.field));
+  Object.values(registry).forEach(other => {
+    (other.foreignKeys ?? []).forEach(fk => {
+      if (fk.references.schema === schema.id) fields.add(fk.references.field);
+    });
+  });
+  return Array.from(fields);
+};
+
+/** Collects key columns chunk by chunk; rows are numbered like validation issues (1-based). */
+export const createKeyCollector = (
+  name: string,
+  schema: DomainSchema,
+  fieldMapping: Record<string, string>, // Source column -> field id
+  fields: string[]
+) => {
+  const keys: DatasetKeys['keys'] = {};
+  const columns: [string, Map<string, KeyStats>][] = [];
+  Object.entries(fieldMapping).forEach(([column, fieldId]) => {
+    if (!fields.includes(fieldId) || keys[fieldId]) return;
+    keys[fieldId] = new Map();
+    columns.push([column, keys[fieldId]]);
+  });
+  let rowCount = 0;
+
+  return {
+    push: (rows: CSVRow[], offset: number) => {
+      rows.forEach((row, idx) => {
+        columns.forEach(([column, index]) => {
+          const key = normalizeKey(row[column]);
+          if (key === null) return;
+          const stats = index.get(key);
+          if (!stats) index.set(key, { count: 1, rows: [offset + idx + 1] });
+          else {
+            stats.count++;
+            if (stats.rows.length < SAMPLE_ROWS) stats.rows.push(offset + idx + 1);
+          }
+        });
+      });
+      rowCount = Math.max(rowCount, offset + rows.length);
+    },
+    result: (): DatasetKeys => ({ name, schema, rowCount, keys })
+  };
+};
+
+/** Key columns of an in-memory dataset, or of a CSV file streamed from disk. */
+export const collectDatasetKeys = async (
+  name: string,
+  schema: DomainSchema,
+  fieldMapping: Record<string, string>,
+  fields: string[],
+  source: CSVRow[] | File,
+  options: StreamCSVOptions = {}
+): Promise<DatasetKeys> => {
+  const collector = createKeyCollector(name, schema, fieldMapping, fields);
+  if (Array.isArray(source)) collector.push(source, 0);
+  else await streamCSV(source, (rows, offset) => collector.push(rows, offset), options);
+  return collector.result();
+};
+
+const toSamples = (entries: [string, KeyStats][]): KeySample[] =>
+  entries.slice(0, MAX_SAMPLES).map(([value, stats]) => ({ value, rows: stats.rows, count: stats.count }));
+
+/**
+ * Checks every foreign key declared by the loaded datasets' schemas against the dataset
+ * holding the referenced schema. A key referencing its own schema (e.g. manager_id ->
+ * employee_id) is checked within the same dataset when no other one matches.
+ */
+export const checkReferentialIntegrity = (datasets: DatasetKeys[]): ReferentialIntegrityResult[] =>
+  datasets.flatMap(source =>
+    (source.schema.foreignKeys ?? []).map((fk): ReferentialIntegrityResult => {
+      const target =
+        datasets.find(d => d !== source && d.schema.id === fk.references.schema) ??
+        (source.schema.id === fk.references.schema ? source : undefined);
+      const result: ReferentialIntegrityResult = {
+        foreign_key: describeForeignKey(source.schema.id, fk),
+        source_dataset: source.name,
+        target_dataset: target?.name ?? null,
+        cardinality: fk.cardinality ?? 'many-to-one',
+        checked_values: 0,
+        orphan_count: 0,
+        orphans: [],
+        duplicate_key_count: 0,
+        duplicate_keys: [],
+        cardinality_violation_count: 0,
+        cardinality_violations: [],
+        status: 'skipped'
+      };
+
+      const sourceKeys = source.keys[fk.field];
+      if (!sourceKeys) return { ...result, message: `"${fk.field}" is not mapped in ${source.name}` };
+      if (!target) return { ...result, message: `No dataset loaded for schema "${fk.references.schema}"` };
+      const targetKeys = target.keys[fk.references.field];
+      if (!targetKeys) return { ...result, message: `"${fk.references.field}" is not mapped in ${target.name}` };
+
+      const sourceEntries = Array.from(sourceKeys.entries());
+      const orphans = sourceEntries.filter(([key]) => !targetKeys.has(key));
+      // A referenced key must identify a single row, whatever the cardinality
+      const duplicates = Array.from(targetKeys.entries()).filter(([, stats]) => stats.count > 1);
+      const overused = result.cardinality === 'one-to-one'
+        ? sourceEntries.filter(([key, stats]) => stats.count > 1 && targetKeys.has(key))
+        : [];
+
+      const failed = orphans.length > 0 || duplicates.length > 0 || overused.length > 0;
+      return {
+        ...result,
+        checked_values: sourceEntries.reduce((sum, [, stats]) => sum + stats.count, 0),
+        orphan_count: orphans.reduce((sum, [, stats]) => sum + stats.count, 0),
+        orphans: toSamples(orphans),
+        duplicate_key_count: duplicates.length,
+        duplicate_keys: toSamples(duplicates),
+        cardinality_violation_count: overused.length,
+        cardinality_violations: toSamples(overused),
+        status: failed ? 'fail' : 'pass'
+      };
+    })
+  );
+
+/** The report with the cross-dataset section attached; a failed foreign key fails the report. */
+export const withReferentialIntegrity = (
+  report: ValidationReport,
+  results: ReferentialIntegrityResult[]
+): ValidationReport => ({
+  ...report,
+  referential_integrity: results,
+  validation_status: results.some(r => r.status === 'fail') ? 'fail' : report.validation_status
+});
+
+// Keeps only well-formed foreign keys from imported JSON
+export const sanitizeForeignKeys = (raw: unknown): ForeignKey[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const foreignKeys = raw
+    .filter((fk): fk is Record<string, unknown> => typeof fk === 'object' && fk !== null)
+    .filter(fk => {
+      const references = fk.references as Record<string, unknown> | null | undefined;
+      return typeof fk.field === 'string' && typeof references?.schema === 'string' && typeof references.field === 'string';
+    })
+    .map((fk): ForeignKey => {
+      const references = fk.references as { schema: string; field: string };
+      return {
+        field: fk.field as string,
+        references: { schema: references.schema, field: references.field },
+        ...((fk.cardinality === 'many-to-one' || fk.cardinality === 'one-to-one') && { cardinality: fk.cardinality })
+      };
+    });
+  return foreignKeys.length > 0 ? foreignKeys : undefined;
+};
@@ -0,0 +1,266 @@
+import Papa from 'papaparse';
+import type { FieldValidationResult, ReferentialIntegrityResult, ValidationReport } from '../types';
+
+// Shareable copies of a ValidationReport, for data-quality tickets and audits: a standalone
+// HTML page (which also prints to PDF), the full report as JSON and the per-field results as CSV.
+
+export type ReportExportFormat = 'html' | 'pdf' | 'json' | 'csv';
+
+export interface ReportExportOptions {
+  sourceName?: string;  // File the report was produced from
+  generatedAt?: Date;
+}
+
+export const REPORT_EXPORT_FORMATS: { id: ReportExportFormat; label: string; extension: string }[] = [
+  { id: 'html', label: 'HTML report', extension: 'html' },
+  { id: 'pdf', label: 'PDF (print)', extension: 'pdf' },
+  { id: 'json', label: 'JSON (full report)', extension: 'json' },
+  { id: 'csv', label: 'CSV (field results)', extension: 'csv' }
+];
+
+// Issues written into the HTML page; the JSON export always carries every issue
+const MAX_HTML_ISSUES = 1000;
+const MAX_HTML_GROUPS = 50;
+
+const STATUS_LABELS: Record<ValidationReport['validation_status'], string> = {
+  pass: 'Passed',
+  warn: 'Passed with warnings',
+  fail: 'Failed'
+};
+
+const escapeHTML = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '0%');
+
+const scoreClass = (score: number) => (score >= 90 ? 'good' : score >= 70 ? 'fair' : 'poor');
+
+/** Base file name for exports, e.g. "orders_validation_2024-05-01". */
+export const reportFileName = ({ sourceName, generatedAt = new Date() }: ReportExportOptions = {}) => {
+  const base = sourceName ? sourceName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_') : 'dataset';
+  return `${base}_validation_${generatedAt.toISOString().slice(0, 10)}`;
+};
+
+// --- JSON / CSV ---
+
+/** The whole report as JSON; issues are streamed from the issue log rather than built as one string. */
+export const reportToJSON = (report: ValidationReport, options: ReportExportOptions = {}): Blob => {
+  const summary: Partial<ValidationReport> = { ...report };
+  delete summary.issues;
+  delete summary.issue_log;
+  const head = JSON.stringify(
+    {
+      source: options.sourceName ?? null,
+      generated_at: (options.generatedAt ?? new Date()).toISOString(),
+      ...summary,
+      issue_count: report.issue_log.size
+    },
+    null,
+    2
+  );
+  // Splice the issue array in before the closing brace
+  return new Blob([head.slice(0, -2), ',\n  "issues": ', report.issue_log.export('json'), '}\n'], { type: 'application/json' });
+};
+
+/** One row per validated field, with its score, counts and failed checks. */
+export const fieldResultsToCSV = (report: ValidationReport): string =>
+  Papa.unparse(
+    Object.values(report.field_validation_results).map((field: FieldValidationResult) => ({
+      field: field.field,
+      quality_score: field.quality_score,
+      total_values: field.total_values,
+      valid_values: field.valid_values,
+      invalid_values: field.invalid_values,
+      missing_values: field.missing_values,
+      critical: field.severity_counts.critical,
+      warning: field.severity_counts.warning,
+      info: field.severity_counts.info,
+      failed_checks: field.failed_checks.join('; ')
+    }))
+  );
+
+// --- HTML ---
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font: 13px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1e293b; margin: 0; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; }
+  .meta { color: #64748b; margin: 0 0 20px; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .card { border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 14px; }
+  .card .label { color: #64748b; font-size: 11px; text-transform: uppercase; letter-spacing: .04em; }
+  .card .value { font-size: 22px; font-weight: 700; }
+  .good { color: #15803d; } .fair { color: #a16207; } .poor { color: #b91c1c; }
+  .status { display: inline-block; padding: 2px 10px; border-radius: 999px; font-weight: 600; font-size: 12px; }
+  .status.pass { background: #dcfce7; color: #15803d; }
+  .status.warn { background: #fef9c3; color: #a16207; }
+  .status.fail { background: #fee2e2; color: #b91c1c; }
+  .status.skipped { background: #f1f5f9; color: #475569; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; color: #475569; font-weight: 600; background: #f8fafc; }
+  th, td { padding: 5px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .mono { font-family: ui-monospace, Menlo, monospace; font-size: 11px; word-break: break-all; }
+  .critical { color: #b91c1c; } .warning { color: #c2410c; } .info { color: #475569; }
+  .note { color: #64748b; font-style: italic; margin: 6px 0 0; }
+  @page { margin: 14mm; }
+  @media print {
+    body { padding: 0; }
+    h2 { break-after: avoid; }
+    tr { break-inside: avoid; }
+  }
+`;
+
+const fieldTable = (report: ValidationReport) => {
+  const rows = Object.values(report.field_validation_results)
+    .map(field => `
+      <tr>
+        <td>${escapeHTML(field.field)}</td>
+        <td class="num ${scoreClass(field.quality_score)}">${field.quality_score}</td>
+        <td class="num">${field.valid_values.toLocaleString()} (${percent(field.valid_values, field.total_values)})</td>
+        <td class="num">${field.invalid_values.toLocaleString()}</td>
+        <td class="num">${field.missing_values.toLocaleString()}</td>
+        <td class="num critical">${field.severity_counts.critical || ''}</td>
+        <td class="num warning">${field.severity_counts.warning || ''}</td>
+        <td class="num info">${field.severity_counts.info || ''}</td>
+        <td class="mono">${escapeHTML(field.failed_checks.join(', '))}</td>
+      </tr>`)
+    .join('');
+  return `
+    <table>
+      <thead><tr>
+        <th>Field</th><th>Score</th><th>Valid</th><th>Invalid</th><th>Missing</th>
+        <th>Critical</th><th>Warning</th><th>Info</th><th>Failed checks</th>
+      </tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+};
+
+const integrityTable = (results: ReferentialIntegrityResult[]) => `
+  <table>
+    <thead><tr>
+      <th>Foreign key</th><th>Source</th><th>Target</th><th>Checked</th><th>Orphans</th>
+      <th>Duplicate keys</th><th>Cardinality</th><th>Status</th>
+    </tr></thead>
+    <tbody>${results
+      .map(r => `
+        <tr>
+          <td class="mono">${escapeHTML(r.foreign_key)}</td>
+          <td>${escapeHTML(r.source_dataset)}</td>
+          <td>${escapeHTML(r.target_dataset ?? '-')}</td>
+          <td class="num">${r.checked_values.toLocaleString()}</td>
+          <td class="num">${r.orphan_count.toLocaleString()}</td>
+          <td class="num">${r.duplicate_key_count.toLocaleString()}</td>
+          <td class="num">${r.cardinality_violation_count.toLocaleString()}</td>
+          <td><span class="status ${r.status}">${escapeHTML(r.status)}</span>${r.message ? `<div class="note">${escapeHTML(r.message)}</div>` : ''}</td>
+        </tr>`)
+      .join('')}
+    </tbody>
+  </table>`;
+
+const issueSummaryTable = (report: ValidationReport) => {
+  const groups = report.issue_log.aggregate('check');
+  return `
+    <table>
+      <thead><tr><th>Check</th><th>Issues</th><th>Critical</th><th>Warning</th><th>Info</th></tr></thead>
+      <tbody>${groups
+        .slice(0, MAX_HTML_GROUPS)
+        .map(g => `
+          <tr>
+            <td class="mono">${escapeHTML(g.key || 'other')}</td>
+            <td class="num">${g.count.toLocaleString()}</td>
+            <td class="num critical">${g.critical || ''}</td>
+            <td class="num warning">${g.warning || ''}</td>
+            <td class="num info">${g.info || ''}</td>
+          </tr>`)
+        .join('')}
+      </tbody>
+    </table>`;
+};
+
+const issueTable = (report: ValidationReport) => {
+  const { total, issues } = report.issue_log.query({
+    sort: { key: 'severity', direction: 'asc' },
+    limit: MAX_HTML_ISSUES
+  });
+  const rows = issues
+    .map(issue => `
+      <tr>
+        <td class="num">${issue.row}</td>
+        <td>${escapeHTML(issue.column)}</td>
+        <td class="mono">${escapeHTML(issue.value ?? 'null')}</td>
+        <td class="${issue.severity}">${escapeHTML(issue.message)}</td>
+        <td>${escapeHTML(issue.severity)}</td>
+        <td class="mono">${escapeHTML(issue.check ?? issue.type)}</td>
+      </tr>`)
+    .join('');
+  return `
+    <table>
+      <thead><tr><th>Row</th><th>Column</th><th>Value</th><th>Issue</th><th>Severity</th><th>Check</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    ${total > issues.length
+      ? `<p class="note">Showing the first ${issues.length.toLocaleString()} of ${total.toLocaleString()} issues, most severe first. The JSON export lists every issue.</p>`
+      : ''}`;
+};
+
+/** A self-contained HTML page (inline styles, no scripts) that can be attached to a ticket or printed. */
+export const reportToHTML = (report: ValidationReport, options: ReportExportOptions = {}): string => {
+  const generatedAt = options.generatedAt ?? new Date();
+  const title = `Validation report${options.sourceName ? ` – ${options.sourceName}` : ''}`;
+  const errorRate = percent(report.error_count, report.total_records);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHTML(title)}</h1>
+  <p class="meta">
+    Generated ${escapeHTML(generatedAt.toLocaleString())}
+    ${report.profile ? ` · Profile: ${escapeHTML(report.profile.name)}` : ''}
+    · <span class="status ${report.validation_status}">${STATUS_LABELS[report.validation_status]}</span>
+  </p>
+
+  <div class="cards">
+    <div class="card"><div class="label">Quality score</div><div class="value ${scoreClass(report.dataset_quality_score)}">${report.dataset_quality_score}</div></div>
+    <div class="card"><div class="label">Records</div><div class="value">${report.total_records.toLocaleString()}</div></div>
+    <div class="card"><div class="label">Errors</div><div class="value poor">${report.error_count.toLocaleString()}</div><div class="note">${errorRate} of records</div></div>
+    <div class="card"><div class="label">Warnings</div><div class="value fair">${report.warning_count.toLocaleString()}</div></div>
+  </div>
+
+  <h2>Field results</h2>
+  ${fieldTable(report)}
+
+  ${report.referential_integrity?.length ? `<h2>Referential integrity</h2>${integrityTable(report.referential_integrity)}` : ''}
+
+  <h2>Issues by check</h2>
+  ${report.issue_log.size > 0 ? issueSummaryTable(report) : '<p class="note">No issues found.</p>'}
+
+  ${report.issue_log.size > 0 ? `<h2>Issues</h2>${issueTable(report)}` : ''}
+</body>
+</html>
+`;
+};
+
+/** The report in the given format, ready to download. PDF is produced by printing the HTML page instead. */
+export const exportReport = (
+  report: ValidationReport,
+  format: Exclude<ReportExportFormat, 'pdf'>,
+  options: ReportExportOptions = {}
+): Blob => {
+  switch (format) {
+    case 'html': return new Blob([reportToHTML(report, options)], { type: 'text/html' });
+    case 'json': return reportToJSON(report, options);
+    case 'csv': return new Blob([fieldResultsToCSV(report)], { type: 'text/csv' });
+  }
+};
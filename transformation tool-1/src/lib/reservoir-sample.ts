@@ -0,0 +1,39 @@
+// Fixed-size uniform random sample over a stream of unknown length (Algorithm R).
+// Keeps memory bounded when profiling or previewing very large files.
+export class ReservoirSample<T> {
+  private items: T[] = [];
+  private seen = 0;
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  get totalSeen() {
+    return this.seen;
+  }
+
+  add(item: T) {
+    this.seen++;
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+    const j = Math.floor(Math.random() * this.seen);
+    if (j < this.capacity) {
+      this.items[j] = item;
+    }
+  }
+
+  addAll(items: T[]) {
+    for (const item of items) this.add(item);
+  }
+
+  values(): T[] {
+    return this.items;
+  }
+}
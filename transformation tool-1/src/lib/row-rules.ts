@@ -0,0 +1,329 @@
+import type { RowRule } from '../types';
+
+// A small expression language for row-level rules on a DomainSchema, e.g.
+//   end_date >= start_date
+//   total == quantity * unit_price
+//   when: status == 'closed'   assert: present(closed_at)
+//   year <= current_year()
+// Identifiers are canonical field ids. Comparisons involving an empty value are unknown
+// rather than false, so a rule only fails when every value it compares is present.
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+type Value = number | string | boolean | null;
+
+type Node =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; arg: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'op'; value: string };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '(', ')', ',', '!'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+(e[-+]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new RuleSyntaxError(`Unexpected "${char}" at ${i + 1}`);
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (char === "'" || char === '"') {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new RuleSyntaxError(`Unterminated string at ${i + 1}`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0] });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new RuleSyntaxError(`Unexpected "${char}" at ${i + 1}`);
+      tokens.push({ type: 'op', value: op });
+      i += op.length;
+    }
+  }
+  return tokens;
+};
+
+// Binary operators from loosest to tightest binding
+const PRECEDENCE: string[][] = [['or', '||'], ['and', '&&'], ['==', '!=', '<', '<=', '>', '>='], ['+', '-'], ['*', '/']];
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (token: Token | undefined, values: string[]) =>
+    token !== undefined && (token.type === 'op' || token.type === 'ident') && values.includes(token.value as string);
+  const expect = (value: string) => {
+    if (!isOp(peek(), [value])) throw new RuleSyntaxError(`Expected "${value}"`);
+    pos++;
+  };
+
+  const parseBinary = (level: number): Node => {
+    if (level === PRECEDENCE.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (isOp(peek(), PRECEDENCE[level])) {
+      const raw = tokens[pos++].value as string;
+      const op = raw === 'or' ? '||' : raw === 'and' ? '&&' : raw;
+      left = { kind: 'binary', op, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp(peek(), ['-'])) {
+      pos++;
+      return { kind: 'unary', op: '-', arg: parseUnary() };
+    }
+    if (isOp(peek(), ['!', 'not'])) {
+      pos++;
+      return { kind: 'unary', op: 'not', arg: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new RuleSyntaxError('Unexpected end of expression');
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'op' && token.value === '(') {
+      const inner = parseBinary(0);
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'ident') {
+      if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+      if (isOp(peek(), ['('])) {
+        pos++;
+        const args: Node[] = [];
+        if (!isOp(peek(), [')'])) {
+          args.push(parseBinary(0));
+          while (isOp(peek(), [','])) {
+            pos++;
+            args.push(parseBinary(0));
+          }
+        }
+        expect(')');
+        if (!(token.value in FUNCTIONS)) throw new RuleSyntaxError(`Unknown function "${token.value}"`);
+        return { kind: 'call', name: token.value, args };
+      }
+      return { kind: 'field', name: token.value };
+    }
+    throw new RuleSyntaxError(`Unexpected "${token.value}"`);
+  };
+
+  const node = parseBinary(0);
+  if (pos < tokens.length) throw new RuleSyntaxError(`Unexpected "${tokens[pos].value}"`);
+  return node;
+};
+
+// --- Evaluation ---
+
+const isEmpty = (value: Value) => value === null || value === '';
+
+const toNumber = (value: Value): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === null || value.trim() === '') return null;
+  const num = Number(value.trim().replace(/,/g, ''));
+  return Number.isFinite(num) ? num : null;
+};
+
+const toTime = (value: Value): number | null => {
+  if (typeof value !== 'string' || !/\d{1,4}[-/]\d{1,2}/.test(value)) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+};
+
+// Numbers compare numerically (with a relative tolerance so 0.1 * 3 == 0.3),
+// date strings by timestamp, anything else as case-sensitive text
+const compare = (op: string, a: Value, b: Value): boolean | null => {
+  if (isEmpty(a) || isEmpty(b)) return null;
+  let left: number | string;
+  let right: number | string;
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  const timeA = toTime(a);
+  const timeB = toTime(b);
+  if (numA !== null && numB !== null) {
+    left = numA;
+    right = numB;
+    if (op === '==' || op === '!=') {
+      const equal = Math.abs(numA - numB) <= 1e-9 * Math.max(1, Math.abs(numA), Math.abs(numB));
+      return op === '==' ? equal : !equal;
+    }
+  } else if (timeA !== null && timeB !== null) {
+    left = timeA;
+    right = timeB;
+  } else {
+    left = String(a);
+    right = String(b);
+  }
+  switch (op) {
+    case '==': return left === right;
+    case '!=': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    default: return left >= right;
+  }
+};
+
+const arithmetic = (op: string, a: Value, b: Value): number | null => {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x === null || y === null) return null;
+  switch (op) {
+    case '+': return x + y;
+    case '-': return x - y;
+    case '*': return x * y;
+    default: return y === 0 ? null : x / y;
+  }
+};
+
+const FUNCTIONS: Record<string, (...args: Value[]) => Value> = {
+  present: value => !isEmpty(value),
+  is_empty: value => isEmpty(value),
+  current_year: () => new Date().getFullYear(),
+  today: () => new Date().toISOString().split('T')[0],
+  year: value => {
+    const time = toTime(value);
+    return time === null ? null : new Date(time).getUTCFullYear();
+  },
+  abs: value => {
+    const num = toNumber(value);
+    return num === null ? null : Math.abs(num);
+  },
+  round: (value, digits) => {
+    const num = toNumber(value);
+    const factor = 10 ** (toNumber(digits) ?? 0);
+    return num === null ? null : Math.round(num * factor) / factor;
+  },
+  len: value => (isEmpty(value) ? null : String(value).length),
+  lower: value => (isEmpty(value) ? null : String(value).toLowerCase())
+};
+
+// Three-valued logic: null (unknown) only decides the result when the other side can't
+const evaluate = (node: Node, row: (field: string) => Value): Value => {
+  switch (node.kind) {
+    case 'literal': return node.value;
+    case 'field': return row(node.name);
+    case 'call': return FUNCTIONS[node.name](...node.args.map(arg => evaluate(arg, row)));
+    case 'unary': {
+      const value = evaluate(node.arg, row);
+      if (value === null) return null;
+      if (node.op === '-') {
+        const num = toNumber(value);
+        return num === null ? null : -num;
+      }
+      return !value;
+    }
+    case 'binary': {
+      if (node.op === '&&' || node.op === '||') {
+        const left = evaluate(node.left, row);
+        const right = evaluate(node.right, row);
+        if (node.op === '&&') {
+          if (left === false || right === false) return false;
+          return left === null || right === null ? null : true;
+        }
+        if (left === true || right === true) return true;
+        return left === null || right === null ? null : false;
+      }
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (['+', '-', '*', '/'].includes(node.op)) return arithmetic(node.op, left, right);
+      return compare(node.op, left, right);
+    }
+  }
+};
+
+const collectFields = (node: Node, into: Set<string>): Set<string> => {
+  if (node.kind === 'field') into.add(node.name);
+  else if (node.kind === 'unary') collectFields(node.arg, into);
+  else if (node.kind === 'binary') {
+    collectFields(node.left, into);
+    collectFields(node.right, into);
+  } else if (node.kind === 'call') node.args.forEach(arg => collectFields(arg, into));
+  return into;
+};
+
+export interface CompiledRowRule {
+  rule: RowRule;
+  fields: string[]; // Field ids referenced by the rule, assertion first
+  // false when the row breaks the rule; null when it doesn't apply or values are missing
+  test: (row: (field: string) => unknown) => boolean | null;
+}
+
+const toValue = (value: unknown): Value => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+/** Parses a rule's expressions once; throws RuleSyntaxError when either is invalid. */
+export const compileRowRule = (rule: RowRule): CompiledRowRule => {
+  const assertion = parse(rule.assert);
+  const condition = rule.when?.trim() ? parse(rule.when) : null;
+  const fields = collectFields(assertion, new Set());
+  if (condition) collectFields(condition, fields);
+
+  return {
+    rule,
+    fields: Array.from(fields),
+    test: getValue => {
+      const row = (field: string) => toValue(getValue(field));
+      if (condition && evaluate(condition, row) !== true) return null;
+      const result = evaluate(assertion, row);
+      return result === null ? null : Boolean(result);
+    }
+  };
+};
+
+/** Syntax error message for a rule, or null when both expressions parse. */
+export const checkRowRuleSyntax = (rule: RowRule): string | null => {
+  try {
+    compileRowRule(rule);
+    return null;
+  } catch (err) {
+    return err instanceof RuleSyntaxError ? err.message : String(err);
+  }
+};
+
+const SEVERITIES = ['critical', 'warning', 'info'];
+
+// Keeps only well-formed rules from imported JSON
+export const sanitizeRowRules = (raw: unknown): RowRule[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const rules = raw
+    .filter((r): r is Record<string, unknown> => typeof r === 'object' && r !== null)
+    .filter(r => typeof r.id === 'string' && typeof r.assert === 'string')
+    .map(r => ({
+      id: r.id as string,
+      assert: r.assert as string,
+      ...(typeof r.when === 'string' && { when: r.when }),
+      ...(typeof r.description === 'string' && { description: r.description }),
+      ...(SEVERITIES.includes(r.severity as string) && { severity: r.severity as RowRule['severity'] })
+    }));
+  return rules.length > 0 ? rules : undefined;
+};
@@ -0,0 +1,344 @@
+import type { CanonicalField, DomainSchema, FieldConstraints } from '../types';
+import { sanitizeConstraints } from './field-constraints';
+import { sanitizeRowRules } from './row-rules';
+import { sanitizeForeignKeys } from './referential-integrity';
+
+// Converters between DomainSchema and the schema formats of the systems data lands in.
+// Properties with no native equivalent (aliases and unique in JSON Schema, label and
+// unique in Avro, row rules and foreign keys in both) travel as "x-" extension keywords so a round trip
+// keeps them. Avro also keeps the original ids and aliases its name rules would rewrite.
+
+export class SchemaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaImportError';
+  }
+}
+
+export type SchemaExportFormat = 'domain' | 'json-schema' | 'avro' | 'postgres' | 'sqlite';
+
+export const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+type JSONObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JSONObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// --- JSON Schema (draft 2020-12) ---
+
+const JSON_SCHEMA_TYPES: Record<string, JSONObject> = {
+  String: { type: 'string' },
+  Integer: { type: 'integer' },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' },
+  Date: { type: 'string', format: 'date' }
+};
+
+// Our patterns match the whole value; JSON Schema patterns are unanchored
+const ANCHORED_PATTERN = /^\^\(\?:(.*)\)\$$/;
+
+// Enum values are stored as text, but JSON Schema compares them with their type
+const typedEnumValue = (value: string, type: string): unknown => {
+  const text = value.trim();
+  if ((type === 'Integer' || type === 'Float') && text !== '' && !isNaN(Number(text))) return Number(text);
+  if (type === 'Boolean' && /^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  return value;
+};
+
+const toJSONSchemaConstraints = (field: CanonicalField): JSONObject => {
+  const c = field.constraints;
+  if (!c) return {};
+  const values = c.enum?.map(value => typedEnumValue(value, field.type));
+  return {
+    ...(c.min !== undefined && { minimum: c.min }),
+    ...(c.max !== undefined && { maximum: c.max }),
+    ...(c.minLength !== undefined && { minLength: c.minLength }),
+    ...(c.maxLength !== undefined && { maxLength: c.maxLength }),
+    ...(c.pattern && { pattern: `^(?:${c.pattern})$` }),
+    ...(values && { enum: field.required ? values : [...values, null] }),
+    ...(c.minDate && { 'x-minDate': c.minDate }),
+    ...(c.maxDate && { 'x-maxDate': c.maxDate }),
+    ...(c.nullable !== undefined && { 'x-nullable': c.nullable })
+  };
+};
+
+const fromJSONSchemaConstraints = (property: JSONObject): FieldConstraints | undefined => {
+  const pattern = typeof property.pattern === 'string' ? property.pattern : undefined;
+  return sanitizeConstraints({
+    min: property.minimum,
+    max: property.maximum,
+    minLength: property.minLength,
+    maxLength: property.maxLength,
+    pattern: pattern?.match(ANCHORED_PATTERN)?.[1] ?? pattern,
+    enum: Array.isArray(property.enum) ? property.enum.filter(v => v !== null) : undefined,
+    minDate: property['x-minDate'],
+    maxDate: property['x-maxDate'],
+    nullable: property['x-nullable']
+  });
+};
+
+export const toJSONSchema = (schema: DomainSchema): JSONObject => {
+  const properties: Record<string, JSONObject> = {};
+  schema.fields.forEach(field => {
+    const base = JSON_SCHEMA_TYPES[field.type] ?? JSON_SCHEMA_TYPES.String;
+    properties[field.id] = {
+      ...base,
+      // Optional fields may be present but null
+      ...(!field.required && { type: [base.type, 'null'] }),
+      title: field.label,
+      ...(field.description && { description: field.description }),
+      ...(field.aliases.length > 0 && { 'x-aliases': field.aliases }),
+      ...(field.unique && { 'x-unique': true }),
+      ...toJSONSchemaConstraints(field)
+    };
+  });
+
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    $id: schema.id,
+    title: schema.name,
+    type: 'object',
+    properties,
+    required: schema.fields.filter(field => field.required).map(field => field.id),
+    ...(schema.rules && schema.rules.length > 0 && { 'x-rules': schema.rules }),
+    ...(schema.foreignKeys && schema.foreignKeys.length > 0 && { 'x-foreignKeys': schema.foreignKeys })
+  };
+};
+
+const fromJSONSchemaType = (property: JSONObject): string => {
+  const types = Array.isArray(property.type) ? property.type : [property.type];
+  const type = types.find(t => t !== 'null');
+  if (type === 'integer') return 'Integer';
+  if (type === 'number') return 'Float';
+  if (type === 'boolean') return 'Boolean';
+  if (type === 'string' && (property.format === 'date' || property.format === 'date-time')) return 'Date';
+  return 'String';
+};
+
+// "$id" is usually a URI such as https://example.com/orders.schema.json
+const idFromURI = (uri: string) => uri.split(/[/#]/).filter(Boolean).pop()?.replace(/(\.schema)?\.json$/, '') || uri;
+
+export const fromJSONSchema = (json: unknown): DomainSchema => {
+  if (!isObject(json) || !isObject(json.properties)) {
+    throw new SchemaImportError('JSON Schema must be an object schema with "properties"');
+  }
+  const required = new Set(stringList(json.required));
+  const title = typeof json.title === 'string' ? json.title : undefined;
+  const id = typeof json.$id === 'string' ? idFromURI(json.$id) : title ?? 'imported_schema';
+
+  const fields: CanonicalField[] = Object.entries(json.properties).map(([name, value]) => {
+    const property = isObject(value) ? value : {};
+    const constraints = fromJSONSchemaConstraints(property);
+    return {
+      id: name,
+      label: typeof property.title === 'string' ? property.title : name,
+      required: required.has(name),
+      type: fromJSONSchemaType(property),
+      aliases: stringList(property['x-aliases']),
+      ...(property['x-unique'] === true && { unique: true }),
+      ...(typeof property.description === 'string' && { description: property.description }),
+      ...(constraints && { constraints })
+    };
+  });
+
+  const rules = sanitizeRowRules(json['x-rules']);
+  const foreignKeys = sanitizeForeignKeys(json['x-foreignKeys']);
+  return { id, name: title ?? id, fields, ...(rules && { rules }), ...(foreignKeys && { foreignKeys }) };
+};
+
+// --- Avro (.avsc) ---
+
+const AVRO_TYPES: Record<string, unknown> = {
+  String: 'string',
+  Integer: 'long',
+  Float: 'double',
+  Boolean: 'boolean',
+  Date: { type: 'int', logicalType: 'date' }
+};
+
+// Avro names must match [A-Za-z_][A-Za-z0-9_]*
+const toAvroName = (name: string) => {
+  const cleaned = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+// Original id of a renamed record or field, so rules and foreign keys still find it on import
+const originalId = (id: string) => (toAvroName(id) !== id ? { 'x-id': id } : {});
+
+export const toAvroSchema = (schema: DomainSchema): JSONObject => ({
+  type: 'record',
+  name: toAvroName(schema.id),
+  ...originalId(schema.id),
+  doc: schema.name,
+  ...(schema.rules && schema.rules.length > 0 && { 'x-rules': schema.rules }),
+  ...(schema.foreignKeys && schema.foreignKeys.length > 0 && { 'x-foreignKeys': schema.foreignKeys }),
+  fields: schema.fields.map(field => {
+    const type = AVRO_TYPES[field.type] ?? AVRO_TYPES.String;
+    return {
+      name: toAvroName(field.id),
+      ...originalId(field.id),
+      // Optional fields are a union with null, which must come first to default to null
+      type: field.required ? type : ['null', type],
+      ...(!field.required && { default: null }),
+      'x-label': field.label,
+      ...(field.description && { doc: field.description }),
+      ...(field.aliases.length > 0 && { aliases: field.aliases.map(toAvroName) }),
+      // Aliases are matched against source headers, so the unrewritten ones ride along
+      ...(field.aliases.some(alias => toAvroName(alias) !== alias) && { 'x-aliases': field.aliases }),
+      ...(field.unique && { 'x-unique': true }),
+      // Avro has no value constraints, so ours ride along as an extension attribute
+      ...(field.constraints && { 'x-constraints': field.constraints })
+    };
+  })
+});
+
+const fromAvroType = (type: unknown): { type: string; nullable: boolean } => {
+  if (Array.isArray(type)) {
+    const nonNull = type.filter(t => t !== 'null');
+    return { type: fromAvroType(nonNull[0]).type, nullable: nonNull.length < type.length };
+  }
+  if (isObject(type)) {
+    if (type.logicalType === 'date' || String(type.logicalType ?? '').startsWith('timestamp')) {
+      return { type: 'Date', nullable: false };
+    }
+    return fromAvroType(type.type);
+  }
+  switch (type) {
+    case 'int':
+    case 'long': return { type: 'Integer', nullable: false };
+    case 'float':
+    case 'double': return { type: 'Float', nullable: false };
+    case 'boolean': return { type: 'Boolean', nullable: false };
+    default: return { type: 'String', nullable: false };
+  }
+};
+
+export const fromAvroSchema = (avro: unknown): DomainSchema => {
+  if (!isObject(avro) || avro.type !== 'record' || !Array.isArray(avro.fields)) {
+    throw new SchemaImportError('Avro schema must be a record with a "fields" array');
+  }
+  const id = typeof avro['x-id'] === 'string' ? avro['x-id'] : typeof avro.name === 'string' ? avro.name : 'imported_schema';
+
+  const fields: CanonicalField[] = avro.fields.map(value => {
+    if (!isObject(value) || typeof value.name !== 'string') {
+      throw new SchemaImportError(`Avro record "${id}" has a field without a name`);
+    }
+    const { type, nullable } = fromAvroType(value.type);
+    const constraints = sanitizeConstraints(value['x-constraints']);
+    return {
+      id: typeof value['x-id'] === 'string' ? value['x-id'] : value.name,
+      label: typeof value['x-label'] === 'string' ? value['x-label'] : value.name,
+      required: !nullable,
+      type,
+      aliases: stringList(value['x-aliases'] ?? value.aliases),
+      ...(value['x-unique'] === true && { unique: true }),
+      ...(typeof value.doc === 'string' && { description: value.doc }),
+      ...(constraints && { constraints })
+    };
+  });
+
+  const rules = sanitizeRowRules(avro['x-rules']);
+  const foreignKeys = sanitizeForeignKeys(avro['x-foreignKeys']);
+  return {
+    id,
+    name: typeof avro.doc === 'string' ? avro.doc : id,
+    fields,
+    ...(rules && { rules }),
+    ...(foreignKeys && { foreignKeys })
+  };
+};
+
+// --- SQL DDL ---
+
+export type SQLDialect = 'postgres' | 'sqlite';
+
+const SQL_TYPES: Record<SQLDialect, Record<string, string>> = {
+  postgres: { String: 'TEXT', Integer: 'BIGINT', Float: 'DOUBLE PRECISION', Boolean: 'BOOLEAN', Date: 'DATE' },
+  // SQLite has no date or boolean storage class; ISO-8601 text and 0/1 integers are the convention
+  sqlite: { String: 'TEXT', Integer: 'INTEGER', Float: 'REAL', Boolean: 'INTEGER', Date: 'TEXT' }
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+// CHECK clauses for the constraints SQL can express directly
+const checkClauses = (field: CanonicalField, dialect: SQLDialect): string[] => {
+  const c = field.constraints;
+  if (!c) return [];
+  const column = quoteIdentifier(field.id);
+  const length = dialect === 'postgres' ? `char_length(${column})` : `length(${column})`;
+  return [
+    c.min !== undefined && `${column} >= ${c.min}`,
+    c.max !== undefined && `${column} <= ${c.max}`,
+    c.minLength !== undefined && `${length} >= ${c.minLength}`,
+    c.maxLength !== undefined && `${length} <= ${c.maxLength}`,
+    c.enum && c.enum.length > 0 && `${column} IN (${c.enum.map(quoteLiteral).join(', ')})`
+  ].filter((clause): clause is string => Boolean(clause));
+};
+
+/** CREATE TABLE statement for the schema; Postgres also gets COMMENT ON COLUMN for labels. */
+export const toCreateTableSQL = (schema: DomainSchema, dialect: SQLDialect): string => {
+  const table = quoteIdentifier(schema.id);
+  const columns = schema.fields.map(field => {
+    const type = SQL_TYPES[dialect][field.type] ?? SQL_TYPES[dialect].String;
+    const checks = checkClauses(field, dialect);
+    const constraints = [
+      (field.required || field.constraints?.nullable === false) && 'NOT NULL',
+      field.unique && 'UNIQUE',
+      checks.length > 0 && `CHECK (${checks.join(' AND ')})`
+    ].filter(Boolean).join(' ');
+    return `  ${quoteIdentifier(field.id)} ${type}${constraints ? ` ${constraints}` : ''}`;
+  });
+
+  // Table constraints, so the referenced tables have to be created first
+  const references = (schema.foreignKeys ?? []).map(fk =>
+    `  FOREIGN KEY (${quoteIdentifier(fk.field)}) REFERENCES ${quoteIdentifier(fk.references.schema)} (${quoteIdentifier(fk.references.field)})`
+  );
+
+  const statements = [`CREATE TABLE ${table} (\n${[...columns, ...references].join(',\n')}\n);`];
+  if (dialect === 'postgres') {
+    statements.push(`COMMENT ON TABLE ${table} IS ${quoteLiteral(schema.name)};`);
+    schema.fields.forEach(field => {
+      const comment = field.description ? `${field.label}: ${field.description}` : field.label;
+      statements.push(`COMMENT ON COLUMN ${table}.${quoteIdentifier(field.id)} IS ${quoteLiteral(comment)};`);
+    });
+  }
+  return `${statements.join('\n')}\n`;
+};
+
+// --- Dispatch ---
+
+// Our own format: an envelope that can carry several schemas
+export const exportSchemas = (schemas: DomainSchema[]): string =>
+  JSON.stringify({ version: 1, schemas }, null, 2);
+
+/** Converts one parsed JSON document into a DomainSchema, recognizing JSON Schema and Avro. */
+export const fromSchemaDocument = (document: unknown): DomainSchema | null => {
+  if (!isObject(document)) return null;
+  if (document.type === 'record' && Array.isArray(document.fields)) return fromAvroSchema(document);
+  if (typeof document.$schema === 'string' || (document.type === 'object' && isObject(document.properties))) {
+    return fromJSONSchema(document);
+  }
+  return null;
+};
+
+export const SCHEMA_EXPORT_FORMATS: { id: SchemaExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'domain', label: 'Schema JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'json-schema', label: 'JSON Schema (2020-12)', extension: 'schema.json', mimeType: 'application/schema+json' },
+  { id: 'avro', label: 'Avro (.avsc)', extension: 'avsc', mimeType: 'application/json' },
+  { id: 'postgres', label: 'PostgreSQL DDL', extension: 'sql', mimeType: 'application/sql' },
+  { id: 'sqlite', label: 'SQLite DDL', extension: 'sql', mimeType: 'application/sql' }
+];
+
+export const exportSchemaAs = (schema: DomainSchema, format: SchemaExportFormat): string => {
+  switch (format) {
+    case 'domain': return exportSchemas([schema]);
+    case 'json-schema': return JSON.stringify(toJSONSchema(schema), null, 2);
+    case 'avro': return JSON.stringify(toAvroSchema(schema), null, 2);
+    case 'postgres':
+    case 'sqlite': return toCreateTableSQL(schema, format);
+  }
+};
@@ -0,0 +1,85 @@
+import type { AnalysisResult, CanonicalField, ColumnAnalysis, DomainSchema, SchemaRegistry, SemanticMapping, SemanticType } from '../types';
+import { toCanonicalId } from './schema-mapper';
+import { uniqueSchemaId } from './schema-registry';
+
+// Drafts a DomainSchema from what the analysis step already knows about a dataset.
+// The draft is only a starting point: it is reviewed in the schema editor before saving.
+
+// Columns at or below this null rate are drafted as required
+const REQUIRED_MAX_NULL_PERCENT = 0;
+// Distinct/non-null ratio at which a column is drafted as unique
+const UNIQUE_MIN_RATIO = 1;
+// Too few rows make "every value is distinct" meaningless
+const UNIQUE_MIN_ROWS = 10;
+
+const SEMANTIC_DESCRIPTIONS: Record<SemanticType, string> = {
+  identifier: 'Identifier',
+  name: 'Name',
+  date: 'Date',
+  numeric_amount: 'Numeric amount',
+  contact_info: 'Contact information',
+  categorical: 'Category',
+  boolean_flag: 'Yes/no flag',
+  free_text: 'Free text'
+};
+
+const toLabel = (id: string) =>
+  id.split('_').filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+// The original header plus spellings of it that differ from the canonical id
+const collectAliases = (header: string, id: string): string[] => {
+  const variants = [header.trim(), header.trim().toLowerCase(), id.replace(/_/g, '')];
+  return Array.from(new Set(variants)).filter(alias => alias !== '' && alias !== id);
+};
+
+const isUnique = (column: ColumnAnalysis, rowCount: number) => {
+  const profile = column.profile;
+  if (!profile || profile.distinctIsApproximate) return false;
+  return rowCount >= UNIQUE_MIN_ROWS && column.nullPercentage === 0 && profile.uniqueRatio >= UNIQUE_MIN_RATIO;
+};
+
+const describe = (column: ColumnAnalysis, semantic?: SemanticType) => {
+  // Most frequent values first, then the sample for columns without a profile
+  const candidates = [...(column.profile?.topValues.map(v => v.value) ?? []), ...(column.sampleValues ?? []).map(String)];
+  const examples = Array.from(new Set(candidates.map(v => v.trim()).filter(Boolean))).slice(0, 3);
+  const kind = semantic ? SEMANTIC_DESCRIPTIONS[semantic] : column.type;
+  return examples.length > 0 ? `${kind}, e.g. ${examples.join(', ')}` : kind;
+};
+
+/**
+ * Proposes a schema with one canonical field per analyzed column: snake_case ids,
+ * detected types, required when the column has no nulls, unique when every value
+ * is distinct, and the original header kept as an alias so future uploads map back.
+ */
+export const inferDomainSchema = (
+  analysis: AnalysisResult,
+  semantics: SemanticMapping = {},
+  registry: SchemaRegistry = {}
+): DomainSchema => {
+  const baseName = analysis.metadata.fileName.replace(/\.[^.]+$/, '') || 'Dataset';
+  const usedIds = new Set<string>();
+
+  const fields: CanonicalField[] = analysis.columns.map((column, idx) => {
+    const base = toCanonicalId(column.name) || `field_${idx + 1}`;
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}_${n}`;
+    usedIds.add(id);
+
+    const field: CanonicalField = {
+      id,
+      label: toLabel(id),
+      required: column.nullPercentage <= REQUIRED_MAX_NULL_PERCENT,
+      type: column.type,
+      aliases: collectAliases(column.name, id),
+      description: describe(column, semantics[column.name])
+    };
+    if (isUnique(column, analysis.metadata.totalRows)) field.unique = true;
+    return field;
+  });
+
+  return {
+    id: uniqueSchemaId(baseName, registry),
+    name: toLabel(toCanonicalId(baseName)) || baseName,
+    fields
+  };
+};
@@ -1,25 +1,204 @@
-import type { DomainSchema, MappingResult } from '../types';
+import type { CanonicalField, ColumnAnalysis, ColumnMapping, DomainSchema, MappingResult } from '../types';
 import { USER_SCHEMA } from './schemas'; // Default fallback
 
 // Keep for backward compatibility if needed, but we'll prefer passing schema
 export const CANONICAL_SCHEMA = USER_SCHEMA.fields;
 
-export const generateMapping = (detectedColumns: string[], _targetSchema: DomainSchema = USER_SCHEMA): MappingResult => {
+// Matches below this score are left unmapped rather than guessed
+export const MIN_MAPPING_CONFIDENCE = 0.5;
+
+// Name evidence weights: an exact id/label match is certain, an alias match nearly so
+const EXACT_SCORE = 1;
+const ALIAS_SCORE = 0.95;
+const TOKEN_OVERLAP_WEIGHT = 0.8;
+const EDIT_DISTANCE_WEIGHT = 0.85;
+const MIN_EDIT_SIMILARITY = 0.75;
+
+// Value evidence: a strong value signal can map a column whose name says nothing
+const VALUE_ONLY_SCORE = 0.6;
+const VALUE_BONUS = 0.1;
+const TYPE_MISMATCH_FACTOR = 0.6;
+
+/** "customerID" / "Customer-Id " -> "customer_id" */
+export const toCanonicalId = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+const tokenize = (name: string) => toCanonicalId(name).split('_').filter(Boolean);
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const editSimilarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+/**
+ * Mean of Jaccard overlap and how much of the candidate is covered, so that
+ * "annual_income" still scores well against the alias "income".
+ */
+const tokenOverlap = (source: string[], candidate: string[]) => {
+  const setA = new Set(source);
+  const setB = new Set(candidate);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  const intersection = Array.from(setB).filter(t => setA.has(t)).length;
+  const union = new Set([...setA, ...setB]).size;
+  return (intersection / union + intersection / setB.size) / 2;
+};
+
+/** Best name-only score of a source column against a field's id, label and aliases. */
+const scoreName = (column: string, field: CanonicalField): number => {
+  const source = toCanonicalId(column);
+  if (source === '') return 0;
+  const primary = [toCanonicalId(field.id), toCanonicalId(field.label)];
+  const aliases = field.aliases.map(toCanonicalId);
+  if (primary.includes(source)) return EXACT_SCORE;
+  if (aliases.includes(source)) return ALIAS_SCORE;
+
+  const sourceTokens = tokenize(column);
+  let best = 0;
+  [...primary, ...aliases].forEach(candidate => {
+    const overlap = tokenOverlap(sourceTokens, candidate.split('_').filter(Boolean)) * TOKEN_OVERLAP_WEIGHT;
+    const similarity = editSimilarity(source.replace(/_/g, ''), candidate.replace(/_/g, ''));
+    const edit = similarity >= MIN_EDIT_SIMILARITY ? similarity * EDIT_DISTANCE_WEIGHT : 0;
+    best = Math.max(best, overlap, edit);
+  });
+  return best;
+};
+
+const TYPE_COMPATIBILITY: Record<string, string[]> = {
+  String: ['String', 'Integer', 'Float', 'Date', 'Boolean'],
+  Integer: ['Integer'],
+  Float: ['Float', 'Integer'],
+  Date: ['Date'],
+  Boolean: ['Boolean', 'Integer']
+};
+
+const isTypeCompatible = (fieldType: string, columnType: string) =>
+  (TYPE_COMPATIBILITY[fieldType] ?? [fieldType]).includes(columnType);
+
+const share = (values: unknown[], test: (value: string) => boolean) => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '').map(v => String(v).trim());
+  return present.length === 0 ? 0 : present.filter(test).length / present.length;
+};
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const isPhoneLike = (value: string) => /^[+\d\s().-]+$/.test(value) && value.replace(/\D/g, '').length >= 7;
+
+/**
+ * Value-shape detectors keyed by field tokens: when a column's sample values clearly
+ * look like e-mails or phone numbers, fields named that way get the evidence.
+ */
+const VALUE_DETECTORS: { tokens: string[]; test: (value: string) => boolean }[] = [
+  { tokens: ['email', 'mail'], test: value => EMAIL.test(value) },
+  { tokens: ['phone', 'mobile', 'tel'], test: isPhoneLike }
+];
+
+const fieldTokens = (field: CanonicalField) =>
+  new Set([field.id, field.label, ...field.aliases].flatMap(tokenize));
+
+/**
+ * Adjusts a name score with what the column's values say about the field:
+ * detected type compatibility, matching value shapes and uniqueness for unique fields.
+ */
+const applyValueEvidence = (nameScore: number, field: CanonicalField, column?: ColumnAnalysis): number => {
+  if (!column) return nameScore;
+  let score = nameScore;
+
+  const samples = column.sampleValues ?? [];
+  const tokens = fieldTokens(field);
+  const detector = VALUE_DETECTORS.find(d => d.tokens.some(t => tokens.has(t)));
+  const valueMatch = detector ? share(samples, detector.test) >= 0.8 : false;
+
+  if (valueMatch) {
+    score = Math.max(score + VALUE_BONUS, VALUE_ONLY_SCORE);
+  } else if (detector && score > 0 && samples.length > 0) {
+    score *= TYPE_MISMATCH_FACTOR;
+  }
+
+  if (!isTypeCompatible(field.type, column.type)) score *= TYPE_MISMATCH_FACTOR;
+  if (field.unique && column.profile && !column.profile.distinctIsApproximate && column.profile.uniqueRatio < 0.95) {
+    score *= TYPE_MISMATCH_FACTOR;
+  }
+
+  return Math.min(score, 1);
+};
+
+/** Scores one source column against one canonical field, in [0, 1]. */
+export const scoreFieldMatch = (column: string, field: CanonicalField, evidence?: ColumnAnalysis): number =>
+  applyValueEvidence(scoreName(column, field), field, evidence);
+
+/**
+ * Maps source columns to the target schema's canonical field ids. Every column/field
+ * pair is scored from name evidence (exact, alias, token overlap, edit distance) and,
+ * when column analyses are passed, value evidence; pairs are then assigned one-to-one
+ * from the highest score down. Columns with no match above MIN_MAPPING_CONFIDENCE are
+ * reported as unknown and keep their own name.
+ */
+export const generateMapping = (
+  detectedColumns: string[],
+  targetSchema: DomainSchema = USER_SCHEMA,
+  columns: ColumnAnalysis[] = []
+): MappingResult => {
+  const evidence = new Map(columns.map(col => [col.name, col]));
+
+  const candidates: { column: string; field: CanonicalField; score: number }[] = [];
+  detectedColumns.forEach(column => {
+    targetSchema.fields.forEach(field => {
+      const score = scoreFieldMatch(column, field, evidence.get(column));
+      if (score >= MIN_MAPPING_CONFIDENCE) candidates.push({ column, field, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<string, { field: CanonicalField; score: number }>();
+  const usedFields = new Set<string>();
+  candidates.forEach(({ column, field, score }) => {
+    if (assigned.has(column) || usedFields.has(field.id)) return;
+    assigned.set(column, { field, score });
+    usedFields.add(field.id);
+  });
+
   const mapped_columns: Record<string, string> = {};
   const unknown_columns: string[] = [];
-
-  detectedColumns.forEach(col => {
-    // Directly assign source column name to target field
-    mapped_columns[col] = col;
+  const mappings: ColumnMapping[] = detectedColumns.map(column => {
+    const match = assigned.get(column);
+    if (match) mapped_columns[column] = match.field.id;
+    else unknown_columns.push(column);
+    return {
+      originalColumn: column,
+      canonicalField: match?.field.id ?? null,
+      confidence: match ? Number(match.score.toFixed(2)) : 0,
+      isIgnored: false
+    };
   });
-  
-  // No missing schema fields since we are not mapping to a predefined schema
-  const missing_schema_fields: string[] = [];
+
+  const missing_schema_fields = targetSchema.fields
+    .filter(field => field.required && !usedFields.has(field.id))
+    .map(field => field.id);
 
   return {
     detected_columns: detectedColumns,
     mapped_columns,
     unknown_columns,
-    missing_schema_fields
+    missing_schema_fields,
+    mappings
   };
 };
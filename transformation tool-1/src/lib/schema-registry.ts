@@ -0,0 +1,163 @@
+import type { CanonicalField, DomainSchema, SchemaRegistry } from '../types';
+import { SCHEMAS } from './schemas';
+import { SchemaImportError, fromSchemaDocument } from './schema-formats';
+import { compilePattern, sanitizeConstraints } from './field-constraints';
+import { checkRowRuleSyntax, sanitizeRowRules } from './row-rules';
+import { sanitizeForeignKeys } from './referential-integrity';
+import { withStore } from './app-database';
+
+// User-defined schemas live in IndexedDB and are layered over the built-in SCHEMAS:
+// a stored schema with a built-in id overrides it, and deleting it restores the default.
+
+export const FIELD_TYPES = ['String', 'Integer', 'Float', 'Date', 'Boolean'] as const;
+
+export const isBuiltInSchema = (id: string) => id in SCHEMAS;
+
+/** Built-in schemas merged with every schema stored in IndexedDB. */
+export const loadSchemas = async (): Promise<SchemaRegistry> => {
+  const stored = await withStore<DomainSchema[]>('schemas', 'readonly', store => store.getAll());
+  const registry: SchemaRegistry = { ...SCHEMAS };
+  stored.forEach(schema => {
+    registry[schema.id] = schema;
+  });
+  return registry;
+};
+
+export const saveSchema = async (schema: DomainSchema): Promise<void> => {
+  await withStore('schemas', 'readwrite', store => store.put(schema));
+};
+
+export const deleteSchema = async (id: string): Promise<void> => {
+  await withStore('schemas', 'readwrite', store => store.delete(id));
+};
+
+/** "Orders (EU)" -> "orders_eu", suffixed with _2, _3... when taken. Also used for profile ids. */
+export const uniqueSchemaId = (name: string, registry: Record<string, unknown>): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'schema';
+  let id = base;
+  for (let n = 2; id in registry; n++) id = `${base}_${n}`;
+  return id;
+};
+
+export const createEmptySchema = (registry: SchemaRegistry): DomainSchema => ({
+  id: uniqueSchemaId('new_schema', registry),
+  name: 'New Schema',
+  fields: []
+});
+
+export const cloneSchema = (schema: DomainSchema, registry: SchemaRegistry): DomainSchema => {
+  const name = `${schema.name} (copy)`;
+  return {
+    id: uniqueSchemaId(name, registry),
+    name,
+    fields: structuredClone(schema.fields),
+    ...(schema.rules && { rules: structuredClone(schema.rules) }),
+    ...(schema.foreignKeys && { foreignKeys: structuredClone(schema.foreignKeys) })
+  };
+};
+
+/** Problems that would make a schema unusable for mapping; empty when valid. */
+export const validateSchema = (schema: DomainSchema): string[] => {
+  const errors: string[] = [];
+  if (!schema.id.trim()) errors.push('Schema id is required');
+  if (!schema.name.trim()) errors.push('Schema name is required');
+  if (schema.fields.length === 0) errors.push('Schema needs at least one field');
+
+  const seen = new Set<string>();
+  schema.fields.forEach((field, idx) => {
+    const label = field.id || `field ${idx + 1}`;
+    if (!field.id.trim()) errors.push(`Field ${idx + 1} has no id`);
+    else if (seen.has(field.id)) errors.push(`Duplicate field id "${field.id}"`);
+    seen.add(field.id);
+    if (!(FIELD_TYPES as readonly string[]).includes(field.type)) {
+      errors.push(`Field "${label}" has unknown type "${field.type}"`);
+    }
+    const c = field.constraints;
+    if (c?.pattern && !compilePattern(c.pattern)) errors.push(`Field "${label}" has an invalid pattern`);
+    if (c?.min !== undefined && c.max !== undefined && c.min > c.max) errors.push(`Field "${label}" has min above max`);
+    if (c?.minLength !== undefined && c.maxLength !== undefined && c.minLength > c.maxLength) {
+      errors.push(`Field "${label}" has minLength above maxLength`);
+    }
+    if (c?.minDate && isNaN(Date.parse(c.minDate))) errors.push(`Field "${label}" has an invalid minDate`);
+    if (c?.maxDate && isNaN(Date.parse(c.maxDate))) errors.push(`Field "${label}" has an invalid maxDate`);
+  });
+
+  const ruleIds = new Set<string>();
+  (schema.rules ?? []).forEach((rule, idx) => {
+    if (!rule.id.trim()) errors.push(`Rule ${idx + 1} has no id`);
+    else if (ruleIds.has(rule.id)) errors.push(`Duplicate rule id "${rule.id}"`);
+    ruleIds.add(rule.id);
+    const syntaxError = checkRowRuleSyntax(rule);
+    if (syntaxError) errors.push(`Rule "${rule.id || idx + 1}": ${syntaxError}`);
+  });
+
+  (schema.foreignKeys ?? []).forEach((fk, idx) => {
+    if (!seen.has(fk.field)) errors.push(`Foreign key ${idx + 1} uses unknown field "${fk.field}"`);
+    if (!fk.references.schema.trim() || !fk.references.field.trim()) {
+      errors.push(`Foreign key ${idx + 1} needs a referenced schema and field`);
+    }
+  });
+  return errors;
+};
+
+const toField = (raw: unknown, schemaId: string): CanonicalField => {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new SchemaImportError(`Schema "${schemaId}" has a field that is not an object`);
+  }
+  const field = raw as Record<string, unknown>;
+  if (typeof field.id !== 'string') {
+    throw new SchemaImportError(`Schema "${schemaId}" has a field without a string id`);
+  }
+  const constraints = sanitizeConstraints(field.constraints);
+  return {
+    id: field.id,
+    label: typeof field.label === 'string' ? field.label : field.id,
+    required: field.required === true,
+    type: typeof field.type === 'string' ? field.type : 'String',
+    aliases: Array.isArray(field.aliases) ? field.aliases.filter((a): a is string => typeof a === 'string') : [],
+    ...(field.unique === true && { unique: true }),
+    ...(typeof field.description === 'string' && { description: field.description }),
+    ...(constraints && { constraints })
+  };
+};
+
+/**
+ * Parses exported JSON back into schemas. Accepts the export envelope, a bare array
+ * or a single schema object, each entry either in our own format or a JSON Schema /
+ * Avro record; throws SchemaImportError on anything else.
+ */
+export const parseSchemaImport = (text: string): DomainSchema[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SchemaImportError('File is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && Array.isArray((parsed as { schemas?: unknown }).schemas)
+      ? (parsed as { schemas: unknown[] }).schemas
+      : [parsed];
+
+  return list.map(raw => {
+    if (typeof raw !== 'object' || raw === null) throw new SchemaImportError('Schema entry is not an object');
+    const schema = raw as Record<string, unknown>;
+    const converted = fromSchemaDocument(raw);
+    if (!converted && (typeof schema.id !== 'string' || !Array.isArray(schema.fields))) {
+      throw new SchemaImportError('Schema entries need a string "id" and a "fields" array');
+    }
+    const rules = sanitizeRowRules(schema.rules);
+    const foreignKeys = sanitizeForeignKeys(schema.foreignKeys);
+    const result: DomainSchema = converted ?? {
+      id: schema.id as string,
+      name: typeof schema.name === 'string' ? schema.name : schema.id as string,
+      fields: (schema.fields as unknown[]).map(field => toField(field, schema.id as string)),
+      ...(rules && { rules }),
+      ...(foreignKeys && { foreignKeys })
+    };
+    const errors = validateSchema(result);
+    if (errors.length > 0) throw new SchemaImportError(`Schema "${result.id}": ${errors[0]}`);
+    return result;
+  });
+};
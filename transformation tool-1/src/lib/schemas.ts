@@ -28,6 +28,9 @@ export const AUTOMOBILE_SCHEMA: DomainSchema = {
     { id: 'mileage', label: 'Mileage', required: false, type: 'Integer', aliases: ['odometer', 'km_driven', 'miles'] },
     { id: 'color', label: 'Color', required: false, type: 'String', aliases: ['paint', 'shade', 'colour'] },
     { id: 'transmission', label: 'Transmission', required: false, type: 'String', aliases: ['gearbox', 'gear_type'] },
+  ],
+  rules: [
+    { id: 'year_not_future', assert: 'year <= current_year()', description: 'Year cannot be later than the current year' },
   ]
 };
 
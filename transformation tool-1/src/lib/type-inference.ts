@@ -0,0 +1,318 @@
+import type { InferredType, TypeInference, ValueFormat } from '../types';
+
+// Value-level type classification with column-level majority voting. A column is typed by
+// what most of its values look like, so one stray "N/A" no longer demotes it to String,
+// and the formats seen along the way (date pattern, separators, currency, percent) are kept.
+
+// Share of non-null values the winning type needs; below it the column stays String
+const MAJORITY_THRESHOLD = 0.5;
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+const CURRENCY_PATTERN = /^(?<pre>[$€£¥₹]|USD|EUR|GBP|JPY|INR)?\s?(?<num>[-+(]?[\d.,' ]+\)?)\s?(?<post>[$€£¥₹]|USD|EUR|GBP|JPY|INR)?$/i;
+
+const MONTHS = 'jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec';
+
+type DateOrder = 'dmy' | 'mdy' | 'either';
+
+interface DateRule {
+  regex: RegExp;
+  pattern: string | ((order: 'dmy' | 'mdy') => string);
+  order?: (match: RegExpMatchArray) => DateOrder | null; // Validates day/month, null when impossible
+}
+
+const dayMonthOrder = (a: number, b: number): DateOrder | null => {
+  if (a < 1 || b < 1 || a > 31 || b > 31) return null;
+  if (a > 12 && b > 12) return null;
+  if (a > 12) return 'dmy';
+  if (b > 12) return 'mdy';
+  return 'either';
+};
+
+const isValidMonthDay = (month: number, day: number) => month >= 1 && month <= 12 && day >= 1 && day <= 31;
+
+const DATE_RULES: DateRule[] = [
+  {
+    regex: /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+    pattern: 'YYYY-MM-DDTHH:mm:ss',
+    order: m => (isValidMonthDay(+m[2], +m[3]) ? 'either' : null)
+  },
+  {
+    regex: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+    pattern: 'YYYY-MM-DD',
+    order: m => (isValidMonthDay(+m[2], +m[3]) ? 'either' : null)
+  },
+  {
+    regex: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+    pattern: 'YYYY/MM/DD',
+    order: m => (isValidMonthDay(+m[2], +m[3]) ? 'either' : null)
+  },
+  {
+    regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+    pattern: order => (order === 'dmy' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'),
+    order: m => dayMonthOrder(+m[1], +m[2])
+  },
+  {
+    regex: /^(\d{1,2})\/(\d{1,2})\/(\d{2})$/,
+    pattern: order => (order === 'dmy' ? 'DD/MM/YY' : 'MM/DD/YY'),
+    order: m => dayMonthOrder(+m[1], +m[2])
+  },
+  {
+    regex: /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
+    pattern: order => (order === 'dmy' ? 'DD-MM-YYYY' : 'MM-DD-YYYY'),
+    order: m => dayMonthOrder(+m[1], +m[2])
+  },
+  {
+    regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/,
+    pattern: 'DD.MM.YYYY',
+    order: m => (isValidMonthDay(+m[2], +m[1]) ? 'dmy' : null)
+  },
+  {
+    regex: new RegExp(`^(\\d{1,2})[ -](${MONTHS})[a-z]*\\.?[ ,-]+(\\d{2,4})$`, 'i'),
+    pattern: 'D MMM YYYY'
+  },
+  {
+    regex: new RegExp(`^(${MONTHS})[a-z]*\\.? (\\d{1,2}),? (\\d{4})$`, 'i'),
+    pattern: 'MMM D, YYYY'
+  }
+];
+
+// Locale fallback for ambiguous day/month dates such as 03/04/2024
+const localeDateOrder = (): 'dmy' | 'mdy' => {
+  const locale = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+  return /^en-(US|PH)$|^en$/i.test(locale) ? 'mdy' : 'dmy';
+};
+
+type NumberFormat = Pick<ValueFormat, 'thousandsSeparator' | 'decimalSeparator'>;
+
+// Recognizes plain and grouped numbers, returning the separators used
+const parseNumberFormat = (raw: string): { isInteger: boolean; format: NumberFormat } | null => {
+  const s = raw.replace(/^\((.*)\)$/, '-$1'); // Accounting negatives: (1,234)
+  if (/^[-+]?\d+$/.test(s)) return { isInteger: true, format: {} };
+  if (/^[-+]?\d*\.\d+$/.test(s)) return { isInteger: false, format: { decimalSeparator: '.' } };
+  if (/^[-+]?\d+,\d{1,2}$/.test(s) || /^[-+]?\d+,\d{4,}$/.test(s)) return { isInteger: false, format: { decimalSeparator: ',' } };
+
+  const grouped: { regex: RegExp; thousands: ValueFormat['thousandsSeparator']; decimal: '.' | ',' }[] = [
+    { regex: /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/, thousands: ',', decimal: '.' },
+    { regex: /^[-+]?\d{1,3}(\.\d{3})+(,\d+)?$/, thousands: '.', decimal: ',' },
+    { regex: /^[-+]?\d{1,3}( \d{3})+([.,]\d+)?$/, thousands: ' ', decimal: s.includes(',') ? ',' : '.' },
+    { regex: /^[-+]?\d{1,3}('\d{3})+(\.\d+)?$/, thousands: "'", decimal: '.' }
+  ];
+  for (const { regex, thousands, decimal } of grouped) {
+    const match = s.match(regex);
+    if (match) {
+      const hasDecimals = match[2] !== undefined;
+      return {
+        isInteger: !hasDecimals,
+        format: { thousandsSeparator: thousands, ...(hasDecimals ? { decimalSeparator: decimal } : {}) }
+      };
+    }
+  }
+  return null;
+};
+
+export interface ValueClassification {
+  type: InferredType;
+  binary?: boolean;      // 0/1, which can also vote for Boolean
+  datePattern?: string;
+  dateOrder?: DateOrder;
+  format?: ValueFormat;
+}
+
+export const classifyValue = (value: unknown): ValueClassification | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'boolean') return { type: 'Boolean' };
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return null;
+    return Number.isInteger(value) ? { type: 'Integer', binary: value === 0 || value === 1 } : { type: 'Float' };
+  }
+  if (value instanceof Date) return { type: 'Date' };
+
+  const s = String(value).trim();
+  if (s === '') return null;
+  const lower = s.toLowerCase();
+
+  if (BOOLEAN_TOKENS.has(lower)) return { type: 'Boolean' };
+  if (s === '0' || s === '1') return { type: 'Integer', binary: true };
+
+  // Percent: "12%", "12.5 %"
+  const percent = s.match(/^([-+]?[\d.,]+)\s?%$/);
+  if (percent) {
+    const parsed = parseNumberFormat(percent[1]);
+    if (parsed) return { type: 'Float', format: { ...parsed.format, isPercent: true } };
+  }
+
+  const plain = parseNumberFormat(s);
+  if (plain) return { type: plain.isInteger ? 'Integer' : 'Float', format: plain.format };
+
+  // Currency: "$1,234.50", "1.234,50 €", "USD 99"
+  const currency = s.match(CURRENCY_PATTERN);
+  if (currency?.groups && (currency.groups.pre || currency.groups.post)) {
+    const parsed = parseNumberFormat(currency.groups.num.trim());
+    if (parsed) {
+      return {
+        type: parsed.isInteger ? 'Integer' : 'Float',
+        format: { ...parsed.format, currencySymbol: (currency.groups.pre || currency.groups.post).toUpperCase() }
+      };
+    }
+  }
+
+  for (const rule of DATE_RULES) {
+    const match = s.match(rule.regex);
+    if (!match) continue;
+    const order = rule.order ? rule.order(match) : 'either';
+    if (order === null) continue;
+    const datePattern = typeof rule.pattern === 'string' ? rule.pattern : rule.pattern(order === 'mdy' ? 'mdy' : 'dmy');
+    return { type: 'Date', datePattern, dateOrder: order };
+  }
+
+  return { type: 'String' };
+};
+
+const increment = (map: Map<string, number>, key: string | undefined) => {
+  if (key !== undefined) map.set(key, (map.get(key) ?? 0) + 1);
+};
+
+const topKey = (map: Map<string, number>): string | undefined => {
+  let best: string | undefined;
+  let max = 0;
+  map.forEach((count, key) => {
+    if (count > max) {
+      best = key;
+      max = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Accumulates per-value classifications for one column. Works incrementally so
+ * streamed files can be typed chunk by chunk.
+ */
+export class TypeVoteAccumulator {
+  private votes: Record<InferredType, number> = { Integer: 0, Float: 0, Boolean: 0, Date: 0, String: 0 };
+  private binaryNumbers = 0;
+  private binaryStrings = 0;
+  private total = 0;
+  private datePatterns = new Map<string, number>();
+  private dmy = 0;
+  private mdy = 0;
+  private thousands = new Map<string, number>();
+  private decimals = new Map<string, number>();
+  private currencies = new Map<string, number>();
+  private percents = 0;
+
+  add(value: unknown) {
+    const result = classifyValue(value);
+    if (!result) return;
+    this.total++;
+    this.votes[result.type]++;
+
+    if (result.binary) {
+      if (typeof value === 'number') this.binaryNumbers++;
+      else this.binaryStrings++;
+    }
+
+    if (result.type === 'Date') {
+      // Slash/dash dates are tallied per order so the column pattern can be resolved once
+      if (result.dateOrder === 'dmy') this.dmy++;
+      if (result.dateOrder === 'mdy') this.mdy++;
+      increment(this.datePatterns, result.datePattern);
+    }
+
+    if (result.format) {
+      increment(this.thousands, result.format.thousandsSeparator);
+      increment(this.decimals, result.format.decimalSeparator);
+      increment(this.currencies, result.format.currencySymbol);
+      if (result.format.isPercent) this.percents++;
+    }
+  }
+
+  addAll(values: unknown[]) {
+    values.forEach(v => this.add(v));
+  }
+
+  get count() {
+    return this.total;
+  }
+
+  resolve(): TypeInference {
+    const votes = { ...this.votes };
+    if (this.total === 0) return { type: 'String', confidence: 0, votes, format: {} };
+
+    const numeric = votes.Integer + votes.Float;
+    // 0/1 only reads as boolean next to real boolean tokens, or when it came in as text
+    const booleanGroup = votes.Boolean + this.binaryStrings + (votes.Boolean > 0 ? this.binaryNumbers : 0);
+
+    const candidates: { type: InferredType; count: number }[] = [
+      { type: 'Boolean', count: booleanGroup },
+      { type: votes.Float > 0 ? 'Float' : 'Integer', count: numeric },
+      { type: 'Date', count: votes.Date }
+    ];
+    const winner = candidates.reduce((best, c) => (c.count > best.count ? c : best));
+
+    let type: InferredType = 'String';
+    let agreeing = votes.String;
+    if (winner.count / this.total > MAJORITY_THRESHOLD) {
+      type = winner.type;
+      agreeing = winner.count;
+    }
+
+    return {
+      type,
+      confidence: agreeing / this.total,
+      votes,
+      format: this.resolveFormat(type)
+    };
+  }
+
+  private resolveFormat(type: InferredType): ValueFormat {
+    const format: ValueFormat = {};
+
+    if (type === 'Date') {
+      let pattern = topKey(this.datePatterns);
+      // Ambiguous patterns defer to the evidence from unambiguous values, then the locale
+      if (pattern && /^(MM|DD)[/-]/.test(pattern)) {
+        const order = this.dmy > this.mdy ? 'dmy' : this.mdy > this.dmy ? 'mdy' : localeDateOrder();
+        const sep = pattern[2];
+        const year = pattern.endsWith('YYYY') ? 'YYYY' : 'YY';
+        pattern = order === 'dmy' ? `DD${sep}MM${sep}${year}` : `MM${sep}DD${sep}${year}`;
+      }
+      if (pattern) format.datePattern = pattern;
+    }
+
+    if (type === 'Integer' || type === 'Float') {
+      const thousands = topKey(this.thousands);
+      const decimal = topKey(this.decimals);
+      const currency = topKey(this.currencies);
+      if (thousands) format.thousandsSeparator = thousands as ValueFormat['thousandsSeparator'];
+      if (decimal) format.decimalSeparator = decimal as ValueFormat['decimalSeparator'];
+      if (currency) format.currencySymbol = currency;
+      const numeric = this.votes.Integer + this.votes.Float;
+      if (numeric > 0 && this.percents / numeric > MAJORITY_THRESHOLD) format.isPercent = true;
+    }
+
+    return format;
+  }
+}
+
+export const detectType = (values: unknown[]): TypeInference => {
+  const acc = new TypeVoteAccumulator();
+  acc.addAll(values);
+  return acc.resolve();
+};
+
+// Short labels for detected formats, e.g. ["DD/MM/YYYY"] or ["€", "1.000", "%"]
+export const describeFormat = (format: ValueFormat): string[] => {
+  const labels: string[] = [];
+  if (format.datePattern) labels.push(format.datePattern);
+  if (format.currencySymbol) labels.push(format.currencySymbol);
+  if (format.thousandsSeparator) {
+    // Thin space keeps a space separator visible in the label
+    const sep = format.thousandsSeparator === ' ' ? ' ' : format.thousandsSeparator;
+    labels.push(`1${sep}000`);
+  }
+  if (format.decimalSeparator === ',') labels.push('decimal ,');
+  if (format.isPercent) labels.push('%');
+  return labels;
+};
@@ -0,0 +1,126 @@
+import type { CheckSeverity, ProfileRegistry, SeverityLevel, StatusThresholds, ValidationProfile } from '../types';
+import { withStore } from './app-database';
+
+// Validation profiles override how validateData grades what it finds: the severity of each
+// check, how much each field counts towards the dataset score and the pass/warn/fail cutoffs.
+// Anything a profile leaves unset keeps the built-in behaviour below.
+
+export const DEFAULT_THRESHOLDS: StatusThresholds = {
+  failBelowScore: 60,
+  maxErrorRate: 0.1,
+  warnBelowScore: 90,
+  warnOnWarnings: true
+};
+
+export const DEFAULT_WARNING_PENALTY = 50;
+
+// Every check validateData runs, with its built-in severity. Row rules add 'rule:<id>' checks.
+export const VALIDATION_CHECKS: { id: string; label: string; severity: SeverityLevel }[] = [
+  { id: 'non-null', label: 'Identifier is empty', severity: 'critical' },
+  { id: 'uniqueness', label: 'Duplicate identifier', severity: 'critical' },
+  { id: 'numeric_conversion', label: 'Invalid numeric value', severity: 'critical' },
+  { id: 'non-negative', label: 'Negative amount', severity: 'warning' },
+  { id: 'outlier_iqr', label: 'IQR outlier', severity: 'warning' },
+  { id: 'date_parsing', label: 'Invalid date', severity: 'critical' },
+  { id: 'not_future', label: 'Future date', severity: 'warning' },
+  { id: 'email_regex', label: 'Invalid email', severity: 'critical' },
+  { id: 'phone_length', label: 'Suspicious phone length', severity: 'warning' },
+  { id: 'boolean_conversion', label: 'Invalid boolean', severity: 'critical' },
+  { id: 'length_check', label: 'Excessive text length', severity: 'warning' },
+  { id: 'encoding', label: 'Control characters in text', severity: 'warning' },
+  // Target schema constraints
+  { id: 'required', label: 'Required field is empty', severity: 'critical' },
+  { id: 'nullable', label: 'Non-nullable field is empty', severity: 'critical' },
+  { id: 'unique', label: 'Duplicate in unique field', severity: 'critical' },
+  { id: 'type', label: 'Wrong type for schema field', severity: 'critical' },
+  { id: 'min', label: 'Below min', severity: 'critical' },
+  { id: 'max', label: 'Above max', severity: 'critical' },
+  { id: 'minDate', label: 'Before minDate', severity: 'critical' },
+  { id: 'maxDate', label: 'After maxDate', severity: 'critical' },
+  { id: 'minLength', label: 'Shorter than minLength', severity: 'critical' },
+  { id: 'maxLength', label: 'Longer than maxLength', severity: 'critical' },
+  { id: 'pattern', label: 'Pattern mismatch', severity: 'critical' },
+  { id: 'enum', label: 'Not an allowed value', severity: 'critical' }
+];
+
+export const DEFAULT_PROFILE: ValidationProfile = {
+  id: 'default',
+  name: 'Default',
+  description: 'Built-in severities; fails below a score of 60 or above 10% errors'
+};
+
+export const STRICT_PROFILE: ValidationProfile = {
+  id: 'strict',
+  name: 'Strict',
+  description: 'For data loaded straight into production tables: suspicious values are errors',
+  severities: { 'non-negative': 'critical', not_future: 'critical', phone_length: 'critical', encoding: 'critical' },
+  warningPenalty: 100,
+  thresholds: { failBelowScore: 90, maxErrorRate: 0.01, warnBelowScore: 98 }
+};
+
+export const EXPLORATORY_PROFILE: ValidationProfile = {
+  id: 'exploratory',
+  name: 'Exploratory',
+  description: 'For first looks at new sources: only hard type errors count against the data',
+  severities: { outlier_iqr: 'info', not_future: 'info', phone_length: 'info', length_check: 'off' },
+  warningPenalty: 20,
+  thresholds: { failBelowScore: 40, maxErrorRate: 0.25, warnBelowScore: 75, warnOnWarnings: false }
+};
+
+export const VALIDATION_PROFILES: ProfileRegistry = {
+  default: DEFAULT_PROFILE,
+  strict: STRICT_PROFILE,
+  exploratory: EXPLORATORY_PROFILE
+};
+
+export const isBuiltInProfile = (id: string) => id in VALIDATION_PROFILES;
+
+export const resolveSeverity = (
+  profile: ValidationProfile | undefined,
+  check: string,
+  fallback: SeverityLevel
+): CheckSeverity => profile?.severities?.[check] ?? fallback;
+
+export const resolveThresholds = (profile?: ValidationProfile): StatusThresholds => ({
+  ...DEFAULT_THRESHOLDS,
+  ...profile?.thresholds
+});
+
+/** Weight of a column in the dataset score, looked up by source column, then by its field id. */
+export const resolveFieldWeight = (profile: ValidationProfile | undefined, column: string, fieldId?: string): number =>
+  profile?.fieldWeights?.[column] ?? (fieldId !== undefined ? profile?.fieldWeights?.[fieldId] : undefined) ?? 1;
+
+/** Built-in profiles merged with the profiles stored in IndexedDB. */
+export const loadProfiles = async (): Promise<ProfileRegistry> => {
+  const stored = await withStore<ValidationProfile[]>('profiles', 'readonly', store => store.getAll());
+  const registry: ProfileRegistry = { ...VALIDATION_PROFILES };
+  stored.forEach(profile => {
+    registry[profile.id] = profile;
+  });
+  return registry;
+};
+
+export const saveProfile = async (profile: ValidationProfile): Promise<void> => {
+  await withStore('profiles', 'readwrite', store => store.put(profile));
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await withStore('profiles', 'readwrite', store => store.delete(id));
+};
+
+/** Problems that would make a profile grade runs nonsensically; empty when valid. */
+export const validateProfile = (profile: ValidationProfile): string[] => {
+  const errors: string[] = [];
+  if (!profile.id.trim()) errors.push('Profile id is required');
+  if (!profile.name.trim()) errors.push('Profile name is required');
+  const t = resolveThresholds(profile);
+  if (t.failBelowScore > t.warnBelowScore) errors.push('Fail cutoff cannot be above the warn cutoff');
+  if (t.maxErrorRate < 0 || t.maxErrorRate > 1) errors.push('Error rate must be between 0 and 1');
+  if (profile.warningPenalty !== undefined && (profile.warningPenalty < 0 || profile.warningPenalty > 100)) {
+    errors.push('Warning penalty must be between 0 and 100');
+  }
+  Object.entries(profile.fieldWeights ?? {}).forEach(([field, weight]) => {
+    if (!(weight >= 0)) errors.push(`Weight for "${field}" must be zero or more`);
+  });
+  return errors;
+};
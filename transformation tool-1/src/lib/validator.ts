@@ -1,10 +1,76 @@
-import type { ValidationReport, ValidationIssue, SemanticMapping, FieldValidationResult, SeverityLevel } from '../types';
+import type {
+  CanonicalField,
+  CategoryCluster,
+  DomainSchema,
+  FieldValidationResult,
+  SemanticMapping,
+  SeverityLevel,
+  ValidationIssue,
+  ValidationProfile,
+  ValidationReport
+} from '../types';
+import { ReservoirSample } from './reservoir-sample';
+import { BoundedKeySet } from './bounded-key-set';
+import { IssueStore } from './issue-store';
+import { checkMissingValue, compileFieldCheck, type FieldValueCheck } from './field-constraints';
+import { compileRowRule, type CompiledRowRule } from './row-rules';
+import { clusterCategoryValues } from './value-maps';
+import {
+  DEFAULT_PROFILE,
+  DEFAULT_WARNING_PENALTY,
+  resolveFieldWeight,
+  resolveSeverity,
+  resolveThresholds
+} from './validation-profiles';
+
+const MAX_CATEGORY_VALUES = 1_000; // Distinct values counted per categorical column for spelling clusters
 
 export const validateData = (
   data: any[],
-  semanticMapping: SemanticMapping
+  semanticMapping: SemanticMapping,
+  options: ValidationSessionOptions = {}
 ): ValidationReport => {
-  const issues: ValidationIssue[] = [];
+  const session = createValidationSession(semanticMapping, options);
+  session.addRows(data, 0);
+  session.scanOutliers(data, 0);
+  return session.finalize();
+};
+
+export interface ValidationSessionOptions {
+  // Max numeric values kept per column for IQR bounds. Unbounded by default (exact quartiles).
+  numericSampleSize?: number;
+  // Target schema and source column -> field id mapping; mapped columns are also
+  // checked against their CanonicalField's type, required/unique flags and constraints,
+  // and rows against the schema's RowRules
+  schema?: DomainSchema;
+  fieldMapping?: Record<string, string>;
+  // Severity overrides, field weights and status cutoffs; DEFAULT_PROFILE when omitted
+  profile?: ValidationProfile;
+  // Keep every issue in the report's issue_log (default). Sessions that only need each
+  // chunk's issues, like post-cleaning validation, turn this off so memory stays bounded.
+  retainIssues?: boolean;
+}
+
+/**
+ * Chunk-by-chunk validation. Call `addRows` for every chunk, then (optionally) `scanOutliers`
+ * for every chunk as a second pass once all values have been seen, then `finalize`.
+ */
+export interface ValidationSession {
+  addRows: (rows: Record<string, unknown>[], offset: number) => ValidationIssue[]; // Issues raised for these rows
+  scanOutliers: (rows: Record<string, unknown>[], offset: number) => void;
+  finalize: () => ValidationReport;
+}
+
+export const createValidationSession = (
+  semanticMapping: SemanticMapping,
+  options: ValidationSessionOptions = {}
+): ValidationSession => {
+  const numericSampleSize = options.numericSampleSize ?? Infinity;
+  const profile = options.profile ?? DEFAULT_PROFILE;
+  const issueLog = new IssueStore();
+  const retainIssues = options.retainIssues ?? true;
+  let chunkIssues: ValidationIssue[] = [];
+  let rowCount = 0;
   const fieldResults: Record<string, FieldValidationResult> = {};
 
   const columns = Object.keys(semanticMapping);
@@ -28,249 +94,340 @@ export const validateData = (
   });
 
   // Helper for numeric analysis (outlier detection)
-  const numericValues: Record<string, number[]> = {};
-  // Helper for uniqueness
-  const uniqueSets: Record<string, Set<any>> = {};
-  // Helper for categorical analysis
-  const categoricalValues: Record<string, Set<string>> = {};
+  const numericValues: Record<string, ReservoirSample<number>> = {};
+  // Helper for uniqueness, capped at MAX_TRACKED_KEYS distinct values per column
+  const uniqueSets: Record<string, BoundedKeySet<string>> = {};
+  // Helper for categorical analysis: distinct values and their counts, clustered into spellings at the end
+  const categoricalValues: Record<string, Map<string, number>> = {};
 
   columns.forEach(col => {
-    if (semanticMapping[col] === 'numeric_amount') numericValues[col] = [];
-    if (semanticMapping[col] === 'identifier') uniqueSets[col] = new Set();
-    if (semanticMapping[col] === 'categorical') categoricalValues[col] = new Set();
+    if (semanticMapping[col] === 'numeric_amount') numericValues[col] = new ReservoirSample(numericSampleSize);
+    if (semanticMapping[col] === 'identifier') uniqueSets[col] = new BoundedKeySet();
+    if (semanticMapping[col] === 'categorical') categoricalValues[col] = new Map();
+  });
+
+  // Schema fields per source column, with their compiled value checks
+  const schemaFields: Record<string, { field: CanonicalField; check: FieldValueCheck; seen?: BoundedKeySet<string> }> = {};
+  if (options.schema && options.fieldMapping) {
+    const fieldsById = new Map(options.schema.fields.map(field => [field.id, field]));
+    columns.forEach(col => {
+      const field = fieldsById.get(options.fieldMapping?.[col] ?? '');
+      if (!field) return;
+      // Identifier columns already get a uniqueness check from their semantic type
+      const trackUnique = field.unique && semanticMapping[col] !== 'identifier';
+      schemaFields[col] = { field, check: compileFieldCheck(field), seen: trackUnique ? new BoundedKeySet() : undefined };
+    });
+  }
+
+  // Row rules refer to field ids; a rule is skipped when any field it uses is not mapped,
+  // since a missing column would make checks like present(x) fail on every row
+  const sourceColumnByField: Record<string, string> = {};
+  Object.entries(options.fieldMapping ?? {}).forEach(([source, fieldId]) => {
+    sourceColumnByField[fieldId] = source;
+  });
+  const rowRules: CompiledRowRule[] = [];
+  (options.schema?.rules ?? []).forEach(rule => {
+    try {
+      const compiled = compileRowRule(rule);
+      if (compiled.fields.every(field => field in sourceColumnByField)) rowRules.push(compiled);
+    } catch (err) {
+      console.warn(`Skipping row rule "${rule.id}"`, err);
+    }
   });
 
   let errorCount = 0;
   let warningCount = 0;
 
+  const addIssue = (
+    row: number,
+    col: string,
+    val: any,
+    msg: string,
+    sev: SeverityLevel,
+    type: ValidationIssue['type'],
+    tags: Pick<ValidationIssue, 'constraint' | 'rule' | 'check'> = {}
+  ) => {
+    const issue: ValidationIssue = {
+      row: row + 1, // 1-based index for display
+      column: col,
+      value: val,
+      message: msg,
+      severity: sev,
+      type: type,
+      ...tags
+    };
+    chunkIssues.push(issue);
+    if (retainIssues) issueLog.add(issue);
+  };
+
+  // Record each failed check once so memory stays flat on large inputs
+  const markFailed = (result: FieldValidationResult, check: string) => {
+    if (!result.failed_checks.includes(check)) result.failed_checks.push(check);
+  };
+
+  // Reports a failed check at the severity the profile gives it and updates the counts.
+  // Returns false when the value should count as invalid, i.e. the issue is critical.
+  const flag = (
+    row: number,
+    col: string,
+    val: unknown,
+    check: string,
+    msg: string,
+    defaultSeverity: SeverityLevel,
+    type: ValidationIssue['type'],
+    tags: Pick<ValidationIssue, 'constraint' | 'rule'> = {}
+  ): boolean => {
+    const severity = resolveSeverity(profile, check, defaultSeverity);
+    if (severity === 'off') return true;
+    addIssue(row, col, val, msg, severity, type, { ...tags, check });
+    const result = fieldResults[col];
+    if (result) {
+      result.severity_counts[severity]++;
+      markFailed(result, check);
+    }
+    if (severity === 'critical') errorCount++;
+    else if (severity === 'warning') warningCount++;
+    return severity !== 'critical';
+  };
+
   // 1. Value-Level Validation
-  data.forEach((row, rowIndex) => {
-    columns.forEach(col => {
-      const value = row[col];
-      const type = semanticMapping[col];
-      const result = fieldResults[col];
-
-      result.total_values++;
-
-      // Null check
-      if (value === null || value === undefined || value === '') {
-        result.missing_values++;
-        // Identifiers must be non-null
-        if (type === 'identifier') {
-          addIssue(issues, rowIndex, col, value, 'Identifier cannot be null', 'critical', 'required');
-          result.invalid_values++;
-          result.severity_counts.critical++;
-          result.failed_checks.push('non-null');
-          errorCount++;
-        }
-        return; // Skip other checks if null
-      }
+  const addRows = (rows: Record<string, unknown>[], offset: number): ValidationIssue[] => {
+    chunkIssues = [];
+    rowCount += rows.length;
+    rows.forEach((row, chunkIndex) => {
+      const rowIndex = offset + chunkIndex;
+      columns.forEach(col => {
+        const value = row[col];
+        const type = semanticMapping[col];
+        const result = fieldResults[col];
 
-      let isValid = true;
-      const strVal = String(value).trim();
-
-      switch (type) {
-        case 'identifier':
-          if (uniqueSets[col].has(strVal)) {
-            addIssue(issues, rowIndex, col, value, 'Duplicate identifier', 'critical', 'duplicate');
-            isValid = false;
-            result.severity_counts.critical++;
-            result.failed_checks.push('uniqueness');
-            errorCount++;
-          } else {
-            uniqueSets[col].add(strVal);
-          }
-          break;
-
-        case 'numeric_amount':
-          if (isNaN(Number(strVal))) {
-            addIssue(issues, rowIndex, col, value, 'Invalid numeric value', 'critical', 'type');
-            isValid = false;
-            result.severity_counts.critical++;
-            result.failed_checks.push('numeric_conversion');
-            errorCount++;
-          } else {
-            const num = Number(strVal);
-            numericValues[col].push(num);
-            if (num < 0) {
-              addIssue(issues, rowIndex, col, value, 'Negative value detected', 'warning', 'range');
-              // Warning doesn't necessarily mark value as invalid for processing, but reduces score
-              warningCount++;
-              result.severity_counts.warning++;
-              result.failed_checks.push('non-negative');
+        result.total_values++;
+
+        // Null check
+        if (value === null || value === undefined || value === '') {
+          result.missing_values++;
+          // Identifiers must be non-null
+          if (type === 'identifier') {
+            if (!flag(rowIndex, col, value, 'non-null', 'Identifier cannot be null', 'critical', 'required')) {
+              result.invalid_values++;
             }
+            return;
           }
-          break;
-
-        case 'date':
-          if (isNaN(Date.parse(strVal))) {
-            // Try simple regex backup for common formats before failing
-            const dateRegex = /^\d{4}[-\/]\d{2}[-\/]\d{2}$|^\d{2}[-\/]\d{2}[-\/]\d{4}$/;
-            if (!dateRegex.test(strVal)) {
-              addIssue(issues, rowIndex, col, value, 'Invalid date format', 'critical', 'format');
-              isValid = false;
-              result.severity_counts.critical++;
-              result.failed_checks.push('date_parsing');
-              errorCount++;
+          const missing = schemaFields[col] && checkMissingValue(schemaFields[col].field);
+          if (missing && !flag(rowIndex, col, value, missing.constraint, missing.message, 'critical', missing.type, { constraint: missing.constraint })) {
+            result.invalid_values++;
+          }
+          return; // Skip other checks if null
+        }
+
+        let isValid = true;
+        const strVal = String(value).trim();
+
+        switch (type) {
+          case 'identifier':
+            if (uniqueSets[col].has(strVal)) {
+              isValid = flag(rowIndex, col, value, 'uniqueness', 'Duplicate identifier', 'critical', 'duplicate');
+            } else {
+              uniqueSets[col].add(strVal);
             }
-          } else {
-            const d = new Date(strVal);
-            if (d > new Date()) {
-              addIssue(issues, rowIndex, col, value, 'Future date detected', 'warning', 'range');
-              warningCount++;
-              result.severity_counts.warning++;
-              result.failed_checks.push('not_future');
+            break;
+
+          case 'numeric_amount':
+            if (isNaN(Number(strVal))) {
+              isValid = flag(rowIndex, col, value, 'numeric_conversion', 'Invalid numeric value', 'critical', 'type');
+            } else {
+              const num = Number(strVal);
+              numericValues[col].add(num);
+              if (num < 0) {
+                // A warning doesn't mark the value invalid for processing, but reduces the score
+                isValid = flag(rowIndex, col, value, 'non-negative', 'Negative value detected', 'warning', 'range');
+              }
             }
-          }
-          break;
-
-        case 'contact_info':
-          // Email heuristic
-          if (strVal.includes('@')) {
-            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(strVal)) {
-              addIssue(issues, rowIndex, col, value, 'Invalid email format', 'critical', 'format');
-              isValid = false;
-              result.severity_counts.critical++;
-              result.failed_checks.push('email_regex');
-              errorCount++;
+            break;
+
+          case 'date':
+            if (isNaN(Date.parse(strVal))) {
+              // Try simple regex backup for common formats before failing
+              const dateRegex = /^\d{4}[-\/]\d{2}[-\/]\d{2}$|^\d{2}[-\/]\d{2}[-\/]\d{4}$/;
+              if (!dateRegex.test(strVal)) {
+                isValid = flag(rowIndex, col, value, 'date_parsing', 'Invalid date format', 'critical', 'format');
+              }
+            } else {
+              const d = new Date(strVal);
+              if (d > new Date()) {
+                isValid = flag(rowIndex, col, value, 'not_future', 'Future date detected', 'warning', 'range');
+              }
             }
-          }
-          // Phone heuristic (digits length)
-          else if (/[0-9]/.test(strVal)) {
-            const digits = strVal.replace(/\D/g, '');
-            if (digits.length < 7 || digits.length > 15) {
-              addIssue(issues, rowIndex, col, value, 'Suspicious phone number length', 'warning', 'format');
-              warningCount++;
-              result.severity_counts.warning++;
-              result.failed_checks.push('phone_length');
+            break;
+
+          case 'contact_info':
+            // Email heuristic
+            if (strVal.includes('@')) {
+              if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(strVal)) {
+                isValid = flag(rowIndex, col, value, 'email_regex', 'Invalid email format', 'critical', 'format');
+              }
             }
+            // Phone heuristic (digits length)
+            else if (/[0-9]/.test(strVal)) {
+              const digits = strVal.replace(/\D/g, '');
+              if (digits.length < 7 || digits.length > 15) {
+                isValid = flag(rowIndex, col, value, 'phone_length', 'Suspicious phone number length', 'warning', 'format');
+              }
+            }
+            break;
+
+          case 'boolean_flag':
+            const lower = strVal.toLowerCase();
+            if (!['true', 'false', '0', '1', 'yes', 'no', 'y', 'n'].includes(lower)) {
+              isValid = flag(rowIndex, col, value, 'boolean_conversion', 'Invalid boolean value', 'critical', 'type');
+            }
+            break;
+
+          case 'categorical': {
+            const values = categoricalValues[col];
+            const count = values.get(strVal);
+            if (count !== undefined) values.set(strVal, count + 1);
+            else if (values.size < MAX_CATEGORY_VALUES) values.set(strVal, 1);
+            break;
           }
-          break;
-
-        case 'boolean_flag':
-          const lower = strVal.toLowerCase();
-          if (!['true', 'false', '0', '1', 'yes', 'no', 'y', 'n'].includes(lower)) {
-            addIssue(issues, rowIndex, col, value, 'Invalid boolean value', 'critical', 'type');
-            isValid = false;
-            result.severity_counts.critical++;
-            result.failed_checks.push('boolean_conversion');
-            errorCount++;
-          }
-          break;
-
-        case 'categorical':
-          categoricalValues[col].add(strVal);
-          break;
-
-        case 'free_text':
-          if (strVal.length > 10000) {
-            addIssue(issues, rowIndex, col, value, 'Excessive text length', 'warning', 'consistency');
-            warningCount++;
-            result.severity_counts.warning++;
-            result.failed_checks.push('length_check');
-          }
-          // Simple encoding check (control characters)
-          // eslint-disable-next-line no-control-regex
-          if (/[\x00-\x08\x0E-\x1F]/.test(strVal)) {
-            addIssue(issues, rowIndex, col, value, 'Hidden control characters detected', 'warning', 'encoding');
-            warningCount++;
-            result.severity_counts.warning++;
-            result.failed_checks.push('encoding');
+
+          case 'free_text':
+            if (strVal.length > 10000) {
+              isValid = flag(rowIndex, col, value, 'length_check', 'Excessive text length', 'warning', 'consistency');
+            }
+            // Simple encoding check (control characters)
+            // eslint-disable-next-line no-control-regex
+            if (/[\x00-\x08\x0E-\x1F]/.test(strVal)) {
+              isValid = flag(rowIndex, col, value, 'encoding', 'Hidden control characters detected', 'warning', 'encoding') && isValid;
+            }
+            break;
+        }
+
+        // Target schema constraints, skipped when a semantic check already rejected the value
+        const schemaField = schemaFields[col];
+        if (schemaField && isValid) {
+          const violations = schemaField.check(value);
+          if (schemaField.seen) {
+            if (schemaField.seen.has(strVal)) {
+              violations.push({ constraint: 'unique', message: `Duplicate value in unique field "${schemaField.field.id}"`, type: 'duplicate' });
+            } else {
+              schemaField.seen.add(strVal);
+            }
           }
-          break;
-      }
+          violations.forEach(v => {
+            if (!flag(rowIndex, col, value, v.constraint, v.message, 'critical', v.type, { constraint: v.constraint })) isValid = false;
+          });
+        }
 
-      if (isValid) {
-        result.valid_values++;
-      } else {
-        result.invalid_values++;
-      }
+        if (isValid) {
+          result.valid_values++;
+        } else {
+          result.invalid_values++;
+        }
+      });
+
+      // Cross-field rules; issues are attributed to the first field a rule mentions
+      rowRules.forEach(({ rule, fields, test }) => {
+        if (test(field => row[sourceColumnByField[field]]) !== false) return;
+        const col = sourceColumnByField[fields[0]];
+        const values = fields.map(field => `${field}=${String(row[sourceColumnByField[field]] ?? 'null')}`).join(', ');
+        const message = rule.description ?? `Rule "${rule.id}" failed: ${rule.assert}`;
+        flag(rowIndex, col, values, `rule:${rule.id}`, message, rule.severity ?? 'critical', 'consistency', { rule: rule.id });
+      });
     });
-  });
+
+    return chunkIssues;
+  };
 
   // 2. Post-Validation Global Checks (Outliers, etc.)
-  Object.entries(numericValues).forEach(([col, values]) => {
-    if (values.length < 10) return; // Not enough data for stats
-
-    // IQR Outlier Detection
-    values.sort((a, b) => a - b);
-    const q1 = values[Math.floor(values.length * 0.25)];
-    const q3 = values[Math.floor(values.length * 0.75)];
-    const iqr = q3 - q1;
-    const lowerBound = q1 - 1.5 * iqr;
-    const upperBound = q3 + 1.5 * iqr;
-
-    // Re-scanning data for outliers:
-    const outliers = data.map((r, i) => ({ val: r[col], idx: i }))
-      .filter(item => {
-        const v = Number(item.val);
-        return !isNaN(v) && (v < lowerBound || v > upperBound);
-      });
+  let outlierBounds: Record<string, { lowerBound: number; upperBound: number }> | null = null;
 
-    outliers.forEach(o => {
-      addIssue(issues, o.idx, col, o.val, `Outlier detected (Range: ${lowerBound.toFixed(2)} - ${upperBound.toFixed(2)})`, 'warning', 'range');
-      warningCount++;
-      fieldResults[col].failed_checks.push('outlier_iqr');
-      fieldResults[col].severity_counts.warning++;
-      if (!fieldResults[col].failed_checks.includes('outlier_iqr')) fieldResults[col].failed_checks.push('outlier_iqr');
+  const computeOutlierBounds = () => {
+    const bounds: Record<string, { lowerBound: number; upperBound: number }> = {};
+    Object.entries(numericValues).forEach(([col, sample]) => {
+      const values = sample.values();
+      if (values.length < 10) return; // Not enough data for stats
+
+      // IQR Outlier Detection
+      values.sort((a, b) => a - b);
+      const q1 = values[Math.floor(values.length * 0.25)];
+      const q3 = values[Math.floor(values.length * 0.75)];
+      const iqr = q3 - q1;
+      bounds[col] = {
+        lowerBound: q1 - 1.5 * iqr,
+        upperBound: q3 + 1.5 * iqr
+      };
     });
-  });
+    return bounds;
+  };
 
-  // 3. Score Calculation
-  let totalFieldScores = 0;
-  columns.forEach(col => {
-    const res = fieldResults[col];
-    // Simple score: (Valid / Total) * 100
-    // Penalize warnings too
-    const validRatio = res.total_values > 0 ? res.valid_values / res.total_values : 0;
-    let score = validRatio * 100;
+  // Re-scanning data for outliers:
+  const scanOutliers = (rows: Record<string, unknown>[], offset: number) => {
+    if (!outlierBounds) outlierBounds = computeOutlierBounds();
+
+    Object.entries(outlierBounds).forEach(([col, { lowerBound, upperBound }]) => {
+      const outliers = rows.map((r, i) => ({ val: r[col], idx: offset + i }))
+        .filter(item => {
+          const v = Number(item.val);
+          return !isNaN(v) && (v < lowerBound || v > upperBound);
+        });
 
-    // Slight penalty for warnings (e.g. 5 points per 10% warnings)
-    const warningRatio = res.total_values > 0 ? res.severity_counts.warning / res.total_values : 0;
-    score -= (warningRatio * 50); // Cap at 50% penalty for warnings
+      outliers.forEach(o => {
+        flag(o.idx, col, o.val, 'outlier_iqr', `Outlier detected (Range: ${lowerBound.toFixed(2)} - ${upperBound.toFixed(2)})`, 'warning', 'range');
+      });
+    });
+  };
 
-    res.quality_score = Math.round(Math.max(0, Math.min(100, score)));
-    totalFieldScores += res.quality_score;
+  const finalize = (): ValidationReport => {
+    // 3. Score Calculation
+    const warningPenalty = profile.warningPenalty ?? DEFAULT_WARNING_PENALTY;
+    let totalFieldScores = 0;
+    let totalWeight = 0;
+    columns.forEach(col => {
+      const res = fieldResults[col];
+      // Simple score: (Valid / Total) * 100
+      // Penalize warnings too
+      const validRatio = res.total_values > 0 ? res.valid_values / res.total_values : 0;
+      let score = validRatio * 100;
 
-    // Deduplicate failed checks list
-    res.failed_checks = Array.from(new Set(res.failed_checks));
-  });
+      // Penalty for warnings, scaled by the profile (by default 5 points per 10% warnings)
+      const warningRatio = res.total_values > 0 ? res.severity_counts.warning / res.total_values : 0;
+      score -= warningRatio * warningPenalty;
 
-  const datasetScore = columns.length > 0 ? Math.round(totalFieldScores / columns.length) : 0;
-
-  // 4. Status Determination
-  let status: 'pass' | 'warn' | 'fail' = 'pass';
-  if (datasetScore < 60 || errorCount > data.length * 0.1) status = 'fail';
-  else if (datasetScore < 90 || warningCount > 0) status = 'warn';
-
-  return {
-    dataset_quality_score: datasetScore,
-    total_records: data.length,
-    processed_records: data.length,
-    error_count: errorCount,
-    warning_count: warningCount,
-    validation_status: status,
-    field_validation_results: fieldResults,
-    issues: issues.slice(0, 100) // Limit output issues
+      res.quality_score = Math.round(Math.max(0, Math.min(100, score)));
+      const weight = resolveFieldWeight(profile, col, options.fieldMapping?.[col]);
+      totalFieldScores += res.quality_score * weight;
+      totalWeight += weight;
+    });
+
+    const datasetScore = totalWeight > 0 ? Math.round(totalFieldScores / totalWeight) : 0;
+
+    // 4. Status Determination
+    const thresholds = resolveThresholds(profile);
+    let status: 'pass' | 'warn' | 'fail' = 'pass';
+    if (datasetScore < thresholds.failBelowScore || errorCount > rowCount * thresholds.maxErrorRate) status = 'fail';
+    else if (datasetScore < thresholds.warnBelowScore || (thresholds.warnOnWarnings && warningCount > 0)) status = 'warn';
+
+    const categoryClusters: Record<string, CategoryCluster[]> = {};
+    Object.entries(categoricalValues).forEach(([col, values]) => {
+      const clusters = clusterCategoryValues(values);
+      if (clusters.length > 0) categoryClusters[col] = clusters;
+    });
+
+    return {
+      dataset_quality_score: datasetScore,
+      total_records: rowCount,
+      processed_records: rowCount,
+      error_count: errorCount,
+      warning_count: warningCount,
+      validation_status: status,
+      field_validation_results: fieldResults,
+      issues: issueLog.slice(0, 100),
+      issue_log: issueLog,
+      profile,
+      ...(Object.keys(categoryClusters).length > 0 && { category_clusters: categoryClusters })
+  };
   };
-};
 
-const addIssue = (
-  issues: ValidationIssue[],
-  row: number,
-  col: string,
-  val: any,
-  msg: string,
-  sev: SeverityLevel,
-  type: ValidationIssue['type']
-) => {
-  if (issues.length >= 1000) return; // Cap total issues collected in memory
-  issues.push({
-    row: row + 1, // 1-based index for display
-    column: col,
-    value: val,
-    message: msg,
-    severity: sev,
-    type: type
-  });
+  return { addRows, scanOutliers, finalize };
 };
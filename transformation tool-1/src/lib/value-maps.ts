@@ -0,0 +1,111 @@
+import type { CategoryCluster, ValueMap, ValueMapRegistry } from '../types';
+import { withStore } from './app-database';
+import { jaroWinkler } from './duplicates';
+
+// Categorical value standardization. Spellings are compared by a normalized key, keys that
+// look alike (typos, "ny" vs "new york") are clustered for review, and accepted labels are
+// saved as a value map per canonical field that cleaning applies on every later run.
+
+const SIMILARITY = 0.92;   // Jaro-Winkler of two keys that are likely the same category
+const MIN_FUZZY_LENGTH = 4; // Shorter keys only cluster as acronyms, "nj" and "ny" stay apart
+
+export const valueMapId = (schemaId: string, fieldId: string) => `${schemaId}.${fieldId}`;
+
+export const loadValueMaps = async (): Promise<ValueMapRegistry> => {
+  const stored = await withStore<ValueMap[]>('value_maps', 'readonly', store => store.getAll());
+  return Object.fromEntries(stored.map(map => [map.id, map]));
+};
+
+export const saveValueMap = async (map: ValueMap): Promise<void> => {
+  await withStore('value_maps', 'readwrite', store => store.put(map));
+};
+
+export const deleteValueMap = async (id: string): Promise<void> => {
+  await withStore('value_maps', 'readwrite', store => store.delete(id));
+};
+
+/** Saved value maps of one schema, keyed by field id. */
+export const valueMapsForSchema = (registry: ValueMapRegistry, schemaId: string): Record<string, ValueMap> =>
+  Object.fromEntries(Object.values(registry).filter(map => map.schemaId === schemaId).map(map => [map.fieldId, map]));
+
+/** Spelling-insensitive key of a category: "N.Y.", "ny " and "NY" all become "ny". */
+export const categoryKey = (value: unknown): string =>
+  String(value)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/** Canonical label of a value under a map; values the map does not know are returned as is. */
+export const applyValueMap = (map: ValueMap, value: unknown): unknown => {
+  if (value === null || value === undefined || value === '') return value;
+  return map.values[categoryKey(value)] ?? value;
+};
+
+const initials = (key: string) => key.split(' ').map(token => token[0]).join('');
+
+const sameCategory = (a: string, b: string) => {
+  if (a.includes(' ') !== b.includes(' ')) {
+    const [phrase, code] = a.includes(' ') ? [a, b] : [b, a];
+    return code.length >= 2 && initials(phrase) === code;
+  }
+  return Math.min(a.length, b.length) >= MIN_FUZZY_LENGTH && jaroWinkler(a, b) >= SIMILARITY;
+};
+
+/**
+ * Groups the distinct values of a column into clusters of spellings of the same category.
+ * Values a map already labels alike are always clustered. Only clusters with more than
+ * one spelling are returned, largest first.
+ */
+export const clusterCategoryValues = (counts: Map<string, number>, map?: ValueMap): CategoryCluster[] => {
+  // Spellings sharing a key are one category from the start
+  const byKey = new Map<string, { value: string; count: number }[]>();
+  counts.forEach((count, value) => {
+    const key = categoryKey(value);
+    if (!key) return;
+    const members = byKey.get(key);
+    if (members) members.push({ value, count });
+    else byKey.set(key, [{ value, count }]);
+  });
+
+  const keys = Array.from(byKey.keys());
+  const parent = keys.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (i: number, j: number) => {
+    const ri = find(i);
+    const rj = find(j);
+    if (ri !== rj) parent[rj] = ri;
+  };
+
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      const mapped = map?.values[keys[i]];
+      if ((mapped !== undefined && mapped === map?.values[keys[j]]) || sameCategory(keys[i], keys[j])) union(i, j);
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  keys.forEach((key, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(key);
+    else groups.set(root, [key]);
+  });
+
+  return Array.from(groups.values())
+    .map(groupKeys => {
+      const members = groupKeys.flatMap(key => byKey.get(key) ?? []).sort((a, b) => b.count - a.count);
+      const mapped = groupKeys.map(key => map?.values[key]).find(label => label !== undefined);
+      return { canonical: mapped ?? members[0].value.trim(), members };
+    })
+    .filter(cluster => cluster.members.length > 1)
+    .sort((a, b) => b.members.length - a.members.length || b.members[0].count - a.members[0].count);
+};
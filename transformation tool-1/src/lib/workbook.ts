@@ -0,0 +1,57 @@
+import * as XLSX from 'xlsx';
+import type { HeaderLayout, SheetSummary } from '../types';
+import { assembleRecords, detectHeaderLayout } from './header-detection';
+
+// Column added to each row when several sheets are ingested together
+export const SHEET_NAME_COLUMN = 'sheet_name';
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(new Uint8Array(buffer), { type: 'array' });
+};
+
+// Sizes come from each sheet's used range, so no rows are materialized
+export const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, rowCount: 0, columnCount: 0 };
+
+    const range = XLSX.utils.decode_range(ref);
+    return {
+      name,
+      rowCount: Math.max(0, range.e.r - range.s.r),
+      columnCount: range.e.c - range.s.c + 1
+    };
+  });
+};
+
+// Raw cell grid of a sheet, header row included, blank rows dropped
+export const readSheetGrid = (workbook: XLSX.WorkBook, sheetName: string): unknown[][] => {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', blankrows: false });
+};
+
+/**
+ * Reads rows from the given sheets (defaults to the first sheet).
+ * Each sheet's header block is detected unless a layout is given, which then applies to all of them.
+ * With more than one sheet, every row is tagged with its sheet name so
+ * the union can still be split apart downstream.
+ */
+export const readSheetRows = (
+  workbook: XLSX.WorkBook,
+  sheetNames: string[] = workbook.SheetNames.slice(0, 1),
+  layout?: HeaderLayout
+): Record<string, unknown>[] => {
+  const selected = sheetNames.filter(name => workbook.Sheets[name]);
+  if (selected.length === 0) {
+    throw new Error('None of the selected sheets exist in this workbook');
+  }
+
+  const tag = selected.length > 1;
+  return selected.flatMap(name => {
+    const grid = readSheetGrid(workbook, name);
+    const rows = assembleRecords(grid, layout ?? detectHeaderLayout(grid));
+    return tag ? rows.map(row => ({ ...row, [SHEET_NAME_COLUMN]: name })) : rows;
+  });
+};
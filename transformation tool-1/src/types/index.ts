@@ -3,17 +3,108 @@ export interface ColumnAnalysis {
   type: string;
   nullPercentage: number;
   sampleValues?: any[];
+  inference?: TypeInference; // How `type` was decided and which value formats were seen
+  profile?: ColumnProfile;
+}
+
+export interface ValueFrequency {
+  value: string;
+  count: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface NumericSummary {
+  count: number;        // Values that parsed as numbers
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  histogram: HistogramBin[];
+  isSampled: boolean;   // Median and histogram come from a reservoir sample
+}
+
+export interface ColumnProfile {
+  distinctCount: number;
+  distinctIsApproximate: boolean; // Distinct tracking stopped at its cap; count is a lower bound
+  uniqueRatio: number;            // distinctCount / non-null values
+  topValues: ValueFrequency[];
+  patterns: ValueFrequency[];     // Shape signatures such as 'AAA-999'
+  length: {
+    min: number;
+    max: number;
+    mean: number;
+    histogram: HistogramBin[];    // One bin per observed length
+  };
+  numeric?: NumericSummary;       // Present when most values are numeric
+}
+
+export type InferredType = 'Integer' | 'Float' | 'Boolean' | 'Date' | 'String';
+
+// Formats observed in a column's raw values
+export interface ValueFormat {
+  datePattern?: string;                            // e.g. 'YYYY-MM-DD', 'DD/MM/YYYY', 'MMM D, YYYY'
+  thousandsSeparator?: ',' | '.' | ' ' | "'";
+  decimalSeparator?: '.' | ',';
+  currencySymbol?: string;                         // e.g. '$', '€', 'USD'
+  isPercent?: boolean;
+}
+
+export interface TypeInference {
+  type: InferredType;
+  confidence: number;                     // Share of non-null values that agree with `type` (0-1)
+  votes: Record<InferredType, number>;    // Non-null values classified as each type
+  format: ValueFormat;
 }
 
 export interface IngestionMetadata {
   fileName: string;
   fileSize: number;
-  fileType: 'csv' | 'xlsx' | 'json';
+  fileType: 'csv' | 'xlsx' | 'json' | 'jsonl';
   totalRows: number;
   totalColumns: number;
   uploadTimestamp: string;
   encoding?: string;
   source: 'manual';
+  sheetNames?: string[]; // Workbook sheets that were ingested
+  headerLayout?: HeaderLayout; // Where the header block was found (CSV/XLSX)
+  dialect?: CSVDialect;        // Detected CSV encoding and format
+  jsonRootPath?: string;       // Dotted path of the record array inside a JSON document
+  streamed?: boolean;   // Large CSV profiled chunk by chunk; only a sample is held in memory
+  sampleSize?: number;  // Rows retained for previews when streamed
+}
+
+export interface CSVDialect {
+  encoding: string;   // TextDecoder label, e.g. 'utf-8', 'utf-16le', 'windows-1252'
+  hasBOM: boolean;
+  delimiter: string;
+  quoteChar: string;
+  decimalSeparator: '.' | ',';
+}
+
+// Position of the header block in a raw grid; rows above headerRow are skipped
+export interface HeaderLayout {
+  headerRow: number;   // 0-based index of the first header row
+  headerDepth: number; // Number of header rows (multi-level headers are flattened)
+}
+
+// How nested JSON documents are turned into rows
+export interface JsonFlattenOptions {
+  rootPath?: string;                    // e.g. 'data.items'; '' is the document itself, auto-detected when omitted
+  arrayMode?: 'serialize' | 'explode';  // Arrays of objects: one JSON cell, or one row per element
+  maxDepth?: number;                    // Deeper objects are serialized into a single cell
+  separator?: string;                   // Joins nested keys into column paths
+}
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;    // Data rows, excluding the header row
+  columnCount: number;
 }
 
 export interface AnalysisResult {
@@ -21,6 +112,33 @@ export interface AnalysisResult {
   columns: ColumnAnalysis[];
 }
 
+// Declarative checks on a canonical field's values, enforced by the validator
+export interface FieldConstraints {
+  min?: number;
+  max?: number;
+  pattern?: string;     // Regular expression the whole value must match
+  enum?: string[];      // Allowed values, compared case-insensitively
+  minLength?: number;
+  maxLength?: number;
+  nullable?: boolean;   // false rejects empty values even on optional fields
+  minDate?: string;     // ISO date, inclusive
+  maxDate?: string;     // ISO date, inclusive
+}
+
+export type ConstraintName =
+  | 'required'
+  | 'nullable'
+  | 'type'
+  | 'unique'
+  | 'min'
+  | 'max'
+  | 'pattern'
+  | 'enum'
+  | 'minLength'
+  | 'maxLength'
+  | 'minDate'
+  | 'maxDate';
+
 export interface CanonicalField {
   id: string;
   label: string;
@@ -29,6 +147,7 @@ export interface CanonicalField {
   aliases: string[];
   unique?: boolean;
   description?: string;
+  constraints?: FieldConstraints;
 }
 
 export interface ColumnMapping {
@@ -40,15 +159,37 @@ export interface ColumnMapping {
 
 export interface MappingResult {
   detected_columns: string[];
+  // Source column -> canonical field id, only for columns that matched a field
   mapped_columns: Record<string, string>;
   unknown_columns: string[];
+  // Required canonical fields no source column was matched to
   missing_schema_fields: string[];
+  mappings: ColumnMapping[];
+}
+
+// Row-level rule over canonical field ids, written in the expression language of lib/row-rules
+export interface RowRule {
+  id: string;
+  assert: string;           // Must hold for every row, e.g. "end_date >= start_date"
+  when?: string;            // Only rows where this holds are checked
+  description?: string;     // Shown as the issue message
+  severity?: SeverityLevel; // Defaults to critical
+}
+
+// Declares that a field holds keys of another schema's field, e.g. orders.customer_id -> customers.customer_id.
+// many-to-one lets several rows share a key; one-to-one allows each referenced key at most once.
+export interface ForeignKey {
+  field: string;
+  references: { schema: string; field: string };
+  cardinality?: 'many-to-one' | 'one-to-one'; // Defaults to many-to-one
 }
 
 export interface DomainSchema {
   id: string;
   name: string;
   fields: CanonicalField[];
+  rules?: RowRule[];
+  foreignKeys?: ForeignKey[];
 }
 
 export interface SchemaRegistry {
@@ -69,6 +210,33 @@ export type SemanticMapping = Record<string, SemanticType>;
 
 export type SeverityLevel = 'info' | 'warning' | 'critical';
 
+// 'off' drops a check from the run entirely
+export type CheckSeverity = SeverityLevel | 'off';
+
+// Cutoffs that turn a run's score and issue counts into pass / warn / fail
+export interface StatusThresholds {
+  failBelowScore: number;   // Dataset score below this fails
+  maxErrorRate: number;     // Critical issues per record above this fails (0.1 = 10%)
+  warnBelowScore: number;   // Dataset score below this warns
+  warnOnWarnings: boolean;  // Any warning-level issue warns
+}
+
+// Named grading policy for a validation run. Check ids are the names reported in
+// FieldValidationResult.failed_checks, e.g. 'not_future', 'outlier_iqr', 'pattern' or 'rule:<id>'.
+export interface ValidationProfile {
+  id: string;
+  name: string;
+  description?: string;
+  severities?: Record<string, CheckSeverity>;
+  fieldWeights?: Record<string, number>; // Source column or field id -> weight in dataset_quality_score, default 1
+  warningPenalty?: number;               // Score points a field loses when every value has a warning, default 50
+  thresholds?: Partial<StatusThresholds>;
+}
+
+export interface ProfileRegistry {
+  [key: string]: ValidationProfile;
+}
+
 export interface ValidationIssue {
   row: number;
   column: string;
@@ -76,6 +244,46 @@ export interface ValidationIssue {
   message: string;
   severity: SeverityLevel;
   type: 'type' | 'format' | 'range' | 'required' | 'duplicate' | 'consistency' | 'encoding' | 'other';
+  constraint?: ConstraintName; // Set when a target schema constraint failed
+  rule?: string;               // Id of the failed RowRule
+  check?: string;              // Id of the failed check, as listed in failed_checks
+}
+
+export type IssueGroupKey = 'column' | 'check' | 'message' | 'severity' | 'type';
+export type IssueSortKey = 'row' | 'column' | 'severity' | 'type' | 'check' | 'message';
+
+export interface IssueFilter {
+  column?: string;
+  severity?: SeverityLevel;
+  type?: ValidationIssue['type'];
+  check?: string;
+  search?: string; // Case-insensitive match on message, value or column
+}
+
+export interface IssueQuery {
+  filter?: IssueFilter;
+  sort?: { key: IssueSortKey; direction: 'asc' | 'desc' };
+  offset?: number;
+  limit?: number;
+}
+
+export interface IssueGroup {
+  key: string;
+  count: number;
+  critical: number;
+  warning: number;
+  info: number;
+}
+
+// Read side of every issue of a validation run; lib/issue-store keeps them compactly
+export interface ValidationIssueLog {
+  readonly size: number;
+  get(index: number): ValidationIssue;
+  slice(start?: number, end?: number): ValidationIssue[];
+  distinct(key: 'column' | 'check'): string[];                        // Values present, for filter controls
+  query(query?: IssueQuery): { total: number; issues: ValidationIssue[] }; // One page of matching issues
+  aggregate(by: IssueGroupKey, filter?: IssueFilter): IssueGroup[];   // Counts per group, largest first
+  export(format: 'csv' | 'json', filter?: IssueFilter): Blob;
 }
 
 export interface FieldValidationResult {
@@ -101,7 +309,52 @@ export interface ValidationReport {
   warning_count: number;
   validation_status: 'pass' | 'warn' | 'fail';
   field_validation_results: Record<string, FieldValidationResult>;
-  issues: ValidationIssue[]; // Sample of issues
+  issues: ValidationIssue[]; // First issues found, for quick display
+  issue_log: ValidationIssueLog; // Every issue of the run, for paging, aggregation and export
+  referential_integrity?: ReferentialIntegrityResult[]; // Set when related datasets were checked together
+  profile?: ValidationProfile; // Profile the run was graded with
+  category_clusters?: Record<string, CategoryCluster[]>; // Source column -> spellings of the same category
+}
+
+// Spellings of one categorical value found in a column, e.g. "NY", "N.Y." and "New York"
+export interface CategoryCluster {
+  canonical: string; // Suggested label: the mapped label, else the most frequent spelling
+  members: { value: string; count: number }[]; // Most frequent first
+}
+
+// Learned synonyms of one CanonicalField, applied every time the field is cleaned
+export interface ValueMap {
+  id: string; // "<schema id>.<field id>"
+  schemaId: string;
+  fieldId: string;
+  values: Record<string, string>; // Normalized spelling (categoryKey) -> canonical label
+}
+
+export interface ValueMapRegistry {
+  [key: string]: ValueMap;
+}
+
+export interface KeySample {
+  value: string;
+  rows: number[]; // First rows holding the value
+  count: number;
+}
+
+// Outcome of one ForeignKey checked across two ingested datasets
+export interface ReferentialIntegrityResult {
+  foreign_key: string;        // "orders.customer_id -> customers.customer_id"
+  source_dataset: string;
+  target_dataset: string | null; // null when no dataset for the referenced schema was loaded
+  cardinality: NonNullable<ForeignKey['cardinality']>;
+  checked_values: number;     // Non-empty keys in the source dataset
+  orphan_count: number;       // Source rows whose key has no match in the target
+  orphans: KeySample[];
+  duplicate_key_count: number; // Target keys that occur more than once
+  duplicate_keys: KeySample[];
+  cardinality_violation_count: number; // one-to-one keys referenced by several source rows
+  cardinality_violations: KeySample[];
+  status: 'pass' | 'fail' | 'skipped';
+  message?: string;
 }
 
 export interface CleaningStats {
@@ -109,6 +362,8 @@ export interface CleaningStats {
   records_after_validation: number;
   records_after_cleaning: number;
   records_with_critical_errors: number;
+  // Rows with value-level warnings after cleaning. Distribution outliers are not part of it:
+  // cleaning never scans for them, the recipe's outlier rules treat them (see fixes_applied)
   records_with_warnings: number;
   dropped_records: number;
   fixes_applied: Record<string, number>;
@@ -120,4 +375,95 @@ export interface CleaningReport {
   stats: CleaningStats;
   cleaned_data: any[];
   dropped_rows: number[]; // Row indices
+  cleaned_output?: Blob;  // Full cleaned CSV when the source was streamed
+  is_preview?: boolean;   // cleaned_data holds only the first rows of cleaned_output
+  recipe?: CleaningRecipe; // Recipe the run was cleaned with
+  imputed_cells?: ImputedCell[]; // Cells of cleaned_data filled by imputation
+}
+
+// One step of a cleaning recipe: a transform from the registry and its parameters
+export interface CleaningStep {
+  transform: string;
+  params?: Record<string, unknown>;
+}
+
+// Named, serializable cleaning plan. Fields are target field ids; a field with steps is
+// cleaned by them in order instead of the default cleaning for its semantic type, and a
+// field missing from the mapping is created (e.g. by a merge).
+export interface CleaningRecipe {
+  id: string;
+  name: string;
+  description?: string;
+  fields: Record<string, CleaningStep[]>;
+  imputation?: Record<string, ImputationRule>; // Target field id -> how its missing values are filled
+  outliers?: Record<string, OutlierRule>;       // Target field id -> how its outliers are detected and treated
+}
+
+export type ImputationStrategy =
+  | 'mean'
+  | 'median'
+  | 'mode'
+  | 'constant'
+  | 'forward_fill'
+  | 'backward_fill'
+  | 'group_median'
+  | 'knn';
+
+// How the missing values of one field are filled once its rows are cleaned
+export interface ImputationRule {
+  strategy: ImputationStrategy;
+  value?: string | number | boolean; // constant
+  orderBy?: string;    // forward/backward fill: date field to order rows by; file order when unset
+  groupBy?: string;    // group_median: categorical field to group rows by
+  neighbors?: number;  // knn: rows averaged, 5 by default
+  features?: string[]; // knn: numeric fields compared; every other numeric field by default
+}
+
+export interface ImputedCell {
+  row: number;   // Index into the cleaned rows
+  field: string;
+  strategy: ImputationStrategy;
+}
+
+export type OutlierDetector = 'iqr' | 'zscore' | 'mad' | 'isolation';
+
+export type OutlierAction = 'flag' | 'winsorize' | 'cap' | 'null' | 'drop';
+
+// How outliers of one numeric field are found and treated once its rows are cleaned,
+// before missing values are imputed
+export interface OutlierRule {
+  detector: OutlierDetector;
+  threshold?: number; // IQR multiplier (1.5), max |z| (3), max modified z (3.5) or max isolation score (0.6)
+  action: OutlierAction;
+  percentiles?: [number, number]; // winsorize: percentiles outliers are clipped to, [5, 95] by default
+}
+
+// How two values of a field are compared when looking for fuzzy duplicates
+export type MatchComparator = 'exact' | 'jaro_winkler' | 'token_sort' | 'email' | 'phone';
+
+export interface MatchField {
+  field: string;
+  comparator: MatchComparator;
+  weight: number; // Share of the row similarity; fields missing in either row are left out
+}
+
+// Which value of a duplicate cluster survives into the merged golden record
+export type SurvivorshipRule = 'most_complete' | 'first' | 'most_frequent' | 'longest' | 'latest' | 'max' | 'min';
+
+export interface DuplicateConfig {
+  fields: MatchField[];
+  threshold: number; // Weighted similarity (0-1) at which two rows are duplicates
+  survivorship: Record<string, SurvivorshipRule>; // Field -> rule; most_complete when unset
+  orderBy?: string;  // latest: date field that orders the rows of a cluster
+}
+
+export interface DuplicateCluster {
+  id: number;
+  rows: number[];  // Indices into the compared rows, ascending
+  score: number;   // Lowest similarity among the matched pairs that joined the cluster
+  golden: Record<string, unknown>;
+}
+
+export interface RecipeRegistry {
+  [key: string]: CleaningRecipe;
 }
@@ -0,0 +1,23 @@
+import type { UnifiedRecord } from '../lib/input-processor';
+
+// Messages sent from the main thread to an ingestion worker
+export type IngestionWorkerRequest =
+    | { type: 'ingest'; job_id: string; file: File; audio?: Float32Array };
+
+// Messages sent from an ingestion worker back to the main thread
+export type IngestionWorkerResponse =
+    | { type: 'progress'; job_id: string; percent: number; message: string }
+    | { type: 'records'; job_id: string; records: UnifiedRecord[] }
+    | { type: 'done'; job_id: string; record_count: number }
+    | { type: 'error'; job_id: string; message: string };
+
+export type FileIngestionStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface FileIngestionProgress {
+    file_name: string;
+    file_size: number;
+    status: FileIngestionStatus;
+    percent: number;
+    records: number;
+    message?: string;
+}
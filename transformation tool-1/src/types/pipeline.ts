@@ -0,0 +1,29 @@
+import type { FileIngestionProgress } from './ingestion';
+
+export type PipelineStageId = 'ingestion' | 'topic_linking' | 'text_cleaning' | 'batch_validation';
+
+export type PipelineStageStatus = 'pending' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface PipelineStageTiming {
+    stage: PipelineStageId;
+    label: string;
+    status: PipelineStageStatus;
+    started_at?: number;  // performance.now() timestamps
+    duration_ms: number;
+    records_in: number;
+    records_out: number;
+}
+
+export interface PipelineProgressEvent {
+    stage: PipelineStageId;
+    label: string;
+    status: PipelineStageStatus;
+    message: string;
+    overall_percent: number; // 0-100 across all stages
+    stage_percent: number;   // 0-100 within the current stage
+    records_in: number;
+    records_out: number;
+    elapsed_ms: number;      // time spent in the current stage so far
+    timings: PipelineStageTiming[];
+    file_progress?: FileIngestionProgress[]; // Per-file detail while ingesting
+}